@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { appBaseUrl } from '@/lib/app-url';
+import { sendMail } from '@/lib/mailer';
+import {
+  RESET_REQUEST_LIMIT,
+  RESET_REQUEST_WINDOW_MS,
+  buildResetEmail,
+  createResetToken,
+  normalizeEmail,
+} from '@/lib/password-reset';
+import { consumeRateLimit } from '@/lib/rate-limit';
+
+/**
+ * Email a password reset link.
+ *
+ * The response is the same whether or not an account exists for the address,
+ * so this can't be used to discover accounts. Requests are limited per email.
+ */
+export async function POST(request: Request) {
+  let body: { email?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (typeof body.email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(body.email.trim())) {
+    return NextResponse.json({ error: 'Please enter a valid email address' }, { status: 400 });
+  }
+
+  const email = normalizeEmail(body.email);
+  const limit = await consumeRateLimit(`password-reset:${email}`, RESET_REQUEST_LIMIT, RESET_REQUEST_WINDOW_MS);
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: 'Too many reset requests for this email. Please try again later.' },
+      { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+    );
+  }
+
+  try {
+    // Links are built from the configured public URL, never the Host header
+    const resetUrl = `${appBaseUrl()}/reset-password/${createResetToken(email)}`;
+    await sendMail({ to: email, ...buildResetEmail(resetUrl) });
+  } catch (error) {
+    console.error('Failed to send password reset email:', error);
+    return NextResponse.json({ error: 'Could not send the reset email. Please try again later.' }, { status: 502 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { saveAccountLink, verifyLinkToken } from '@/lib/account-links';
+import { AuthError, loginWithPassword } from '@/lib/linkedtrust-auth';
+
+// Describe a pending link so the page can show which account is being linked
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get('token') || '';
+  const pending = verifyLinkToken(token);
+
+  if (!pending) {
+    return NextResponse.json({ error: 'This link has expired. Please sign in again.' }, { status: 400 });
+  }
+
+  return NextResponse.json({ email: pending.email, provider: pending.provider });
+}
+
+// Prove ownership of the existing account with its password, then link it
+export async function POST(request: Request) {
+  let body: { token?: unknown; password?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const pending = typeof body.token === 'string' ? verifyLinkToken(body.token) : null;
+  if (!pending) {
+    return NextResponse.json({ error: 'This link has expired. Please sign in again.' }, { status: 400 });
+  }
+
+  if (typeof body.password !== 'string' || !body.password) {
+    return NextResponse.json({ error: 'Password is required' }, { status: 400 });
+  }
+
+  try {
+    const { user, refreshToken } = await loginWithPassword(pending.email, body.password);
+    if (!user.issuerId) {
+      return NextResponse.json({ error: 'LinkedTrust did not return an account id' }, { status: 502 });
+    }
+
+    await saveAccountLink(pending, user.issuerId, refreshToken);
+    return NextResponse.json({ linked: true, provider: pending.provider });
+  } catch (error) {
+    if (error instanceof AuthError && (error.status === 401 || error.status === 400)) {
+      return NextResponse.json({ error: 'Incorrect password' }, { status: 401 });
+    }
+    console.error('Account linking failed:', error);
+    return NextResponse.json({ error: 'Could not reach LinkedTrust. Please try again.' }, { status: 502 });
+  }
+}
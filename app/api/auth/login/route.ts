@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { AuthError, loginWithPassword } from '@/lib/linkedtrust-auth';
+import { isLegacyOAuthPassword } from '@/lib/oauth-credentials';
+import { createSession, toSessionInfo } from '@/lib/session';
+
+// Email/password sign-in; the LinkedTrust token is kept server-side
+export async function POST(request: Request) {
+  let body: { email?: unknown; password?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { email, password } = body;
+  if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+    return NextResponse.json({ error: 'Email and password are required' }, { status: 400 });
+  }
+
+  // Never let the old guessable OAuth bridge password open a session, even before it's rotated
+  if (isLegacyOAuthPassword(password)) {
+    return NextResponse.json({ error: 'Invalid email or password' }, { status: 401 });
+  }
+
+  try {
+    const auth = await loginWithPassword(email, password);
+    const session = await createSession(auth);
+    return NextResponse.json(await toSessionInfo(session));
+  } catch (error) {
+    if (error instanceof AuthError && error.status < 500) {
+      return NextResponse.json({ error: error.message || 'Invalid email or password' }, { status: error.status });
+    }
+    console.error('Login failed:', error);
+    return NextResponse.json({ error: 'Login failed. Please try again.' }, { status: 502 });
+  }
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { destroySession } from '@/lib/session';
+
+// End the password session. OAuth sessions are ended with NextAuth's signOut.
+export async function POST() {
+  await destroySession();
+  return NextResponse.json({ ok: true });
+}
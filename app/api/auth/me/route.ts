@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { getRequestAuth, toSessionInfo } from '@/lib/session';
+
+// Current user for the browser; never includes the backend token
+export async function GET() {
+  const auth = await getRequestAuth();
+  return NextResponse.json({ session: auth ? await toSessionInfo(auth) : null });
+}
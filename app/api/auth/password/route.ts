@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { AuthError, changePassword, loginWithPassword } from '@/lib/linkedtrust-auth';
+import { validatePassword } from '@/lib/password-policy';
+import { createSession, getRequestAuth, toSessionInfo } from '@/lib/session';
+import { revokeSessionsBefore } from '@/lib/session-revocation';
+
+/**
+ * Change the password of the signed-in email/password account.
+ *
+ * The current password is verified against /auth/login and the resulting
+ * token is used for the update. Other sessions are revoked and this one is
+ * replaced with a fresh session.
+ */
+export async function POST(request: Request) {
+  const auth = await getRequestAuth();
+  if (!auth || auth.authMethod !== 'password') {
+    return NextResponse.json({ error: 'Sign in with your email and password first' }, { status: 401 });
+  }
+  const { email } = auth.user;
+
+  let body: { currentPassword?: unknown; newPassword?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { currentPassword, newPassword } = body;
+  if (typeof currentPassword !== 'string' || typeof newPassword !== 'string') {
+    return NextResponse.json({ error: 'Current password and new password are required' }, { status: 400 });
+  }
+
+  const problems = validatePassword(newPassword, { email });
+  if (problems.length > 0) {
+    return NextResponse.json({ error: problems[0], problems }, { status: 400 });
+  }
+  if (newPassword === currentPassword) {
+    return NextResponse.json({ error: 'New password must be different from the current one' }, { status: 400 });
+  }
+
+  try {
+    let verified;
+    try {
+      verified = await loginWithPassword(email, currentPassword);
+    } catch (error) {
+      if (error instanceof AuthError && error.status < 500) {
+        return NextResponse.json({ error: 'Current password is incorrect' }, { status: 401 });
+      }
+      throw error;
+    }
+
+    await changePassword(verified.token, currentPassword, newPassword);
+
+    const changedAt = Date.now();
+    await revokeSessionsBefore(verified.user.issuerId || verified.user.id, changedAt);
+
+    // Re-login so this device keeps a valid session issued after the revocation
+    const session = await createSession(await loginWithPassword(email, newPassword));
+    return NextResponse.json(await toSessionInfo(session));
+  } catch (error) {
+    console.error('Password change failed:', error);
+    return NextResponse.json({ error: 'Could not update password. Please try again.' }, { status: 502 });
+  }
+}
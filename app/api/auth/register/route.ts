@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { AuthError, signupWithPassword } from '@/lib/linkedtrust-auth';
+import { validatePassword } from '@/lib/password-policy';
+import { createSession, toSessionInfo } from '@/lib/session';
+
+// Create an email/password account and sign it in
+export async function POST(request: Request) {
+  let body: { email?: unknown; password?: unknown; name?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { email, password, name } = body;
+  if (typeof email !== 'string' || typeof password !== 'string' || !email) {
+    return NextResponse.json({ error: 'Email and password are required' }, { status: 400 });
+  }
+
+  const problems = validatePassword(password, { email });
+  if (problems.length > 0) {
+    return NextResponse.json({ error: problems[0], problems }, { status: 400 });
+  }
+
+  try {
+    const auth = await signupWithPassword(email, password, typeof name === 'string' && name ? name : undefined);
+    const session = await createSession(auth);
+    return NextResponse.json(await toSessionInfo(session));
+  } catch (error) {
+    if (error instanceof AuthError && error.status < 500) {
+      return NextResponse.json({ error: error.message || 'Registration failed' }, { status: error.status });
+    }
+    console.error('Registration failed:', error);
+    return NextResponse.json({ error: 'Registration failed. Please try again.' }, { status: 502 });
+  }
+}
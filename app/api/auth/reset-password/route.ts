@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { AuthError, loginWithPassword, resetPassword } from '@/lib/linkedtrust-auth';
+import { validatePassword } from '@/lib/password-policy';
+import { consumeResetToken, verifyResetToken } from '@/lib/password-reset';
+import { revokeSessionsBefore } from '@/lib/session-revocation';
+
+const INVALID_LINK = 'This reset link is invalid or has expired. Please request a new one.';
+
+// Check a reset link before showing the form
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get('token') || '';
+  const email = await verifyResetToken(token);
+
+  if (!email) {
+    return NextResponse.json({ error: INVALID_LINK }, { status: 400 });
+  }
+
+  return NextResponse.json({ email });
+}
+
+/**
+ * Set a new password from a reset link. The link is used up even if the
+ * backend update fails, so a leaked link can't be retried.
+ */
+export async function POST(request: Request) {
+  let body: { token?: unknown; newPassword?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { token, newPassword } = body;
+  if (typeof token !== 'string' || typeof newPassword !== 'string') {
+    return NextResponse.json({ error: 'Token and new password are required' }, { status: 400 });
+  }
+
+  const pendingEmail = await verifyResetToken(token);
+  if (!pendingEmail) {
+    return NextResponse.json({ error: INVALID_LINK }, { status: 400 });
+  }
+
+  // Check the policy before spending the token so the user can fix typos
+  const problems = validatePassword(newPassword, { email: pendingEmail });
+  if (problems.length > 0) {
+    return NextResponse.json({ error: problems[0], problems }, { status: 400 });
+  }
+
+  const email = await consumeResetToken(token);
+  if (!email) {
+    return NextResponse.json({ error: INVALID_LINK }, { status: 400 });
+  }
+
+  try {
+    await resetPassword(email, newPassword);
+  } catch (error) {
+    console.error('Password reset failed:', error);
+    const status = error instanceof AuthError && error.status === 404 ? 400 : 502;
+    return NextResponse.json(
+      { error: 'Could not reset your password. Please request a new link and try again.' },
+      { status }
+    );
+  }
+
+  // Sign out every existing session; the issuer id comes from a fresh login
+  try {
+    const { user } = await loginWithPassword(email, newPassword);
+    await revokeSessionsBefore(user.issuerId || user.id);
+  } catch (error) {
+    console.error('Could not revoke sessions after password reset:', error);
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server';
+import { getCurrentClaimId } from '@/lib/claim-revisions';
+import { isClaimTrashed } from '@/lib/claim-trash';
+import { isOwnClaim } from '@/lib/claim-visibility';
+import { isEndorsementClaim } from '@/lib/endorsement-policy';
+import { createEndorsementRequest, hasEndorsed, verifyEndorsementRequest } from '@/lib/endorsements';
+import { LinkedTrustClient, isLinkedTrustError } from '@/lib/linkedtrust-client';
+import { displayNameFor } from '@/lib/public-portfolio';
+import { getRequestAuth } from '@/lib/session';
+import { getProfile } from '@/lib/usernames';
+
+const INVALID_LINK = 'This endorsement link is invalid or has expired. Ask for a new one.';
+
+/**
+ * Look up an endorsement request link before showing the form: the
+ * achievement, whose it is, and whether the signed-in user can endorse it.
+ */
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get('token') || '';
+  const endorsementRequest = verifyEndorsementRequest(token);
+  if (!endorsementRequest) {
+    return NextResponse.json({ error: INVALID_LINK }, { status: 400 });
+  }
+  // The achievement may have been edited since the link was made
+  const claimId = await getCurrentClaimId(endorsementRequest.claimId);
+  if (await isClaimTrashed(claimId)) {
+    return NextResponse.json({ error: 'This achievement no longer exists.' }, { status: 404 });
+  }
+
+  let claim;
+  try {
+    claim = await new LinkedTrustClient().getClaim(claimId);
+  } catch (error) {
+    if (isLinkedTrustError(error) && error.code === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'This achievement no longer exists.' }, { status: 404 });
+    }
+    console.error('Failed to load claim for endorsement request:', error);
+    return NextResponse.json({ error: 'Could not reach LinkedTrust' }, { status: 502 });
+  }
+
+  const [owner, auth] = await Promise.all([getProfile(endorsementRequest.ownerIssuerId), getRequestAuth()]);
+  const issuerId = auth?.token ? String(auth.user.issuerId || auth.user.id) : undefined;
+
+  return NextResponse.json({
+    claim: {
+      id: claim.id,
+      aspect: claim.aspect,
+      statement: claim.statement,
+      stars: claim.stars,
+      effectiveDate: claim.effectiveDate,
+    },
+    ownerName: owner ? displayNameFor(owner) : null,
+    isOwner: issuerId === endorsementRequest.ownerIssuerId,
+    alreadyEndorsed: issuerId ? await hasEndorsed(claimId, issuerId) : false,
+  });
+}
+
+/**
+ * Create a request link for one of the signed-in user's achievements.
+ * The link can be sent to several people until it expires.
+ */
+export async function POST(request: Request) {
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (!auth?.token || !issuerId) {
+    return NextResponse.json({ error: 'Not signed in to LinkedTrust' }, { status: 401 });
+  }
+
+  let body: { claimId?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const claimId = Number(body.claimId);
+  if (!Number.isInteger(claimId) || claimId <= 0) {
+    return NextResponse.json({ error: 'Invalid claim id' }, { status: 400 });
+  }
+
+  try {
+    const claim = await new LinkedTrustClient({ token: auth.token }).getClaim(claimId);
+    if (!isOwnClaim(claim, issuerId) || isEndorsementClaim(claim)) {
+      return NextResponse.json({ error: 'You can only request endorsements for your own achievements' }, { status: 403 });
+    }
+  } catch (error) {
+    if (isLinkedTrustError(error) && error.code === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'Achievement not found' }, { status: 404 });
+    }
+    console.error('Failed to verify claim ownership:', error);
+    return NextResponse.json({ error: 'Could not reach LinkedTrust' }, { status: 502 });
+  }
+
+  return NextResponse.json({ path: `/endorse/${createEndorsementRequest(claimId, issuerId)}` });
+}
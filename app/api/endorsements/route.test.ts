@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET as getRequest } from '@/app/api/endorsements/requests/route';
+import { POST } from '@/app/api/endorsements/route';
+import { createEndorsementRequest, getEndorsementsForOwner } from '@/lib/endorsements';
+import { ClaimInput, claimUri } from '@/lib/linkedtrust-client';
+import { RequestAuth, getRequestAuth } from '@/lib/session';
+
+const stores = vi.hoisted(() => new Map<string, unknown>());
+const createClaim = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/json-store', () => ({
+  readStore: async (name: string, fallback: unknown) => structuredClone(stores.get(name) ?? fallback),
+  updateStore: async (name: string, fallback: unknown, mutate: (store: unknown) => unknown) => {
+    const store = structuredClone(stores.get(name) ?? fallback);
+    await mutate(store);
+    stores.set(name, store);
+    return store;
+  },
+}));
+
+vi.mock('@/lib/session', () => ({ getRequestAuth: vi.fn() }));
+
+vi.mock('@/lib/claim-trash', () => ({ isClaimTrashed: async () => false }));
+
+// Claim 10 was edited into claim 11
+vi.mock('@/lib/claim-revisions', () => ({
+  getCurrentClaimId: async (claimId: number) => (claimId === 10 ? 11 : claimId),
+}));
+
+vi.mock('@/lib/linkedtrust-client', async importOriginal => {
+  const actual = await importOriginal<typeof import('@/lib/linkedtrust-client')>();
+  class LinkedTrustClient {
+    async getClaim(id: number) {
+      return { id, subject: 'https://live.linkedtrust.us/users/1', claim: 'HAS_SKILL', statement: `Claim ${id}`, aspect: 'skill' };
+    }
+    createClaim = createClaim;
+  }
+  return { ...actual, LinkedTrustClient };
+});
+
+const endorser: RequestAuth = {
+  user: { id: 2, email: 'endorser@example.com', name: 'Endorser' },
+  token: 'token',
+  authMethod: 'password',
+  sessionId: 'session',
+};
+
+beforeEach(() => {
+  vi.stubEnv('TRUSTFOLIO_SECRET', 'test-secret-that-is-long-enough-for-the-cipher');
+  stores.clear();
+  createClaim.mockReset().mockImplementation(async (input: ClaimInput) => ({ id: 99, ...input }));
+  vi.mocked(getRequestAuth).mockResolvedValue(endorser);
+});
+
+describe('endorsement links for an edited achievement', () => {
+  it('show the latest version', async () => {
+    const token = createEndorsementRequest(10, 1);
+    const response = await getRequest(new Request(`http://localhost/api/endorsements/requests?token=${token}`));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).claim.id).toBe(11);
+  });
+
+  it('endorse the latest version', async () => {
+    const token = createEndorsementRequest(10, 1);
+    const response = await POST(new Request('http://localhost/api/endorsements', {
+      method: 'POST',
+      body: JSON.stringify({ token, statement: 'Great work on this project.', stars: 5 }),
+    }));
+
+    expect(response.status).toBe(200);
+    expect(createClaim).toHaveBeenCalledWith(expect.objectContaining({
+      subject: claimUri(11),
+    }));
+    expect((await getEndorsementsForOwner(1))['11']).toHaveLength(1);
+  });
+});
@@ -0,0 +1,121 @@
+import { NextResponse } from 'next/server';
+import { getCurrentClaimId } from '@/lib/claim-revisions';
+import { isClaimTrashed } from '@/lib/claim-trash';
+import { ENDORSEMENT_CLAIM, Endorsement, validateEndorsement } from '@/lib/endorsement-policy';
+import {
+  getEndorsementsForOwner,
+  hasEndorsed,
+  recordEndorsement,
+  verifyEndorsementRequest,
+} from '@/lib/endorsements';
+import { LinkedTrustClient, claimUri, isLinkedTrustError } from '@/lib/linkedtrust-client';
+import { displayNameFor } from '@/lib/public-portfolio';
+import { consumeRateLimit } from '@/lib/rate-limit';
+import { getRequestAuth } from '@/lib/session';
+import { getProfile } from '@/lib/usernames';
+
+// Endorsements one person may write per day, to keep request links from being used for spam
+const ENDORSE_LIMIT = 20;
+const ENDORSE_WINDOW_MS = 24 * 60 * 60_000;
+
+// Endorsements of the signed-in user's achievements, keyed by claim id
+export async function GET() {
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (!issuerId) {
+    return NextResponse.json({ error: 'Not signed in to LinkedTrust' }, { status: 401 });
+  }
+
+  return NextResponse.json({ endorsements: await getEndorsementsForOwner(issuerId) });
+}
+
+/**
+ * Endorse an achievement from a request link. The endorsement is a new
+ * LinkedClaim issued by the signed-in user, with the endorsed claim as its
+ * subject.
+ */
+export async function POST(request: Request) {
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (!auth?.token || !issuerId) {
+    return NextResponse.json({ error: 'Sign in with a LinkedTrust account to endorse' }, { status: 401 });
+  }
+
+  let body: { token?: unknown; statement?: unknown; stars?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { token, statement, stars } = body;
+  if (typeof token !== 'string' || typeof statement !== 'string' || typeof stars !== 'number') {
+    return NextResponse.json({ error: 'Token, statement and rating are required' }, { status: 400 });
+  }
+
+  const problem = validateEndorsement(statement, stars);
+  if (problem) {
+    return NextResponse.json({ error: problem }, { status: 400 });
+  }
+
+  const endorsementRequest = verifyEndorsementRequest(token);
+  if (!endorsementRequest) {
+    return NextResponse.json({ error: 'This endorsement link is invalid or has expired. Ask for a new one.' }, { status: 400 });
+  }
+  const { ownerIssuerId } = endorsementRequest;
+  // The link names the claim it was made for; endorse the achievement's latest version
+  const claimId = await getCurrentClaimId(endorsementRequest.claimId);
+  if (String(issuerId) === ownerIssuerId) {
+    return NextResponse.json({ error: "You can't endorse your own achievement" }, { status: 400 });
+  }
+  if (await isClaimTrashed(claimId)) {
+    return NextResponse.json({ error: 'This achievement no longer exists.' }, { status: 404 });
+  }
+  if (await hasEndorsed(claimId, issuerId)) {
+    return NextResponse.json({ error: 'You have already endorsed this achievement' }, { status: 409 });
+  }
+
+  const limit = await consumeRateLimit(`endorse:${issuerId}`, ENDORSE_LIMIT, ENDORSE_WINDOW_MS);
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: 'You have written a lot of endorsements today. Please try again tomorrow.' },
+      { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+    );
+  }
+
+  const client = new LinkedTrustClient({ token: auth.token });
+  let endorsement: Endorsement;
+  try {
+    const original = await client.getClaim(claimId);
+    const created = await client.createClaim({
+      subject: claimUri(claimId),
+      claim: ENDORSEMENT_CLAIM,
+      statement: statement.trim(),
+      effectiveDate: new Date().toISOString().split('T')[0],
+      howKnown: 'FIRST_HAND',
+      stars,
+      aspect: original.aspect,
+    });
+
+    // Shown publicly, so never fall back to the endorser's email
+    const profile = await getProfile(issuerId);
+    endorsement = {
+      id: created.id,
+      claimId,
+      endorserName: profile ? displayNameFor(profile) : auth.user.name || 'A LinkedTrust member',
+      ...(profile && { endorserUsername: profile.username }),
+      statement: statement.trim(),
+      stars,
+      createdAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    if (isLinkedTrustError(error) && error.code === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'This achievement no longer exists.' }, { status: 404 });
+    }
+    console.error('Failed to create endorsement:', error);
+    return NextResponse.json({ error: 'Could not save your endorsement on LinkedTrust' }, { status: 502 });
+  }
+
+  await recordEndorsement(endorsement, ownerIssuerId, issuerId);
+  return NextResponse.json({ endorsement });
+}
@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET } from '@/app/api/evidence/[evidenceId]/file/route';
+import { readEvidenceFile } from '@/lib/claim-evidence';
+import { isClaimTrashed } from '@/lib/claim-trash';
+import { isClaimPublic, resolveShareToken } from '@/lib/claim-visibility';
+import { Evidence } from '@/lib/evidence';
+import { RequestAuth, getRequestAuth } from '@/lib/session';
+
+vi.mock('@/lib/claim-evidence', () => ({ readEvidenceFile: vi.fn() }));
+vi.mock('@/lib/claim-trash', () => ({ isClaimTrashed: vi.fn() }));
+vi.mock('@/lib/claim-visibility', () => ({ isClaimPublic: vi.fn(), resolveShareToken: vi.fn() }));
+vi.mock('@/lib/session', () => ({ getRequestAuth: vi.fn() }));
+
+const evidence: Evidence = {
+  id: 'abc',
+  kind: 'file',
+  name: 'Zertifikat für Café "2024".pdf',
+  url: '/api/evidence/abc/file',
+  contentType: 'application/pdf',
+  sha256: 'f'.repeat(64),
+  claimId: 10,
+  createdAt: '2024-01-01T00:00:00.000Z',
+};
+
+const owner: RequestAuth = {
+  user: { id: 1, email: 'owner@example.com' },
+  token: 'token',
+  authMethod: 'password',
+  sessionId: 'session',
+};
+
+function get(query = ''): Promise<Response> {
+  return GET(new Request(`http://localhost/api/evidence/abc/file${query}`), { params: Promise.resolve({ evidenceId: 'abc' }) });
+}
+
+beforeEach(() => {
+  vi.mocked(readEvidenceFile).mockResolvedValue({ evidence, data: Buffer.from('%PDF-1.7'), ownerIssuerId: '1' });
+  vi.mocked(isClaimPublic).mockResolvedValue(true);
+  vi.mocked(isClaimTrashed).mockResolvedValue(false);
+  vi.mocked(getRequestAuth).mockResolvedValue(null);
+  vi.mocked(resolveShareToken).mockResolvedValue(null);
+});
+
+describe('GET /api/evidence/[evidenceId]/file', () => {
+  it('serves evidence of public achievements to anyone, with a UTF-8 file name', async () => {
+    const response = await get();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('public, max-age=300');
+    expect(response.headers.get('Content-Disposition')).toBe(
+      `inline; filename="Zertifikat f_r Caf_ _2024_.pdf"; filename*=UTF-8''Zertifikat%20f%C3%BCr%20Caf%C3%A9%20%222024%22.pdf`
+    );
+  });
+
+  it('hides evidence of private and trashed achievements from others', async () => {
+    vi.mocked(isClaimPublic).mockResolvedValue(false);
+    expect((await get()).status).toBe(404);
+
+    vi.mocked(isClaimPublic).mockResolvedValue(true);
+    vi.mocked(isClaimTrashed).mockResolvedValue(true);
+    expect((await get()).status).toBe(404);
+  });
+
+  it('hides unattached evidence from others', async () => {
+    vi.mocked(readEvidenceFile).mockResolvedValue({
+      evidence: { ...evidence, claimId: undefined },
+      data: Buffer.from('%PDF-1.7'),
+      ownerIssuerId: '1',
+    });
+    expect((await get()).status).toBe(404);
+  });
+
+  it('serves hidden evidence to its owner without shared caching', async () => {
+    vi.mocked(isClaimPublic).mockResolvedValue(false);
+    vi.mocked(getRequestAuth).mockResolvedValue(owner);
+
+    const response = await get();
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('private, no-cache');
+  });
+
+  it('serves evidence of a link-only achievement to holders of its share link', async () => {
+    vi.mocked(isClaimPublic).mockResolvedValue(false);
+    vi.mocked(resolveShareToken).mockImplementation(async token => (token === 'share-token' ? { claimId: 10, issuerId: '1' } : null));
+
+    const response = await get('?share=share-token');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('private, no-cache');
+
+    expect((await get('?share=other-token')).status).toBe(404);
+  });
+});
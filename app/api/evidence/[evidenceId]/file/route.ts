@@ -0,0 +1,72 @@
+import { readEvidenceFile } from '@/lib/claim-evidence';
+import { isClaimTrashed } from '@/lib/claim-trash';
+import { isClaimPublic, resolveShareToken } from '@/lib/claim-visibility';
+import { Evidence } from '@/lib/evidence';
+import { getRequestAuth } from '@/lib/session';
+
+type RouteContext = { params: Promise<{ evidenceId: string }> };
+
+// Public evidence can be cached briefly; the ETag makes revalidating cheap
+const PUBLIC_CACHE = 'public, max-age=300';
+// Owners and share-link holders must not get each other's copies from a shared cache
+const PRIVATE_CACHE = 'private, no-cache';
+
+// Who may open it: anyone for a public, untrashed achievement, the uploader for everything else
+async function isVisibleToEveryone(evidence: Evidence): Promise<boolean> {
+  if (evidence.claimId === undefined) return false;
+  const [isPublic, isTrashed] = await Promise.all([isClaimPublic(evidence.claimId), isClaimTrashed(evidence.claimId)]);
+  return isPublic && !isTrashed;
+}
+
+// Holders of a link-only achievement's share link (?share=, from /s/[token]) may open its evidence too
+async function isSharedWith(evidence: Evidence, shareToken: string | null): Promise<boolean> {
+  if (!shareToken || evidence.claimId === undefined) return false;
+  const shared = await resolveShareToken(shareToken);
+  return shared?.claimId === evidence.claimId && !(await isClaimTrashed(evidence.claimId));
+}
+
+// ASCII fallback plus the exact name (RFC 5987); headers must be Latin-1, so names can't go in as they are
+function contentDisposition(name: string): string {
+  const fallback = name.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  const encoded = encodeURIComponent(name).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `inline; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * Serve an uploaded evidence file. Evidence of public achievements is open
+ * to anyone with the (unguessable) URL, and evidence of a link-only
+ * achievement to anyone with its share link; unattached evidence and
+ * evidence of private or trashed achievements only to the uploader. Others
+ * get a 404, as for an unknown id.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const file = await readEvidenceFile((await params).evidenceId);
+  if (!file) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const { evidence, data, ownerIssuerId } = file;
+  let cacheControl = PUBLIC_CACHE;
+  if (!(await isVisibleToEveryone(evidence))) {
+    cacheControl = PRIVATE_CACHE;
+    if (!(await isSharedWith(evidence, new URL(request.url).searchParams.get('share')))) {
+      const auth = await getRequestAuth();
+      const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+      if (!issuerId || String(issuerId) !== ownerIssuerId) {
+        return new Response('Not found', { status: 404 });
+      }
+    }
+  }
+
+  return new Response(new Uint8Array(data), {
+    headers: {
+      'Content-Type': evidence.contentType || 'application/octet-stream',
+      'Content-Disposition': contentDisposition(evidence.name),
+      'Content-Length': String(data.length),
+      'Cache-Control': cacheControl,
+      // Stored types were checked on upload; never let the browser guess another
+      'X-Content-Type-Options': 'nosniff',
+      'ETag': `"${evidence.sha256}"`,
+    },
+  });
+}
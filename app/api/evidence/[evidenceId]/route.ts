@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { EvidenceError, removeEvidence } from '@/lib/claim-evidence';
+import { getRequestAuth } from '@/lib/session';
+
+type RouteContext = { params: Promise<{ evidenceId: string }> };
+
+// Remove evidence the signed-in user added but hasn't attached to a claim
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (!issuerId) {
+    return NextResponse.json({ error: 'Not signed in to LinkedTrust' }, { status: 401 });
+  }
+
+  try {
+    await removeEvidence((await params).evidenceId, issuerId);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof EvidenceError) {
+      return NextResponse.json({ error: error.message }, { status: error.code === 'NOT_FOUND' ? 404 : 403 });
+    }
+    throw error;
+  }
+}
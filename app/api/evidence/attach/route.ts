@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { EvidenceError, attachEvidenceToClaim } from '@/lib/claim-evidence';
+import { isOwnClaim } from '@/lib/claim-visibility';
+import { LinkedTrustClient, isLinkedTrustError } from '@/lib/linkedtrust-client';
+import { getRequestAuth } from '@/lib/session';
+
+/**
+ * Attach uploaded evidence to one of the signed-in user's backend claims,
+ * after LinkedTrust has created it. Ownership is checked against LinkedTrust.
+ */
+export async function POST(request: Request) {
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (!auth?.token || !issuerId) {
+    return NextResponse.json({ error: 'Not signed in to LinkedTrust' }, { status: 401 });
+  }
+
+  let body: { claimId?: unknown; evidenceIds?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const claimId = Number(body.claimId);
+  if (!Number.isInteger(claimId) || claimId <= 0) {
+    return NextResponse.json({ error: 'Invalid claim id' }, { status: 400 });
+  }
+  const { evidenceIds } = body;
+  if (!Array.isArray(evidenceIds) || !evidenceIds.every(id => typeof id === 'string')) {
+    return NextResponse.json({ error: 'evidenceIds must be a list of evidence ids' }, { status: 400 });
+  }
+
+  try {
+    const claim = await new LinkedTrustClient({ token: auth.token }).getClaim(claimId);
+    if (!isOwnClaim(claim, issuerId)) {
+      return NextResponse.json({ error: 'You can only add evidence to your own achievements' }, { status: 403 });
+    }
+  } catch (error) {
+    if (isLinkedTrustError(error) && error.code === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'Achievement not found' }, { status: 404 });
+    }
+    console.error('Failed to verify claim ownership:', error);
+    return NextResponse.json({ error: 'Could not reach LinkedTrust' }, { status: 502 });
+  }
+
+  try {
+    return NextResponse.json({ evidence: await attachEvidenceToClaim(claimId, issuerId, evidenceIds) });
+  } catch (error) {
+    if (error instanceof EvidenceError) {
+      const status = error.code === 'NOT_FOUND' ? 404 : error.code === 'FORBIDDEN' ? 403 : 400;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/evidence/route';
+import { saveEvidenceFile } from '@/lib/claim-evidence';
+import { RequestAuth, getRequestAuth } from '@/lib/session';
+
+vi.mock('@/lib/claim-evidence', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/claim-evidence')>()),
+  saveEvidenceFile: vi.fn(),
+}));
+vi.mock('@/lib/evidence', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/evidence')>()),
+  EVIDENCE_MAX_FILE_BYTES: 1024,
+}));
+vi.mock('@/lib/rate-limit', () => ({ consumeRateLimit: async () => ({ allowed: true, retryAfterSeconds: 0 }) }));
+vi.mock('@/lib/session', () => ({ getRequestAuth: vi.fn() }));
+
+const owner: RequestAuth = {
+  user: { id: 1, email: 'owner@example.com' },
+  token: 'token',
+  authMethod: 'password',
+  sessionId: 'session',
+};
+
+const BOUNDARY = 'evidence-boundary';
+
+function multipart(data: Uint8Array): Uint8Array {
+  const head = `--${BOUNDARY}\r\nContent-Disposition: form-data; name="file"; filename="proof.pdf"\r\nContent-Type: application/pdf\r\n\r\n`;
+  return new Uint8Array([...Buffer.from(head), ...data, ...Buffer.from(`\r\n--${BOUNDARY}--\r\n`)]);
+}
+
+// Sent in chunks without a Content-Length, as a chunked request would be
+function upload(body: Uint8Array): Promise<Response> {
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let offset = 0; offset < body.length; offset += 16 * 1024) {
+        controller.enqueue(body.subarray(offset, offset + 16 * 1024));
+      }
+      controller.close();
+    },
+  });
+  return POST(
+    new Request('http://localhost/api/evidence', {
+      method: 'POST',
+      headers: { 'Content-Type': `multipart/form-data; boundary=${BOUNDARY}` },
+      body: stream,
+      duplex: 'half',
+    } as RequestInit)
+  );
+}
+
+beforeEach(() => {
+  vi.mocked(getRequestAuth).mockResolvedValue(owner);
+  vi.mocked(saveEvidenceFile).mockReset().mockImplementation(async (_owner, file) => ({
+    id: 'abc',
+    kind: 'file',
+    name: file.name,
+    url: '/api/evidence/abc/file',
+    sha256: 'f'.repeat(64),
+    createdAt: '2024-01-01T00:00:00.000Z',
+  }));
+});
+
+describe('POST /api/evidence', () => {
+  it('saves an upload that stays within the limit', async () => {
+    const response = await upload(multipart(Buffer.from('%PDF-1.7')));
+
+    expect(response.status).toBe(200);
+    expect(vi.mocked(saveEvidenceFile).mock.calls[0][1].data.toString()).toBe('%PDF-1.7');
+  });
+
+  it('stops reading an upload without a Content-Length once it is too large', async () => {
+    const response = await upload(multipart(new Uint8Array(200 * 1024)));
+
+    expect(response.status).toBe(413);
+    expect(saveEvidenceFile).not.toHaveBeenCalled();
+  });
+});
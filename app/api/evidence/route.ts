@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server';
+import { EvidenceError, getEvidenceForOwner, saveEvidenceFile, saveEvidenceLink } from '@/lib/claim-evidence';
+import { EVIDENCE_MAX_FILE_BYTES, validateEvidenceFile, validateEvidenceLink } from '@/lib/evidence';
+import { consumeRateLimit } from '@/lib/rate-limit';
+import { getRequestAuth } from '@/lib/session';
+
+// Uploads and links one person may add per day
+const UPLOAD_LIMIT = 50;
+const UPLOAD_WINDOW_MS = 24 * 60 * 60_000;
+
+// Largest multipart body accepted: the file plus room for the form's boundary and part headers
+const MAX_UPLOAD_BODY_BYTES = EVIDENCE_MAX_FILE_BYTES + 64 * 1024;
+
+// The body, counted as it arrives rather than trusting Content-Length; null once it passes maxBytes
+async function readBodyWithin(request: Request, maxBytes: number): Promise<Buffer | null> {
+  if (!request.body) return Buffer.alloc(0);
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return Buffer.concat(chunks);
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+}
+
+// Evidence attached to the signed-in user's achievements, keyed by claim id
+export async function GET() {
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (!issuerId) {
+    return NextResponse.json({ error: 'Not signed in to LinkedTrust' }, { status: 401 });
+  }
+
+  return NextResponse.json({ evidence: await getEvidenceForOwner(issuerId) });
+}
+
+/**
+ * Add evidence before the claim it belongs to is created: a file as
+ * multipart form data (field "file"), or a link as JSON { url }.
+ * Returns the evidence with its hash; attach it with /api/evidence/attach.
+ */
+export async function POST(request: Request) {
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (!issuerId) {
+    return NextResponse.json({ error: 'Not signed in to LinkedTrust' }, { status: 401 });
+  }
+
+  const limit = await consumeRateLimit(`evidence:${issuerId}`, UPLOAD_LIMIT, UPLOAD_WINDOW_MS);
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: 'You have added a lot of evidence today. Please try again tomorrow.' },
+      { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+    );
+  }
+
+  try {
+    const contentType = request.headers.get('content-type') || '';
+    if (contentType.startsWith('multipart/form-data')) {
+      // Reject uploads that say they are too large before reading them, and the rest once they turn out to be
+      const body = Number(request.headers.get('content-length')) > MAX_UPLOAD_BODY_BYTES
+        ? null
+        : await readBodyWithin(request, MAX_UPLOAD_BODY_BYTES);
+      if (!body) {
+        return NextResponse.json({ error: 'Evidence file is too large' }, { status: 413 });
+      }
+
+      let form: FormData;
+      try {
+        form = await new Response(new Uint8Array(body), { headers: { 'Content-Type': contentType } }).formData();
+      } catch {
+        return NextResponse.json({ error: 'Invalid form data' }, { status: 400 });
+      }
+      const file = form.get('file');
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
+      }
+      const problem = validateEvidenceFile(file);
+      if (problem) {
+        return NextResponse.json({ error: problem }, { status: 400 });
+      }
+
+      const evidence = await saveEvidenceFile(issuerId, { name: file.name, data: Buffer.from(await file.arrayBuffer()) });
+      return NextResponse.json(evidence);
+    }
+
+    let body: { url?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    const problem = typeof body.url === 'string' ? validateEvidenceLink(body.url) : 'A link is required';
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+
+    return NextResponse.json(await saveEvidenceLink(issuerId, body.url as string));
+  } catch (error) {
+    if (error instanceof EvidenceError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/generate-description/route';
+import { RequestAuth, getRequestAuth } from '@/lib/session';
+
+const stores = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('@/lib/json-store', () => ({
+  readStore: async (name: string, fallback: unknown) => structuredClone(stores.get(name) ?? fallback),
+  updateStore: async (name: string, fallback: unknown, mutate: (store: unknown) => unknown) => {
+    const store = structuredClone(stores.get(name) ?? fallback);
+    await mutate(store);
+    stores.set(name, store);
+    return store;
+  },
+}));
+
+vi.mock('@/lib/session', () => ({ getRequestAuth: vi.fn() }));
+
+const signedIn: RequestAuth = {
+  user: { id: 1, email: 'student@example.com' },
+  token: null,
+  authMethod: 'password',
+  sessionId: 'session',
+};
+
+function post(body: unknown): Request {
+  return new Request('http://localhost/api/generate-description', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+beforeEach(() => {
+  stores.clear();
+  vi.mocked(getRequestAuth).mockResolvedValue(signedIn);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('POST /api/generate-description', () => {
+  it('falls back to the stub provider when no API key is set', async () => {
+    vi.stubEnv('AI_PROVIDER', '');
+    vi.stubEnv('ANTHROPIC_API_KEY', '');
+
+    const response = await POST(post({ category: 'Skill', keywords: 'Python, pandas' }));
+    expect(response.status).toBe(200);
+    const { description } = await response.json();
+    expect(description).toBe(
+      'Completed a skill focused on Python and pandas, applying each in hands-on work and documenting the results.'
+    );
+  });
+
+  it('defaults the category to project', async () => {
+    vi.stubEnv('AI_PROVIDER', 'stub');
+
+    const response = await POST(post({ keywords: 'robotics' }));
+    expect((await response.json()).description).toContain('Completed a project');
+  });
+
+  it('rejects missing and overlong keywords', async () => {
+    expect((await POST(post({ category: 'project' }))).status).toBe(400);
+    expect((await POST(post({ keywords: 'x'.repeat(301) }))).status).toBe(400);
+  });
+
+  it('rejects a body that is not JSON', async () => {
+    expect((await POST(post('not json'))).status).toBe(400);
+  });
+
+  it('reports a misconfigured provider as a 502', async () => {
+    vi.stubEnv('AI_PROVIDER', 'anthropic');
+    vi.stubEnv('ANTHROPIC_API_KEY', '');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect((await POST(post({ keywords: 'robotics' }))).status).toBe(502);
+  });
+
+  it('refuses anonymous callers', async () => {
+    vi.mocked(getRequestAuth).mockResolvedValue(null);
+    vi.stubEnv('AI_PROVIDER', 'stub');
+
+    expect((await POST(post({ keywords: 'robotics' }))).status).toBe(401);
+  });
+
+  it('limits how many descriptions one user can generate', async () => {
+    vi.stubEnv('AI_PROVIDER', 'stub');
+
+    for (let i = 0; i < 30; i++) {
+      expect((await POST(post({ keywords: 'robotics' }))).status).toBe(200);
+    }
+    const limited = await POST(post({ keywords: 'robotics' }));
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBeTruthy();
+  });
+});
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { generateDescription } from '@/lib/ai-providers';
+import { consumeRateLimit } from '@/lib/rate-limit';
+import { getRequestAuth } from '@/lib/session';
+
+const MAX_KEYWORDS_LENGTH = 300;
+
+// Descriptions one person may generate per hour; each one can cost provider credits
+const GENERATE_LIMIT = 30;
+const GENERATE_WINDOW_MS = 60 * 60_000;
+
+/**
+ * Generate an achievement description from keywords. Signed-in users only,
+ * and rate limited per user, so the configured AI provider can't be used
+ * anonymously.
+ */
+export async function POST(request: Request) {
+  const auth = await getRequestAuth();
+  if (!auth) {
+    return NextResponse.json({ error: 'Sign in to generate descriptions' }, { status: 401 });
+  }
+
+  let body: { category?: unknown; keywords?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const category = typeof body.category === 'string' && body.category.trim()
+    ? body.category.trim().toLowerCase()
+    : 'project';
+  const keywords = typeof body.keywords === 'string' ? body.keywords.trim() : '';
+
+  if (!keywords) {
+    return NextResponse.json({ error: 'Keywords are required' }, { status: 400 });
+  }
+
+  if (keywords.length > MAX_KEYWORDS_LENGTH) {
+    return NextResponse.json(
+      { error: `Keywords must be ${MAX_KEYWORDS_LENGTH} characters or fewer` },
+      { status: 400 }
+    );
+  }
+
+  const limit = await consumeRateLimit(
+    `generate-description:${auth.user.issuerId || auth.user.id}`,
+    GENERATE_LIMIT,
+    GENERATE_WINDOW_MS
+  );
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: 'You have generated a lot of descriptions this hour. Please try again later.' },
+      { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+    );
+  }
+
+  try {
+    const description = await generateDescription({ category, keywords });
+    return NextResponse.json({ description });
+  } catch (error) {
+    console.error('Error generating description:', error);
+    return NextResponse.json({ error: 'Failed to generate description' }, { status: 502 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { API_BASE_URL } from '@/lib/linkedtrust-client';
+import { getRequestAuth, refreshRequestAuth } from '@/lib/session';
+
+/**
+ * Same-origin proxy for the LinkedTrust claims API.
+ *
+ * The browser's LinkedTrustClient points here (see createSessionClient) and
+ * the session's backend token is attached server-side, so it never has to be
+ * readable by page scripts. Only claim endpoints are forwarded.
+ *
+ * A 401 from the backend triggers one token refresh and retry. If the session
+ * can't be renewed the response is 401 with code SESSION_EXPIRED, which the
+ * browser answers by sending the user back to sign in.
+ */
+
+const ALLOWED_PREFIXES = ['api/claim', 'api/claims', 'api/v1/claims'];
+
+function sessionExpired() {
+  return NextResponse.json(
+    { error: 'Your session has expired. Please sign in again.', code: 'SESSION_EXPIRED' },
+    { status: 401 }
+  );
+}
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+async function forward(request: Request, { params }: RouteContext) {
+  const { path } = await params;
+  const target = path.map(encodeURIComponent).join('/');
+
+  if (!ALLOWED_PREFIXES.some(prefix => target === prefix || target.startsWith(`${prefix}/`))) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  let auth = await getRequestAuth();
+  if (request.method !== 'GET' && !auth?.token) {
+    return sessionExpired();
+  }
+
+  const url = `${API_BASE_URL}/${target}${new URL(request.url).search}`;
+  const body = request.method === 'GET' || request.method === 'DELETE' ? undefined : await request.text();
+  const send = (token: string | null | undefined) => fetch(url, {
+    method: request.method,
+    headers: {
+      'Content-Type': request.headers.get('content-type') || 'application/json',
+      ...(token && { 'Authorization': `Bearer ${token}` }),
+    },
+    body,
+    cache: 'no-store',
+  });
+
+  let response: Response;
+  try {
+    response = await send(auth?.token);
+
+    if (response.status === 401 && auth?.token) {
+      auth = await refreshRequestAuth(auth);
+      if (!auth?.token) return sessionExpired();
+      response = await send(auth.token);
+      if (response.status === 401) return sessionExpired();
+    }
+  } catch (error) {
+    console.error('LinkedTrust proxy request failed:', error);
+    return NextResponse.json({ error: 'Could not reach LinkedTrust' }, { status: 502 });
+  }
+
+  return new NextResponse(response.status === 204 ? null : await response.text(), {
+    status: response.status,
+    headers: { 'Content-Type': response.headers.get('content-type') || 'application/json' },
+  });
+}
+
+export { forward as GET, forward as POST, forward as PUT, forward as DELETE };
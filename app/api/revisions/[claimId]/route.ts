@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { getClaimVersions } from '@/lib/claim-revisions';
+import { isOwnClaim } from '@/lib/claim-visibility';
+import { LinkedTrustClient, isLinkedTrustError } from '@/lib/linkedtrust-client';
+import { displayNameFor } from '@/lib/public-portfolio';
+import { getRequestAuth } from '@/lib/session';
+import { getProfile } from '@/lib/usernames';
+
+type RouteContext = { params: Promise<{ claimId: string }> };
+
+/**
+ * Version history of one of the signed-in user's backend achievements,
+ * newest first. Any version's claim id can be given.
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (!auth?.token || !issuerId) {
+    return NextResponse.json({ error: 'Not signed in to LinkedTrust' }, { status: 401 });
+  }
+
+  const claimId = Number((await params).claimId);
+  if (!Number.isInteger(claimId) || claimId <= 0) {
+    return NextResponse.json({ error: 'Invalid claim id' }, { status: 400 });
+  }
+
+  const profile = await getProfile(issuerId);
+  const ownerName = profile ? displayNameFor(profile) : auth.user.name || 'Owner';
+
+  try {
+    const client = new LinkedTrustClient({ token: auth.token });
+    if (!isOwnClaim(await client.getClaim(claimId), issuerId)) {
+      return NextResponse.json({ error: 'You can only see the history of your own achievements' }, { status: 403 });
+    }
+    return NextResponse.json({ versions: await getClaimVersions(client, claimId, ownerName) });
+  } catch (error) {
+    if (isLinkedTrustError(error) && error.code === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'Achievement not found' }, { status: 404 });
+    }
+    console.error('Failed to load claim versions:', error);
+    return NextResponse.json({ error: 'Could not reach LinkedTrust' }, { status: 502 });
+  }
+}
@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server';
+import { RevisionError, getSupersededClaims, getVersionClaimIds, reviseClaim } from '@/lib/claim-revisions';
+import { isClaimTrashed } from '@/lib/claim-trash';
+import { LinkedTrustClient, isLinkedTrustError } from '@/lib/linkedtrust-client';
+import { displayNameFor } from '@/lib/public-portfolio';
+import { ClaimRevision, REVISABLE_FIELDS, revisionOf, validateRevision } from '@/lib/revisions';
+import { getRequestAuth } from '@/lib/session';
+import { getProfile } from '@/lib/usernames';
+
+// The signed-in user's superseded claims, mapped to the claim that now stands for each
+export async function GET() {
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (!issuerId) {
+    return NextResponse.json({ error: 'Not signed in to LinkedTrust' }, { status: 401 });
+  }
+
+  return NextResponse.json({ superseded: await getSupersededClaims(issuerId) });
+}
+
+function isRevision(value: unknown): value is ClaimRevision {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Edit one of the signed-in user's backend claims by superseding it.
+ * `expected` holds the fields the editor started from; if the claim changed
+ * since, nothing is written and the current fields come back with a 409.
+ * `restoredFrom` marks the edit as restoring an earlier version's claim.
+ */
+export async function POST(request: Request) {
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (!auth?.token || !issuerId) {
+    return NextResponse.json({ error: 'Not signed in to LinkedTrust' }, { status: 401 });
+  }
+
+  let body: { claimId?: unknown; changes?: unknown; expected?: unknown; restoredFrom?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const claimId = Number(body.claimId);
+  if (!Number.isInteger(claimId) || claimId <= 0) {
+    return NextResponse.json({ error: 'Invalid claim id' }, { status: 400 });
+  }
+  if (!isRevision(body.changes) || (body.expected !== undefined && !isRevision(body.expected))) {
+    return NextResponse.json({ error: 'changes and expected must be objects' }, { status: 400 });
+  }
+  // Only the editable fields are taken; subject, issuer and howKnown stay as they were
+  const changes = revisionOf(body.changes);
+  if (!REVISABLE_FIELDS.some(field => changes[field] !== undefined)) {
+    return NextResponse.json({ error: 'Nothing to change' }, { status: 400 });
+  }
+  const problem = validateRevision(changes);
+  if (problem) {
+    return NextResponse.json({ error: problem }, { status: 400 });
+  }
+  const restoredFrom = body.restoredFrom === undefined ? undefined : Number(body.restoredFrom);
+  if (restoredFrom !== undefined
+    && (restoredFrom === claimId || !(await getVersionClaimIds(claimId)).includes(restoredFrom))) {
+    return NextResponse.json({ error: 'Only an earlier version of this achievement can be restored' }, { status: 400 });
+  }
+
+  if (await isClaimTrashed(claimId)) {
+    return NextResponse.json({ error: 'Restore this achievement from the trash before editing it' }, { status: 400 });
+  }
+
+  const profile = await getProfile(issuerId);
+  const authorName = profile ? displayNameFor(profile) : auth.user.name || 'Owner';
+
+  try {
+    const client = new LinkedTrustClient({ token: auth.token });
+    const expected = body.expected === undefined ? undefined : revisionOf(body.expected);
+    const claim = await reviseClaim(client, claimId, issuerId, changes, { expected, authorName, restoredFrom });
+    return NextResponse.json({ claim });
+  } catch (error) {
+    if (error instanceof RevisionError) {
+      return error.conflict
+        ? NextResponse.json(error.conflict, { status: 409 })
+        : NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (isLinkedTrustError(error) && error.code === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'Achievement not found' }, { status: 404 });
+    }
+    if (isLinkedTrustError(error) && error.code === 'VALIDATION') {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Failed to revise claim:', error);
+    return NextResponse.json({ error: 'Could not reach LinkedTrust' }, { status: 502 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { restoreClaims } from '@/lib/claim-trash';
+import { getRequestAuth } from '@/lib/session';
+import { TRASH_BATCH_LIMIT, isClaimIdList } from '@/lib/trash';
+
+// Take claims out of the signed-in user's trash (only the user's own are touched)
+export async function POST(request: Request) {
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (!issuerId) {
+    return NextResponse.json({ error: 'Not signed in to LinkedTrust' }, { status: 401 });
+  }
+
+  let body: { claimIds?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (!isClaimIdList(body.claimIds)) {
+    return NextResponse.json({ error: `claimIds must list 1-${TRASH_BATCH_LIMIT} claim ids` }, { status: 400 });
+  }
+
+  await restoreClaims(body.claimIds, issuerId);
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { getTrashForIssuer, purgeClaims, purgeExpiredTrash, trashClaims } from '@/lib/claim-trash';
+import { isOwnClaim } from '@/lib/claim-visibility';
+import { LinkedTrustClient, isLinkedTrustError } from '@/lib/linkedtrust-client';
+import { getRequestAuth } from '@/lib/session';
+import { TRASH_BATCH_LIMIT, isClaimIdList } from '@/lib/trash';
+
+async function readClaimIds(request: Request): Promise<number[] | NextResponse> {
+  let body: { claimIds?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (!isClaimIdList(body.claimIds)) {
+    return NextResponse.json({ error: `claimIds must list 1-${TRASH_BATCH_LIMIT} claim ids` }, { status: 400 });
+  }
+  return body.claimIds;
+}
+
+/**
+ * The signed-in user's trash: when each trashed claim was deleted, keyed by
+ * claim id. Claims past the retention window are deleted for good first.
+ */
+export async function GET() {
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (!auth?.token || !issuerId) {
+    return NextResponse.json({ error: 'Not signed in to LinkedTrust' }, { status: 401 });
+  }
+
+  try {
+    await purgeExpiredTrash(new LinkedTrustClient({ token: auth.token }), issuerId);
+  } catch (error) {
+    // Still hidden everywhere; the next visit tries again
+    console.error('Failed to purge expired trash:', error);
+  }
+  return NextResponse.json({ trash: await getTrashForIssuer(issuerId) });
+}
+
+/**
+ * Move some of the signed-in user's backend claims to the trash.
+ * Ownership is checked against LinkedTrust before anything is recorded.
+ */
+export async function POST(request: Request) {
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (!auth?.token || !issuerId) {
+    return NextResponse.json({ error: 'Not signed in to LinkedTrust' }, { status: 401 });
+  }
+
+  const claimIds = await readClaimIds(request);
+  if (claimIds instanceof NextResponse) return claimIds;
+
+  try {
+    const client = new LinkedTrustClient({ token: auth.token });
+    const claims = await Promise.all(claimIds.map(claimId => client.getClaim(claimId)));
+    if (!claims.every(claim => isOwnClaim(claim, issuerId))) {
+      return NextResponse.json({ error: 'You can only delete your own achievements' }, { status: 403 });
+    }
+  } catch (error) {
+    if (isLinkedTrustError(error) && error.code === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'Achievement not found' }, { status: 404 });
+    }
+    console.error('Failed to verify claim ownership:', error);
+    return NextResponse.json({ error: 'Could not reach LinkedTrust' }, { status: 502 });
+  }
+
+  await trashClaims(claimIds, issuerId);
+  return NextResponse.json({ ok: true });
+}
+
+/**
+ * Permanently delete claims from the signed-in user's trash, with every
+ * earlier version of each, from LinkedTrust.
+ */
+export async function DELETE(request: Request) {
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (!auth?.token || !issuerId) {
+    return NextResponse.json({ error: 'Not signed in to LinkedTrust' }, { status: 401 });
+  }
+
+  const claimIds = await readClaimIds(request);
+  if (claimIds instanceof NextResponse) return claimIds;
+
+  try {
+    const purged = await purgeClaims(new LinkedTrustClient({ token: auth.token }), claimIds, issuerId);
+    return NextResponse.json({ ok: true, purged });
+  } catch (error) {
+    if (isLinkedTrustError(error) && error.code === 'FORBIDDEN') {
+      return NextResponse.json({ error: 'You can only delete your own achievements' }, { status: 403 });
+    }
+    console.error('Failed to delete claims from LinkedTrust:', error);
+    return NextResponse.json({ error: 'Could not reach LinkedTrust' }, { status: 502 });
+  }
+}
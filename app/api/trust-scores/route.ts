@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getTrustScores } from '@/lib/claim-graph';
+import { getEndorsementsForOwner } from '@/lib/endorsements';
+import { getRequestAuth } from '@/lib/session';
+import { getValidationsForOwner } from '@/lib/validations';
+
+/**
+ * Trust scores of the signed-in user's achievements that have endorsements
+ * or validations, keyed by claim id. Achievements without any score as
+ * computeTrustScore(NO_TRUST_EVIDENCE).
+ */
+export async function GET() {
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (!issuerId) {
+    return NextResponse.json({ error: 'Not signed in to LinkedTrust' }, { status: 401 });
+  }
+
+  const [endorsements, validations] = await Promise.all([
+    getEndorsementsForOwner(issuerId),
+    getValidationsForOwner(issuerId),
+  ]);
+  const claimIds = [...new Set([...Object.keys(endorsements), ...Object.keys(validations)])].map(Number);
+
+  return NextResponse.json({ scores: await getTrustScores(claimIds, issuerId) });
+}
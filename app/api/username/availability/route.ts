@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { getRequestAuth } from '@/lib/session';
+import { checkUsernameAvailability } from '@/lib/usernames';
+
+// Is a username free? The signed-in user's own current and retired handles count as available.
+export async function GET(request: Request) {
+  const username = new URL(request.url).searchParams.get('username') || '';
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+
+  return NextResponse.json(await checkUsernameAvailability(username, issuerId));
+}
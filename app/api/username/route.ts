@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { consumeRateLimit } from '@/lib/rate-limit';
+import { getRequestAuth } from '@/lib/session';
+import { normalizeUsername, validateUsername } from '@/lib/username-policy';
+import { UsernameError, claimUsername } from '@/lib/usernames';
+
+// Handle changes allowed per user per day, so old handles can't be mass-reserved
+const CHANGE_LIMIT = 5;
+const CHANGE_WINDOW_MS = 24 * 60 * 60_000;
+
+/**
+ * Claim or change the signed-in user's public username.
+ * Only accounts on LinkedTrust have a public profile to name.
+ */
+export async function PUT(request: Request) {
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (!auth || !issuerId) {
+    return NextResponse.json({ error: 'Connect your account to LinkedTrust to claim a username' }, { status: 401 });
+  }
+
+  let body: { username?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (typeof body.username !== 'string') {
+    return NextResponse.json({ error: 'Username is required' }, { status: 400 });
+  }
+
+  // Rejecting malformed names first keeps typos from using up the change limit
+  const problem = validateUsername(normalizeUsername(body.username));
+  if (problem) {
+    return NextResponse.json({ error: problem }, { status: 400 });
+  }
+
+  const limit = await consumeRateLimit(`username-change:${issuerId}`, CHANGE_LIMIT, CHANGE_WINDOW_MS);
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: 'You have changed your username too often. Please try again tomorrow.' },
+      { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+    );
+  }
+
+  try {
+    const profile = await claimUsername(issuerId, body.username, auth.user.name);
+    return NextResponse.json({ username: profile.username });
+  } catch (error) {
+    if (error instanceof UsernameError) {
+      return NextResponse.json({ error: error.message }, { status: error.code === 'TAKEN' ? 409 : 400 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server';
+import { getCurrentClaimId } from '@/lib/claim-revisions';
+import { isClaimTrashed } from '@/lib/claim-trash';
+import { isOwnClaim } from '@/lib/claim-visibility';
+import { Claim, LinkedTrustClient, isLinkedTrustError } from '@/lib/linkedtrust-client';
+import { displayNameFor } from '@/lib/public-portfolio';
+import { getRequestAuth } from '@/lib/session';
+import { getProfile } from '@/lib/usernames';
+import { isValidationDecision, validateValidationResponse } from '@/lib/validation-policy';
+import { ValidationError, getValidationRequest, respondToValidation } from '@/lib/validations';
+
+const INVALID_LINK = 'This validation link is invalid or has expired.';
+
+/**
+ * Look up a validation link before showing the answer form: the
+ * achievement, whose it is, the role the validator was asked in and
+ * whether it has been answered.
+ */
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get('token') || '';
+  const validationRequest = await getValidationRequest(token);
+  if (!validationRequest) {
+    return NextResponse.json({ error: INVALID_LINK }, { status: 400 });
+  }
+  const { validation, ownerIssuerId } = validationRequest;
+  // The achievement may have been edited since the link was sent
+  const claimId = await getCurrentClaimId(validation.claimId);
+  if (await isClaimTrashed(claimId)) {
+    return NextResponse.json({ error: 'This achievement no longer exists.' }, { status: 404 });
+  }
+
+  let claim;
+  try {
+    claim = await new LinkedTrustClient().getClaim(claimId);
+  } catch (error) {
+    if (isLinkedTrustError(error) && error.code === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'This achievement no longer exists.' }, { status: 404 });
+    }
+    console.error('Failed to load claim for validation request:', error);
+    return NextResponse.json({ error: 'Could not reach LinkedTrust' }, { status: 502 });
+  }
+
+  const owner = await getProfile(ownerIssuerId);
+  return NextResponse.json({
+    claim: {
+      id: claim.id,
+      aspect: claim.aspect,
+      statement: claim.statement,
+      stars: claim.stars,
+      effectiveDate: claim.effectiveDate,
+    },
+    ownerName: owner ? displayNameFor(owner) : null,
+    role: validation.role,
+    status: validation.status,
+  });
+}
+
+// Confirm, reject or annotate from a validation link; no sign-in needed, but a signed-in validator's account is recorded
+export async function POST(request: Request) {
+  let body: { token?: unknown; decision?: unknown; validatorName?: unknown; note?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { token, decision } = body;
+  const validatorName = typeof body.validatorName === 'string' ? body.validatorName : '';
+  const note = typeof body.note === 'string' ? body.note : '';
+  if (typeof token !== 'string' || !isValidationDecision(decision)) {
+    return NextResponse.json({ error: 'Token and decision are required' }, { status: 400 });
+  }
+
+  const problem = validateValidationResponse(decision, validatorName, note);
+  if (problem) {
+    return NextResponse.json({ error: problem }, { status: 400 });
+  }
+
+  const validationRequest = await getValidationRequest(token);
+  if (!validationRequest) {
+    return NextResponse.json({ error: INVALID_LINK }, { status: 400 });
+  }
+  const claimId = await getCurrentClaimId(validationRequest.validation.claimId);
+  if (await isClaimTrashed(claimId)) {
+    return NextResponse.json({ error: 'This achievement no longer exists.' }, { status: 404 });
+  }
+
+  // Whatever address the link went to, the achievement's own issuer can't validate it
+  const auth = await getRequestAuth();
+  const responderId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (responderId) {
+    let claim: Claim;
+    try {
+      claim = await new LinkedTrustClient().getClaim(claimId);
+    } catch (error) {
+      if (isLinkedTrustError(error) && error.code === 'NOT_FOUND') {
+        return NextResponse.json({ error: 'This achievement no longer exists.' }, { status: 404 });
+      }
+      console.error('Failed to load claim for validation response:', error);
+      return NextResponse.json({ error: 'Could not reach LinkedTrust' }, { status: 502 });
+    }
+    if (isOwnClaim(claim, responderId)) {
+      return NextResponse.json({ error: "You can't validate your own achievement" }, { status: 403 });
+    }
+  }
+
+  try {
+    const validation = await respondToValidation(
+      token,
+      decision,
+      { validatorName, note, validatorIssuerId: responderId },
+      claimId
+    );
+    return NextResponse.json({ status: validation.status });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      if (error.code === 'NOT_CONFIGURED') {
+        console.error('Validation confirmations need LINKEDTRUST_SERVICE_TOKEN');
+        return NextResponse.json({ error: 'Validations are not available right now' }, { status: 503 });
+      }
+      if (error.code === 'OWN_ACHIEVEMENT') {
+        return NextResponse.json({ error: error.message }, { status: 403 });
+      }
+      return NextResponse.json({ error: error.message }, { status: error.code === 'DECIDED' ? 409 : 400 });
+    }
+    console.error('Failed to record validation:', error);
+    return NextResponse.json({ error: 'Could not record the validation on LinkedTrust' }, { status: 502 });
+  }
+}
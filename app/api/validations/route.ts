@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server';
+import { appBaseUrl } from '@/lib/app-url';
+import { isOwnClaim } from '@/lib/claim-visibility';
+import { isEndorsementClaim } from '@/lib/endorsement-policy';
+import { Claim, LinkedTrustClient, isLinkedTrustError } from '@/lib/linkedtrust-client';
+import { sendMail } from '@/lib/mailer';
+import { normalizeEmail } from '@/lib/password-reset';
+import { displayNameFor } from '@/lib/public-portfolio';
+import { consumeRateLimit } from '@/lib/rate-limit';
+import { getRequestAuth } from '@/lib/session';
+import { getProfile } from '@/lib/usernames';
+import { isValidatorRole } from '@/lib/validation-policy';
+import {
+  VALIDATION_REQUEST_LIMIT,
+  VALIDATION_REQUEST_WINDOW_MS,
+  buildValidationEmail,
+  createValidationRequest,
+  getValidationsForOwner,
+} from '@/lib/validations';
+
+// Validation requests for the signed-in user's achievements, keyed by claim id
+export async function GET() {
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (!issuerId) {
+    return NextResponse.json({ error: 'Not signed in to LinkedTrust' }, { status: 401 });
+  }
+
+  return NextResponse.json({ validations: await getValidationsForOwner(issuerId) });
+}
+
+/**
+ * Ask an instructor, employer or organizer to validate one of the signed-in
+ * user's achievements. The validator is emailed a link to answer.
+ */
+export async function POST(request: Request) {
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (!auth?.token || !issuerId) {
+    return NextResponse.json({ error: 'Not signed in to LinkedTrust' }, { status: 401 });
+  }
+
+  let body: { claimId?: unknown; email?: unknown; role?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const claimId = Number(body.claimId);
+  if (!Number.isInteger(claimId) || claimId <= 0) {
+    return NextResponse.json({ error: 'Invalid claim id' }, { status: 400 });
+  }
+  if (typeof body.email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(body.email.trim())) {
+    return NextResponse.json({ error: "Please enter the validator's email address" }, { status: 400 });
+  }
+  if (!isValidatorRole(body.role)) {
+    return NextResponse.json({ error: 'Please choose the validator\'s role' }, { status: 400 });
+  }
+  if (normalizeEmail(body.email) === normalizeEmail(auth.user.email)) {
+    return NextResponse.json({ error: "You can't validate your own achievement" }, { status: 400 });
+  }
+
+  let claim: Claim;
+  try {
+    claim = await new LinkedTrustClient({ token: auth.token }).getClaim(claimId);
+    if (!isOwnClaim(claim, issuerId) || isEndorsementClaim(claim)) {
+      return NextResponse.json({ error: 'You can only request validation of your own achievements' }, { status: 403 });
+    }
+  } catch (error) {
+    if (isLinkedTrustError(error) && error.code === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'Achievement not found' }, { status: 404 });
+    }
+    console.error('Failed to verify claim ownership:', error);
+    return NextResponse.json({ error: 'Could not reach LinkedTrust' }, { status: 502 });
+  }
+
+  // Links are built from the configured public URL, never the Host header
+  let baseUrl: string;
+  try {
+    baseUrl = appBaseUrl();
+  } catch (error) {
+    console.error('Cannot build validation links:', error);
+    return NextResponse.json({ error: 'Could not send the validation email. Please try again later.' }, { status: 502 });
+  }
+
+  const limit = await consumeRateLimit(`validation-request:${issuerId}`, VALIDATION_REQUEST_LIMIT, VALIDATION_REQUEST_WINDOW_MS);
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: 'You have sent a lot of validation requests today. Please try again tomorrow.' },
+      { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+    );
+  }
+
+  const { validation, token } = await createValidationRequest(claimId, issuerId, body.email, body.role);
+
+  const validationUrl = `${baseUrl}/validate/${token}`;
+  const profile = await getProfile(issuerId);
+  const ownerName = profile ? displayNameFor(profile) : auth.user.name || 'A TrustFolio student';
+
+  try {
+    await sendMail({
+      to: body.email.trim(),
+      ...buildValidationEmail(validationUrl, { ownerName, role: body.role, aspect: claim.aspect, statement: claim.statement }),
+    });
+  } catch (error) {
+    console.error('Failed to send validation request email:', error);
+    return NextResponse.json({ error: 'Could not send the validation email. Please try again later.' }, { status: 502 });
+  }
+
+  return NextResponse.json({ validation });
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { isOwnClaim, setClaimVisibility } from '@/lib/claim-visibility';
+import { LinkedTrustClient, isLinkedTrustError } from '@/lib/linkedtrust-client';
+import { getRequestAuth } from '@/lib/session';
+import { isVisibility } from '@/lib/visibility';
+
+type RouteContext = { params: Promise<{ claimId: string }> };
+
+/**
+ * Set the visibility of one of the signed-in user's backend claims.
+ * Ownership is checked against LinkedTrust before anything is recorded.
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (!auth?.token || !issuerId) {
+    return NextResponse.json({ error: 'Not signed in to LinkedTrust' }, { status: 401 });
+  }
+
+  const claimId = Number((await params).claimId);
+  if (!Number.isInteger(claimId) || claimId <= 0) {
+    return NextResponse.json({ error: 'Invalid claim id' }, { status: 400 });
+  }
+
+  let body: { visibility?: unknown; regenerateLink?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (!isVisibility(body.visibility)) {
+    return NextResponse.json({ error: 'Visibility must be public, link or private' }, { status: 400 });
+  }
+
+  try {
+    const claim = await new LinkedTrustClient({ token: auth.token }).getClaim(claimId);
+    if (!isOwnClaim(claim, issuerId)) {
+      return NextResponse.json({ error: 'You can only change your own achievements' }, { status: 403 });
+    }
+  } catch (error) {
+    if (isLinkedTrustError(error) && error.code === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'Achievement not found' }, { status: 404 });
+    }
+    console.error('Failed to verify claim ownership:', error);
+    return NextResponse.json({ error: 'Could not reach LinkedTrust' }, { status: 502 });
+  }
+
+  return NextResponse.json(
+    await setClaimVisibility(claimId, issuerId, body.visibility, body.regenerateLink === true)
+  );
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { getVisibilityForIssuer } from '@/lib/claim-visibility';
+import { getRequestAuth } from '@/lib/session';
+
+// Visibility of the signed-in user's claims, keyed by claim id (claims not listed are public)
+export async function GET() {
+  const auth = await getRequestAuth();
+  const issuerId = auth?.token ? auth.user.issuerId || auth.user.id : undefined;
+  if (!issuerId) {
+    return NextResponse.json({ error: 'Not signed in to LinkedTrust' }, { status: 401 });
+  }
+
+  return NextResponse.json({ claims: await getVisibilityForIssuer(issuerId) });
+}
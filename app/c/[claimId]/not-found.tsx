@@ -0,0 +1,21 @@
+import Link from 'next/link';
+
+export default function AchievementNotFound() {
+  return (
+    <main className="min-h-screen p-8 bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="max-w-2xl mx-auto text-center py-20">
+        <div className="text-6xl mb-4">🔍</div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Achievement not found</h1>
+        <p className="text-gray-600 mb-6">
+          This achievement doesn&apos;t exist or isn&apos;t public. Check the link and try again.
+        </p>
+        <Link
+          href="/"
+          className="bg-indigo-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-indigo-700 transition"
+        >
+          Create Your Own Portfolio
+        </Link>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,27 @@
+import { OG_IMAGE_CONTENT_TYPE, OG_IMAGE_SIZE, renderOgImage } from '@/lib/og-image';
+import { displayNameFor, loadPublicClaim } from '@/lib/public-portfolio';
+
+export const alt = 'TrustFolio achievement';
+export const size = OG_IMAGE_SIZE;
+export const contentType = OG_IMAGE_CONTENT_TYPE;
+
+// Link preview for /c/[claimId]: the statement, its rating and who asserted it
+export default async function Image({ params }: { params: Promise<{ claimId: string }> }) {
+  const { claimId } = await params;
+  const data = await loadPublicClaim(claimId);
+  if (!data) {
+    return renderOgImage({ eyebrow: 'Verified achievement', title: 'TrustFolio achievement' });
+  }
+
+  const { claim, issuer } = data;
+  const stats = [{ label: 'Category', value: claim.aspect || 'project' }];
+  if (claim.stars) stats.push({ label: 'Rating', value: `${claim.stars} / 5` });
+  if (claim.effectiveDate) stats.push({ label: 'Date', value: claim.effectiveDate });
+
+  return renderOgImage({
+    eyebrow: issuer ? `${displayNameFor(issuer)} - verified achievement` : 'Verified achievement',
+    title: claim.aspect ? claim.aspect.charAt(0).toUpperCase() + claim.aspect.slice(1) : 'Project',
+    body: claim.statement,
+    stats,
+  });
+}
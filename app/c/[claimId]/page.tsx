@@ -0,0 +1,236 @@
+/**
+ * Achievement Permalink Page Component
+ *
+ * Server-rendered page for a single public achievement at /c/[claimId], so a
+ * résumé can link to one claim. Shows everything that was asserted - the
+ * statement, category, rating, date and how it is known - along with who
+ * asserted it about whom (issuer and subject URIs) and the claim exactly as
+ * LinkedTrust returned it.
+ *
+ * Features:
+ * - Single achievement display with verification details
+ * - "Validated by" badges and endorsements from other people
+ * - Trust score with its breakdown next to the star rating
+ * - Evidence (files and link previews) with their hashes and the claim's digest
+ * - Version history with what each edit changed; old permalinks redirect here
+ * - Link to the issuer's public portfolio when they have a username
+ * - Raw LinkedClaims JSON
+ * - Generated Open Graph image (opengraph-image.tsx) for link previews
+ * - 404 for unknown, link-only and private achievements
+ *
+ * @component
+ */
+
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { Stars } from '@/components/AchievementCard';
+import EndorsementList from '@/components/EndorsementList';
+import EvidenceList from '@/components/EvidenceList';
+import TrustScoreBadge from '@/components/TrustScoreBadge';
+import ValidationBadges from '@/components/ValidationBadges';
+import VersionHistory from '@/components/VersionHistory';
+import { getEvidenceForClaims } from '@/lib/claim-evidence';
+import { getTrustScores } from '@/lib/claim-graph';
+import { getEndorsementsForClaims } from '@/lib/endorsements';
+import { userIdFromUri } from '@/lib/linkedtrust-client';
+import { getConfirmedValidationsForClaims } from '@/lib/validations';
+import { getCategoryEmoji } from '@/lib/portfolio-stats';
+import { displayNameFor, loadPublicClaim, loadPublicVersions } from '@/lib/public-portfolio';
+
+type PageProps = { params: Promise<{ claimId: string }> };
+
+// What each howKnown value says about the issuer's knowledge
+const HOW_KNOWN_DESCRIPTIONS: { [howKnown: string]: string } = {
+  FIRST_HAND: 'The issuer knows this directly',
+  SECOND_HAND: 'The issuer learned this from someone who knows it directly',
+  WEB_DOCUMENT: 'Based on a document published on the web',
+  VERIFIED_LOGIN: 'Verified through the subject\'s login to another service',
+  PHYSICAL_DOCUMENT: 'Based on a physical document',
+};
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { claimId } = await params;
+  const data = await loadPublicClaim(claimId);
+  if (!data) {
+    return { title: 'Achievement | TrustFolio' };
+  }
+
+  const { claim, issuer } = data;
+  const category = claim.aspect || 'Project';
+  const heading = issuer ? `${category} - ${displayNameFor(issuer)}` : category;
+  return {
+    title: `${heading} | TrustFolio`,
+    description: claim.statement,
+    alternates: { canonical: `/c/${claim.id}` },
+    openGraph: {
+      title: heading,
+      description: claim.statement,
+      type: 'article',
+      url: `/c/${claim.id}`,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: heading,
+      description: claim.statement,
+    },
+  };
+}
+
+/**
+ * One row of the verification details list
+ */
+function Detail({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="py-3 sm:grid sm:grid-cols-3 sm:gap-4">
+      <dt className="text-sm font-medium text-gray-500">{label}</dt>
+      <dd className="mt-1 text-sm text-gray-900 sm:col-span-2 sm:mt-0 break-all">{children}</dd>
+    </div>
+  );
+}
+
+/**
+ * Achievement Permalink Page Component
+ *
+ * Example URLs:
+ * - /c/1234
+ *
+ * @returns {JSX.Element} Achievement permalink page
+ */
+export default async function AchievementPermalinkPage({ params }: PageProps) {
+  const { claimId } = await params;
+  const data = await loadPublicClaim(claimId);
+
+  if (!data) {
+    return (
+      <main className="min-h-screen p-8 bg-gradient-to-br from-blue-50 to-indigo-100">
+        <div className="max-w-3xl mx-auto text-center py-20 bg-white rounded-xl shadow-md">
+          <div className="text-6xl mb-4">📡</div>
+          <h1 className="text-2xl font-bold text-gray-700 mb-2">
+            Achievement temporarily unavailable
+          </h1>
+          <p className="text-gray-600">
+            We couldn&apos;t reach LinkedTrust. Please try again in a few minutes.
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  const { claim, raw, issuer } = data;
+  const issuerName = issuer ? displayNameFor(issuer) : null;
+  const [evidence, endorsements, validations, trustScores, versions] = await Promise.all([
+    getEvidenceForClaims([claim.id]),
+    getEndorsementsForClaims([claim.id]),
+    getConfirmedValidationsForClaims([claim.id]),
+    getTrustScores([claim.id], userIdFromUri(claim.issuerId) || ''),
+    loadPublicVersions(claim.id, issuerName || 'The issuer'),
+  ]);
+
+  return (
+    <main className="min-h-screen p-8 bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="max-w-3xl mx-auto">
+        {issuer && (
+          <Link href={`/p/${issuer.username}`} className="text-indigo-600 hover:text-indigo-800 mb-4 inline-block">
+            ← {issuerName}&apos;s Portfolio
+          </Link>
+        )}
+
+        {/* Achievement */}
+        <div className="bg-white rounded-xl shadow-lg p-8 mb-6">
+          <div className="flex items-start gap-4">
+            <div className="text-5xl">{getCategoryEmoji(claim.aspect)}</div>
+            <div className="flex-1">
+              <div className="flex justify-between items-start mb-3">
+                <h1 className="text-3xl font-bold text-gray-900 capitalize">
+                  {claim.aspect || 'Project'}
+                </h1>
+                <div className="flex items-center gap-3">
+                  <TrustScoreBadge trustScore={trustScores[claim.id]} />
+                  <Stars stars={claim.stars} />
+                </div>
+              </div>
+              <p className="text-lg text-gray-700">{claim.statement}</p>
+              {issuerName && (
+                <p className="text-sm text-gray-500 mt-3">Asserted by {issuerName}</p>
+              )}
+              <EvidenceList evidence={evidence[claim.id]} />
+              <ValidationBadges validations={validations[claim.id]} />
+              <EndorsementList endorsements={endorsements[claim.id]} />
+              <VersionHistory versions={versions} />
+            </div>
+          </div>
+        </div>
+
+        {/* Verification Details */}
+        <div className="bg-white rounded-xl shadow-md p-6 mb-6">
+          <h2 className="text-xl font-bold text-gray-900 mb-2">🔍 Verification Details</h2>
+          <dl className="divide-y divide-gray-100">
+            <Detail label="Claim ID">{claim.id}</Detail>
+            <Detail label="Claim type">{claim.claim}</Detail>
+            <Detail label="Category">
+              <span className="capitalize">{claim.aspect || 'project'}</span>
+            </Detail>
+            <Detail label="Rating">{claim.stars ? `${claim.stars} of 5 stars` : 'Not rated'}</Detail>
+            <Detail label="Effective date">
+              {claim.effectiveDate ? new Date(claim.effectiveDate).toLocaleDateString() : 'Not given'}
+            </Detail>
+            <Detail label="How known">
+              {claim.howKnown ? (
+                <>
+                  {claim.howKnown.replace(/_/g, ' ')}
+                  {HOW_KNOWN_DESCRIPTIONS[claim.howKnown] && (
+                    <span className="block text-gray-500">{HOW_KNOWN_DESCRIPTIONS[claim.howKnown]}</span>
+                  )}
+                </>
+              ) : 'Not given'}
+            </Detail>
+            <Detail label="Issuer">{claim.issuerId || 'Unknown'}</Detail>
+            <Detail label="Subject">{claim.subject}</Detail>
+            {claim.sourceURI && (
+              <Detail label="Evidence source">
+                <a href={claim.sourceURI} target="_blank" rel="noopener noreferrer nofollow" className="text-indigo-600 hover:text-indigo-800">
+                  {claim.sourceURI}
+                </a>
+              </Detail>
+            )}
+            {claim.digestMultibase && (
+              <Detail label="Evidence digest">
+                <span className="font-mono">{claim.digestMultibase}</span>
+                <span className="block text-gray-500">SHA-256 multihash of the attached evidence</span>
+              </Detail>
+            )}
+            {claim.supersedes && (
+              <Detail label="Supersedes">
+                {claim.supersedes}
+                <span className="block text-gray-500">This claim replaced an earlier version of the achievement</span>
+              </Detail>
+            )}
+            {claim.createdAt && (
+              <Detail label="Recorded">{new Date(claim.createdAt).toLocaleString()}</Detail>
+            )}
+          </dl>
+        </div>
+
+        {/* Raw LinkedClaims JSON */}
+        <div className="bg-white rounded-xl shadow-md p-6">
+          <h2 className="text-xl font-bold text-gray-900 mb-2">🧾 LinkedClaims JSON</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            The claim exactly as stored on LinkedTrust.
+          </p>
+          <pre className="bg-gray-900 text-gray-100 text-xs p-4 rounded-lg overflow-x-auto">
+            {JSON.stringify(raw, null, 2)}
+          </pre>
+        </div>
+
+        <div className="mt-8 text-center">
+          <Link
+            href="/"
+            className="inline-block bg-indigo-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-indigo-700 transition"
+          >
+            Create Your Own Portfolio
+          </Link>
+        </div>
+      </div>
+    </main>
+  );
+}
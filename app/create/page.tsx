@@ -3,12 +3,28 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import EvidenceList from '@/components/EvidenceList';
 import { useAuth } from '@/lib/auth-context';
-import { createClaim, createClaimLocal, starsToScore } from '@/lib/linkedclaims';
+import { claimTypeForCategory, createClaimLocal, starsToScore } from '@/lib/linkedclaims';
+import { LinkedTrustError, createSessionClient, userUri } from '@/lib/linkedtrust-client';
+import { enqueueClaimOperation, isRetryableError } from '@/lib/claim-outbox';
+import {
+  EVIDENCE_FILE_TYPES,
+  EVIDENCE_MAX_PER_CLAIM,
+  Evidence,
+  addEvidenceLink,
+  attachEvidence,
+  evidenceDigestMultibase,
+  removeEvidence,
+  uploadEvidenceFile,
+  validateEvidenceFile,
+  validateEvidenceLink,
+} from '@/lib/evidence';
+import { DEFAULT_VISIBILITY, VISIBILITY_OPTIONS, Visibility, saveVisibility } from '@/lib/visibility';
 
 export default function CreatePage() {
   const router = useRouter();
-  const { token, isAuthenticated, user } = useAuth();
+  const { hasBackendAccess, isAuthenticated, user, authMethod } = useAuth();
   const [loading, setLoading] = useState(false);
   const [generating, setGenerating] = useState(false);
   const [error, setError] = useState('');
@@ -20,7 +36,58 @@ export default function CreatePage() {
     statement: '',
     stars: 5,
     date: new Date().toISOString().split('T')[0],
+    visibility: DEFAULT_VISIBILITY as Visibility,
   });
+  // Evidence is uploaded as it is added and attached once the claim exists
+  const [evidence, setEvidence] = useState<Evidence[]>([]);
+  const [evidenceLink, setEvidenceLink] = useState('');
+  const [addingEvidence, setAddingEvidence] = useState(false);
+  const [evidenceError, setEvidenceError] = useState('');
+
+  const addEvidence = async (add: () => Promise<Evidence>) => {
+    if (evidence.length >= EVIDENCE_MAX_PER_CLAIM) {
+      setEvidenceError(`An achievement can have at most ${EVIDENCE_MAX_PER_CLAIM} pieces of evidence`);
+      return;
+    }
+    setAddingEvidence(true);
+    setEvidenceError('');
+    try {
+      const added = await add();
+      setEvidence(current => [...current, added]);
+    } catch (err) {
+      setEvidenceError(err instanceof Error ? err.message : 'Could not add evidence');
+    } finally {
+      setAddingEvidence(false);
+    }
+  };
+
+  const handleEvidenceFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    for (const file of files) {
+      const problem = validateEvidenceFile(file);
+      if (problem) {
+        setEvidenceError(`${file.name}: ${problem}`);
+        return;
+      }
+      await addEvidence(() => uploadEvidenceFile(file));
+    }
+  };
+
+  const handleAddLink = async () => {
+    const problem = validateEvidenceLink(evidenceLink);
+    if (problem) {
+      setEvidenceError(problem);
+      return;
+    }
+    await addEvidence(() => addEvidenceLink(evidenceLink));
+    setEvidenceLink('');
+  };
+
+  const handleRemoveEvidence = async (item: Evidence) => {
+    setEvidence(current => current.filter(other => other.id !== item.id));
+    await removeEvidence(item.id).catch(err => console.warn('Could not remove evidence:', err));
+  };
 
   const handleGenerateAI = async () => {
     if (!formData.keywords.trim()) {
@@ -47,7 +114,7 @@ export default function CreatePage() {
         setFormData({ ...formData, statement: data.description });
         setDescriptionLength(data.description.length);
       } else {
-        alert('Failed to generate description. Please try again.');
+        alert(data.error || 'Failed to generate description. Please try again.');
       }
     } catch (error) {
       console.error('Error:', error);
@@ -66,37 +133,69 @@ export default function CreatePage() {
       // Get the user ID - works for both OAuth and email/password
       const userId = user?.issuerId || user?.id;
       
-      // Check if user has a REAL backend token (not just NextAuth session)
-      const hasBackendToken = token && token !== 'nextauth_session';
-      const isOAuthUser = token === 'nextauth_session';
+      // Password and OAuth users both get backend access once linked to LinkedTrust
+      const hasBackendToken = hasBackendAccess;
+      const isOAuthUser = authMethod === 'oauth';
       
       // Prepare claim data
       const claimData = {
         subject: userId
-          ? `http://trustclaims.whatscookin.us/user/${userId}`
+          ? userUri(userId)
           : `https://trustfolio.app/student/dana`,
-        claim: formData.category === 'skill' ? 'HAS_SKILL' : 'COMPLETED_PROJECT',
+        claim: claimTypeForCategory(formData.category),
         statement: formData.statement,
         effectiveDate: formData.date,
         howKnown: 'FIRST_HAND' as const,
         stars: formData.stars,
         score: starsToScore(formData.stars),
         aspect: formData.category,
+        // The claim points at its first piece of evidence and carries the digest of all of it
+        ...(evidence.length > 0 && {
+          sourceURI: new URL(evidence[0].url, window.location.origin).toString(),
+          digestMultibase: await evidenceDigestMultibase(evidence),
+        }),
       };
+      const evidenceIds = evidence.map(item => item.id);
 
-      // Only use backend if user has a real backend token (email/password users)
+      // Only use backend if the session has backend access
       if (hasBackendToken && userId) {
         console.log('Creating claim with backend...', claimData);
-        await createClaim(claimData, token);
-        alert('Achievement created successfully on LinkedTrust! 🎉');
+        try {
+          if (!navigator.onLine) {
+            throw new LinkedTrustError('You are offline', 'NETWORK');
+          }
+          const created = await createSessionClient().createClaim(claimData);
+          if (formData.visibility !== DEFAULT_VISIBILITY) {
+            // The claim already exists; a failed visibility update is queued rather than retrying the create
+            await saveVisibility(created.id, formData.visibility).catch(visibilityError => {
+              console.warn('Visibility update failed, queueing it for sync:', visibilityError);
+              return enqueueClaimOperation({ kind: 'visibility', claimId: created.id, visibility: formData.visibility });
+            });
+          }
+          if (evidenceIds.length > 0) {
+            await attachEvidence(created.id, evidenceIds).catch(evidenceError => {
+              console.warn('Attaching evidence failed, queueing it for sync:', evidenceError);
+              return enqueueClaimOperation({ kind: 'evidence', claimId: created.id, evidenceIds });
+            });
+          }
+          alert('Achievement created successfully on LinkedTrust! 🎉');
+        } catch (backendError) {
+          if (!isRetryableError(backendError)) throw backendError;
+
+          // Keep the claim and let the outbox sync it once the backend is reachable
+          console.warn('Backend unavailable, queueing claim for sync:', backendError);
+          const localClaim = await createClaimLocal({ ...claimData, visibility: formData.visibility, evidenceIds });
+          await enqueueClaimOperation({ kind: 'create', localId: localClaim.id });
+          alert('Achievement saved! ⏳\n\nLinkedTrust is unreachable right now, so it will sync automatically when you are back online.');
+        }
         router.push('/portfolio');
       } else {
-        // OAuth users or unauthenticated users save locally
+        // Unlinked OAuth users or unauthenticated users save locally
         console.log('Creating claim locally...', claimData);
-        await createClaimLocal(claimData);
+        await createClaimLocal({ ...claimData, visibility: formData.visibility });
         
         if (isOAuthUser) {
-          alert('Achievement saved locally! 📦\n\nNote: OAuth users currently save to local storage. Backend OAuth integration coming soon!');
+          alert('Achievement saved locally! 📦\n\nYour Google/GitHub account is not connected to LinkedTrust yet. Sign out and back in to retry.');
         } else {
           alert('Achievement saved locally! 📦\n\nSign in with email/password to sync to LinkedTrust backend.');
         }
@@ -105,30 +204,6 @@ export default function CreatePage() {
     } catch (error: any) {
       console.error('Error creating claim:', error);
       setError(error.message || 'Error creating claim. Check console for details.');
-      
-      // Offer to save locally on error
-      const saveLocal = confirm('Backend error. Save locally instead?');
-      if (saveLocal) {
-        try {
-          const userId = user?.issuerId || user?.id;
-          await createClaimLocal({
-            subject: userId 
-              ? `http://trustclaims.whatscookin.us/user/${userId}`
-              : `https://trustfolio.app/student/dana`,
-            claim: formData.category === 'skill' ? 'HAS_SKILL' : 'COMPLETED_PROJECT',
-            statement: formData.statement,
-            effectiveDate: formData.date,
-            howKnown: 'FIRST_HAND',
-            stars: formData.stars,
-            score: starsToScore(formData.stars),
-            aspect: formData.category,
-          });
-          alert('Saved locally! 📦');
-          router.push('/portfolio');
-        } catch (localError) {
-          console.error('Local save failed:', localError);
-        }
-      }
     } finally {
       setLoading(false);
     }
@@ -295,9 +370,84 @@ export default function CreatePage() {
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Visibility
+              </label>
+              <select
+                value={formData.visibility}
+                onChange={(e) => setFormData({ ...formData, visibility: e.target.value as Visibility })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              >
+                {VISIBILITY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <p className="text-sm text-gray-500 mt-1">
+                {VISIBILITY_OPTIONS.find((option) => option.value === formData.visibility)?.description}
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Evidence
+              </label>
+              {hasBackendAccess ? (
+                <>
+                  <p className="text-sm text-gray-500 mb-3">
+                    Attach proof: certificates and screenshots ({Object.values(EVIDENCE_FILE_TYPES).join(', ')}), or links to repositories and demos.
+                    Their fingerprint is recorded in the claim.
+                  </p>
+                  {evidenceError && (
+                    <p className="mb-3 text-sm text-red-600">{evidenceError}</p>
+                  )}
+                  <div className="flex flex-col sm:flex-row gap-3">
+                    <input
+                      type="url"
+                      value={evidenceLink}
+                      onChange={(e) => setEvidenceLink(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          handleAddLink();
+                        }
+                      }}
+                      placeholder="https://github.com/you/project"
+                      className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleAddLink}
+                      disabled={addingEvidence || !evidenceLink.trim()}
+                      className="bg-gray-100 text-gray-800 px-4 py-2 rounded-lg font-semibold hover:bg-gray-200 disabled:opacity-50 transition"
+                    >
+                      🔗 Add Link
+                    </button>
+                    <label className={`bg-gray-100 text-gray-800 px-4 py-2 rounded-lg font-semibold hover:bg-gray-200 transition text-center ${addingEvidence ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+                      📎 Upload File
+                      <input
+                        type="file"
+                        multiple
+                        accept={Object.keys(EVIDENCE_FILE_TYPES).join(',')}
+                        onChange={handleEvidenceFiles}
+                        disabled={addingEvidence}
+                        className="hidden"
+                      />
+                    </label>
+                  </div>
+                  {addingEvidence && <p className="text-sm text-gray-500 mt-2">Adding evidence...</p>}
+                  <EvidenceList evidence={evidence} onRemove={handleRemoveEvidence} />
+                </>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  Sign in with a LinkedTrust account to attach files and links as evidence.
+                </p>
+              )}
+            </div>
+
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || addingEvidence}
               className="w-full bg-indigo-600 text-white py-3 px-6 rounded-lg font-semibold hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition"
             >
               {loading ? 'Creating...' : 'Create Achievement'}
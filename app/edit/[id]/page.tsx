@@ -1,15 +1,28 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '@/lib/auth-context';
-import { getLocalClaims, starsToScore } from '@/lib/linkedclaims';
+import { claimTypeForCategory, getLocalClaims, reviseStoredClaim, saveLocalClaims } from '@/lib/linkedclaims';
+import { createSessionClient, isLinkedTrustError } from '@/lib/linkedtrust-client';
+import { enqueueClaimOperation, isRetryableError } from '@/lib/claim-outbox';
+import {
+  ClaimRevision,
+  REVISABLE_FIELDS,
+  REVISABLE_FIELD_LABELS,
+  RevisionConflict,
+  changedFields,
+  isRevisionConflict,
+  reviseClaim,
+  revisionOf,
+} from '@/lib/revisions';
+import { DEFAULT_VISIBILITY, VISIBILITY_OPTIONS, Visibility, fetchVisibility, saveVisibility } from '@/lib/visibility';
 
 export default function EditPage() {
   const router = useRouter();
   const params = useParams();
-  const { token, isAuthenticated, user } = useAuth();
+  const { hasBackendAccess, isAuthenticated, user, loading: authLoading } = useAuth();
   const [loading, setLoading] = useState(false);
   const [loadingClaim, setLoadingClaim] = useState(true);
   const [error, setError] = useState('');
@@ -17,40 +30,91 @@ export default function EditPage() {
   const maxDescriptionLength = 500;
   const [formData, setFormData] = useState({
     category: 'project',
+    claimType: claimTypeForCategory('project'),
     statement: '',
     stars: 5,
     date: new Date().toISOString().split('T')[0],
+    visibility: DEFAULT_VISIBILITY as Visibility,
   });
+  // Visibility as loaded, so an unchanged setting isn't re-saved
+  const [savedVisibility, setSavedVisibility] = useState<Visibility>(DEFAULT_VISIBILITY);
+  // Backend claim being edited - the one superseding the loaded claim once a conflict has been resolved
+  const [editingClaimId, setEditingClaimId] = useState(() => parseInt(params.id as string));
+  // The backend claim's fields as loaded, so changes made elsewhere since are caught on save
+  const [baseline, setBaseline] = useState<ClaimRevision | null>(null);
+  const [conflict, setConflict] = useState<RevisionConflict | null>(null);
 
-  useEffect(() => {
-    loadClaim();
-  }, [params.id]);
+  // Fill the form with a backend claim's fields
+  const showRevision = useCallback((revision: ClaimRevision, visibility: Visibility) => {
+    const category = revision.aspect || 'project';
+    setFormData({
+      category,
+      claimType: revision.claim || claimTypeForCategory(category),
+      statement: revision.statement || '',
+      stars: revision.stars || 5,
+      date: revision.effectiveDate || new Date().toISOString().split('T')[0],
+      visibility,
+    });
+    setDescriptionLength(revision.statement?.length || 0);
+  }, []);
 
-  const loadClaim = async () => {
+  const loadClaim = useCallback(async () => {
     try {
       const claimId = parseInt(params.id as string);
       
-      // For now, we only support editing local claims
-      const localClaims = getLocalClaims();
-      const claim = localClaims.find(c => c.id === claimId);
-      
-      if (claim) {
+      // Local Mode claims and creates still in the outbox live in localStorage
+      const localClaim = getLocalClaims().find(c => c.id === claimId);
+
+      if (localClaim) {
         setFormData({
-          category: claim.aspect || 'project',
-          statement: claim.statement || '',
-          stars: claim.stars || 5,
-          date: claim.effectiveDate || new Date().toISOString().split('T')[0],
+          category: localClaim.aspect || 'project',
+          claimType: localClaim.claim || claimTypeForCategory(localClaim.aspect || 'project'),
+          statement: localClaim.statement || '',
+          stars: localClaim.stars || 5,
+          date: localClaim.effectiveDate || new Date().toISOString().split('T')[0],
+          visibility: localClaim.visibility || DEFAULT_VISIBILITY,
         });
-        setDescriptionLength(claim.statement?.length || 0);
+        setDescriptionLength(localClaim.statement?.length || 0);
+      } else if (hasBackendAccess) {
+        const [claim, visibilityByClaim] = await Promise.all([
+          createSessionClient().getClaim(claimId),
+          fetchVisibility(),
+        ]);
+        const visibility = visibilityByClaim[claimId]?.visibility || DEFAULT_VISIBILITY;
+        showRevision(revisionOf(claim), visibility);
+        setSavedVisibility(visibility);
+        setEditingClaimId(claimId);
+        setBaseline(revisionOf(claim));
       } else {
         setError('Achievement not found');
       }
     } catch (err) {
       console.error('Error loading claim:', err);
-      setError('Failed to load achievement');
+      setError(isLinkedTrustError(err) && err.code === 'NOT_FOUND' ? 'Achievement not found' : 'Failed to load achievement');
     } finally {
       setLoadingClaim(false);
     }
+  }, [params.id, hasBackendAccess, showRevision]);
+
+  useEffect(() => {
+    // Backend claims can only be loaded once the session is known
+    if (authLoading) return;
+    loadClaim();
+  }, [authLoading, loadClaim]);
+
+  // Conflict resolution: start over from the achievement as it is now
+  const loadLatestVersion = (latest: RevisionConflict) => {
+    showRevision(latest.current, formData.visibility);
+    setEditingClaimId(latest.currentClaimId);
+    setBaseline(latest.current);
+    setConflict(null);
+  };
+
+  // Conflict resolution: save the form as it is over the latest version
+  const keepMyChanges = (latest: RevisionConflict) => {
+    setEditingClaimId(latest.currentClaimId);
+    setBaseline(latest.current);
+    setConflict(null);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -60,47 +124,68 @@ export default function EditPage() {
 
     try {
       const claimId = parseInt(params.id as string);
-      const hasBackendToken = token && token !== 'nextauth_session';
+      const hasBackendToken = hasBackendAccess;
+      // Claims still waiting in the outbox live in localStorage until they sync
+      const isLocalClaim = getLocalClaims().some(claim => claim.id === claimId);
+      const changes: ClaimRevision = {
+        claim: formData.claimType,
+        statement: formData.statement,
+        effectiveDate: formData.date,
+        stars: formData.stars,
+        aspect: formData.category,
+      };
       
-      if (hasBackendToken && user?.issuerId) {
-        // Backend update
-        const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL}/api/v1/claims/${claimId}`, {
-          method: 'PUT',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            statement: formData.statement,
-            effectiveDate: formData.date,
-            stars: formData.stars,
-            score: starsToScore(formData.stars),
-            aspect: formData.category,
-          }),
-        });
+      if (hasBackendToken && user?.issuerId && !isLocalClaim) {
+        // Backend update: the edited fields go into a claim that supersedes this one
+        const expected = baseline ?? undefined;
+        // A visibility change alone doesn't need a new claim
+        const edited = baseline ? changedFields(changes, baseline) : REVISABLE_FIELDS;
 
-        if (!response.ok) throw new Error('Failed to update on backend');
-        
-        alert('Achievement updated successfully! 🎉');
+        let currentClaimId = editingClaimId;
+        let queued = false;
+        if (edited.length > 0) {
+          try {
+            currentClaimId = (await reviseClaim(editingClaimId, changes, { expected })).id;
+          } catch (backendError) {
+            if (isLinkedTrustError(backendError) && isRevisionConflict(backendError.details)) {
+              setConflict(backendError.details);
+              return;
+            }
+            if (!isRetryableError(backendError)) throw backendError;
+
+            console.warn('Backend unavailable, queueing update for sync:', backendError);
+            await enqueueClaimOperation({ kind: 'update', claimId: editingClaimId, changes, expected });
+            queued = true;
+          }
+        }
+
+        if (formData.visibility !== savedVisibility) {
+          try {
+            await saveVisibility(currentClaimId, formData.visibility);
+          } catch (visibilityError) {
+            if (!isRetryableError(visibilityError)) throw visibilityError;
+
+            console.warn('Visibility update failed, queueing it for sync:', visibilityError);
+            await enqueueClaimOperation({ kind: 'visibility', claimId: currentClaimId, visibility: formData.visibility });
+            queued = true;
+          }
+        }
+
+        alert(queued
+          ? 'Changes saved! ⏳\n\nThey will sync to LinkedTrust automatically when the backend is reachable.'
+          : 'Achievement updated successfully! 🎉');
         router.push('/portfolio');
       } else {
-        // Local storage update
+        // Local storage update, keeping the replaced version in the claim's history
         const localClaims = getLocalClaims();
         const updatedClaims = localClaims.map(claim => {
           if (claim.id === claimId) {
-            return {
-              ...claim,
-              statement: formData.statement,
-              effectiveDate: formData.date,
-              stars: formData.stars,
-              score: starsToScore(formData.stars),
-              aspect: formData.category,
-            };
+            return { ...reviseStoredClaim(claim, changes), visibility: formData.visibility };
           }
           return claim;
         });
         
-        localStorage.setItem('trustfolio_claims', JSON.stringify(updatedClaims));
+        saveLocalClaims(updatedClaims);
         alert('Achievement updated locally! 📝');
         router.push('/portfolio');
       }
@@ -152,6 +237,38 @@ export default function EditPage() {
             </div>
           )}
 
+          {conflict && (
+            <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-900">
+              <p className="font-semibold mb-2">⚠️ {conflict.error}</p>
+              {conflict.changed.length > 0 && (
+                <ul className="text-sm mb-3 space-y-1">
+                  {conflict.changed.map(field => (
+                    <li key={field}>
+                      <span className="font-medium">{REVISABLE_FIELD_LABELS[field]}</span> is now “{String(conflict.current[field] ?? '')}”
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex flex-wrap gap-3">
+                <button
+                  type="button"
+                  onClick={() => loadLatestVersion(conflict)}
+                  className="bg-white border border-yellow-300 px-4 py-2 rounded-lg text-sm font-semibold hover:bg-yellow-100 transition"
+                >
+                  Load the latest version
+                </button>
+                <button
+                  type="button"
+                  onClick={() => keepMyChanges(conflict)}
+                  className="bg-white border border-yellow-300 px-4 py-2 rounded-lg text-sm font-semibold hover:bg-yellow-100 transition"
+                >
+                  Keep my changes
+                </button>
+              </div>
+              <p className="text-xs mt-2">Keeping your changes replaces the latest version when you save again.</p>
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-6">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -159,7 +276,11 @@ export default function EditPage() {
               </label>
               <select
                 value={formData.category}
-                onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                onChange={(e) => setFormData({
+                  ...formData,
+                  category: e.target.value,
+                  claimType: claimTypeForCategory(e.target.value),
+                })}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
               >
                 <option value="project">📁 Project</option>
@@ -173,6 +294,9 @@ export default function EditPage() {
                 <option value="research">🔬 Research</option>
                 <option value="presentation">🎤 Presentation</option>
               </select>
+              <p className="text-sm text-gray-500 mt-1">
+                Recorded on LinkedTrust as <code>{formData.claimType}</code>
+              </p>
             </div>
 
             <div>
@@ -240,6 +364,24 @@ export default function EditPage() {
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Visibility
+              </label>
+              <select
+                value={formData.visibility}
+                onChange={(e) => setFormData({ ...formData, visibility: e.target.value as Visibility })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              >
+                {VISIBILITY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <p className="text-sm text-gray-500 mt-1">
+                {VISIBILITY_OPTIONS.find((option) => option.value === formData.visibility)?.description}
+              </p>
+            </div>
+
             <div className="flex gap-4">
               <button
                 type="submit"
@@ -0,0 +1,29 @@
+import { appBaseUrl } from '@/lib/app-url';
+import { embedLoaderScript } from '@/lib/embed';
+
+/**
+ * Script-tag loader for the embeddable portfolio widget (see lib/embed.ts).
+ * Served cross-origin so any site can include it.
+ */
+export async function GET() {
+  // The loader points iframes at this origin, so it comes from config, never the Host header
+  let origin: string;
+  try {
+    origin = appBaseUrl();
+  } catch (error) {
+    console.error('Cannot serve the embed loader:', error);
+    return new Response('// TrustFolio widget is unavailable', {
+      status: 500,
+      headers: { 'Content-Type': 'application/javascript; charset=utf-8' },
+    });
+  }
+
+  return new Response(embedLoaderScript(origin), {
+    headers: {
+      'Content-Type': 'application/javascript; charset=utf-8',
+      'Cache-Control': 'public, max-age=3600',
+      'Access-Control-Allow-Origin': '*',
+      'Cross-Origin-Resource-Policy': 'cross-origin',
+    },
+  });
+}
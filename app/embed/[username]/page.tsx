@@ -0,0 +1,101 @@
+/**
+ * Embeddable Portfolio Widget Page
+ *
+ * Compact list of a user's public achievements, rendered inside an iframe on
+ * other sites by the /embed.js loader (or an iframe pointing here directly).
+ * Uses the same cards as the public portfolio page.
+ *
+ * Features:
+ * - Light/dark theme, category filter and item limit via query parameters
+ *   (see lib/embed.ts)
+ * - Newest achievements first
+ * - Links open the full portfolio and permalinks in a new tab
+ * - Reports its height to the host page for auto-resizing
+ * - Frameable from any site (see next.config.ts); kept out of search engines
+ *
+ * @component
+ */
+
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import AchievementCard from '@/components/AchievementCard';
+import EmbedAutoResize from '@/components/EmbedAutoResize';
+import { parseEmbedOptions } from '@/lib/embed';
+import { displayNameFor, loadPublicClaims, loadPublicProfile } from '@/lib/public-portfolio';
+
+type PageProps = {
+  params: Promise<{ username: string }>;
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+};
+
+export const metadata: Metadata = {
+  title: 'TrustFolio achievements',
+  robots: { index: false, follow: false },
+};
+
+export default async function EmbedPage({ params, searchParams }: PageProps) {
+  const { username } = await params;
+  const options = parseEmbedOptions(await searchParams);
+
+  // Old usernames keep working in embeds without a redirect inside the iframe
+  const resolved = await loadPublicProfile(username);
+  if (!resolved) notFound();
+  const { profile } = resolved;
+
+  const loadedClaims = await loadPublicClaims(profile);
+  const claims = (loadedClaims || [])
+    .filter(claim => !options.category || (claim.aspect || 'project').toLowerCase() === options.category)
+    .sort((a, b) => new Date(b.effectiveDate || 0).getTime() - new Date(a.effectiveDate || 0).getTime())
+    .slice(0, options.limit);
+
+  const dark = options.theme === 'dark';
+  const linkClass = dark ? 'text-indigo-300 hover:text-indigo-200' : 'text-indigo-600 hover:text-indigo-800';
+
+  return (
+    <main className={`p-3 ${dark ? 'bg-gray-900 text-gray-100' : 'bg-white text-gray-900'}`}>
+      <EmbedAutoResize />
+
+      <div className="flex justify-between items-baseline mb-3">
+        <h2 className="text-lg font-bold">🏆 {displayNameFor(profile)}&apos;s Achievements</h2>
+        <a
+          href={`/p/${profile.username}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={`text-sm font-semibold ${linkClass}`}
+        >
+          View all →
+        </a>
+      </div>
+
+      {loadedClaims === null ? (
+        <p className={`text-sm ${dark ? 'text-gray-400' : 'text-gray-500'}`}>
+          Achievements are temporarily unavailable.
+        </p>
+      ) : claims.length === 0 ? (
+        <p className={`text-sm ${dark ? 'text-gray-400' : 'text-gray-500'}`}>
+          No achievements to show yet.
+        </p>
+      ) : (
+        <div className="grid gap-3">
+          {claims.map((claim) => (
+            <AchievementCard
+              key={claim.id}
+              claim={claim}
+              href={`/c/${claim.id}`}
+              theme={options.theme}
+              compact
+              newTab
+            />
+          ))}
+        </div>
+      )}
+
+      <p className={`mt-3 text-xs text-right ${dark ? 'text-gray-500' : 'text-gray-400'}`}>
+        Verified on LinkedTrust •{' '}
+        <a href="/" target="_blank" rel="noopener noreferrer" className={linkClass}>
+          TrustFolio
+        </a>
+      </p>
+    </main>
+  );
+}
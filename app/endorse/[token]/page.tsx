@@ -0,0 +1,257 @@
+/**
+ * Endorse Page Component
+ *
+ * Landing page of an endorsement request link (/endorse/[token]). A student
+ * sends the link to a teacher, mentor or teammate, who signs in and vouches
+ * for the achievement in their own words.
+ *
+ * Features:
+ * - Shows the achievement and whose it is
+ * - Sign-in and sign-up links that come back to this page
+ * - Statement and rating form, checked against the endorsement policy
+ * - Explains expired links, own achievements and repeat endorsements
+ *
+ * @component
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Stars } from '@/components/AchievementCard';
+import { useAuth } from '@/lib/auth-context';
+import { ENDORSEMENT_MAX_LENGTH, ENDORSEMENT_MIN_LENGTH, validateEndorsement } from '@/lib/endorsement-policy';
+import { getCategoryEmoji } from '@/lib/portfolio-stats';
+
+interface EndorsementRequestInfo {
+  claim: {
+    id: number;
+    aspect?: string;
+    statement: string;
+    stars?: number;
+    effectiveDate?: string;
+  };
+  ownerName: string | null;
+  isOwner: boolean;
+  alreadyEndorsed: boolean;
+}
+
+export default function EndorsePage() {
+  const params = useParams();
+  const token = decodeURIComponent(String(params.token || ''));
+  const { isAuthenticated, hasBackendAccess, loading: authLoading } = useAuth();
+
+  const [info, setInfo] = useState<EndorsementRequestInfo | null>(null);
+  const [checking, setChecking] = useState(true);
+  const [statement, setStatement] = useState('');
+  const [stars, setStars] = useState(5);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [done, setDone] = useState(false);
+
+  const returnToQuery = `?returnTo=${encodeURIComponent(`/endorse/${token}`)}`;
+  const ownerName = info?.ownerName || 'this student';
+
+  // Re-checked after sign-in, since isOwner and alreadyEndorsed depend on who is asking
+  useEffect(() => {
+    if (authLoading) return;
+    fetch(`/api/endorsements/requests?token=${encodeURIComponent(token)}`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+        setInfo(data);
+      })
+      .catch(err => setError(err.message || 'This endorsement link is invalid or has expired.'))
+      .finally(() => setChecking(false));
+  }, [token, authLoading, isAuthenticated]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const problem = validateEndorsement(statement, stars);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch('/api/endorsements', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, statement, stars }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Endorsement failed');
+
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Endorsement failed. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * What the visitor can do next: sign in, connect LinkedTrust, or endorse
+   *
+   * @function renderAction
+   * @returns {JSX.Element} Call to action for the current visitor
+   */
+  const renderAction = () => {
+    if (done || info?.alreadyEndorsed) {
+      return (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-800 text-sm">
+          ✅ Thank you! Your endorsement is recorded on LinkedTrust and shown under this achievement.
+        </div>
+      );
+    }
+
+    if (info?.isOwner) {
+      return (
+        <div className="p-4 bg-indigo-50 border border-indigo-200 rounded-lg text-indigo-900 text-sm">
+          This is your achievement. Send this page&apos;s link to people who can vouch for it.
+        </div>
+      );
+    }
+
+    if (!isAuthenticated) {
+      return (
+        <div className="space-y-3">
+          <p className="text-gray-600">
+            Sign in to endorse {ownerName}&apos;s achievement. Endorsements are signed with your LinkedTrust account.
+          </p>
+          <Link
+            href={`/login${returnToQuery}`}
+            className="block text-center w-full bg-indigo-600 text-white py-3 px-6 rounded-lg font-semibold hover:bg-indigo-700 transition"
+          >
+            Sign In to Endorse
+          </Link>
+          <p className="text-center text-sm text-gray-600">
+            New to TrustFolio?{' '}
+            <Link href={`/register${returnToQuery}`} className="text-indigo-600 hover:text-indigo-800 font-semibold">
+              Create an account
+            </Link>
+          </p>
+        </div>
+      );
+    }
+
+    if (!hasBackendAccess) {
+      return (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800 text-sm">
+          Endorsements are recorded on LinkedTrust. Link a LinkedTrust account in{' '}
+          <Link href="/settings" className="underline font-semibold">Settings</Link> to endorse this achievement.
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Your Endorsement
+          </label>
+          <textarea
+            value={statement}
+            onChange={(e) => setStatement(e.target.value)}
+            required
+            rows={4}
+            minLength={ENDORSEMENT_MIN_LENGTH}
+            maxLength={ENDORSEMENT_MAX_LENGTH}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            placeholder={`How do you know about ${ownerName}'s work, and what stood out?`}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            {statement.trim().length}/{ENDORSEMENT_MAX_LENGTH} characters
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Rating: {stars} / 5
+          </label>
+          <input
+            type="range"
+            min={1}
+            max={5}
+            value={stars}
+            onChange={(e) => setStars(Number(e.target.value))}
+            className="w-full"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full bg-indigo-600 text-white py-3 px-6 rounded-lg font-semibold hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition"
+        >
+          {loading ? 'Endorsing...' : 'Endorse Achievement'}
+        </button>
+      </form>
+    );
+  };
+
+  return (
+    <main className="min-h-screen flex items-center justify-center p-8 bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="w-full max-w-xl">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            🎓 TrustFolio
+          </h1>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">
+            🤝 Endorse an Achievement
+          </h2>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          {checking && <p className="text-gray-600">Checking your endorsement link...</p>}
+
+          {!checking && info && (
+            <>
+              <p className="text-gray-600 mb-4">
+                {info.ownerName ? <strong>{info.ownerName}</strong> : 'A TrustFolio student'} asked you to vouch for:
+              </p>
+
+              {/* The achievement being endorsed */}
+              <div className="flex items-start gap-4 bg-gray-50 rounded-lg p-4 mb-6">
+                <div className="text-3xl">{getCategoryEmoji(info.claim.aspect)}</div>
+                <div className="flex-1">
+                  <div className="flex justify-between items-start mb-1">
+                    <h3 className="text-lg font-bold text-gray-900 capitalize">{info.claim.aspect || 'Project'}</h3>
+                    <Stars stars={info.claim.stars} />
+                  </div>
+                  <p className="text-gray-700">{info.claim.statement}</p>
+                  {info.claim.effectiveDate && (
+                    <p className="text-sm text-gray-500 mt-2">
+                      📅 {new Date(info.claim.effectiveDate).toLocaleDateString()}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {renderAction()}
+            </>
+          )}
+
+          <div className="mt-6 text-center">
+            <Link href="/" className="text-sm text-gray-500 hover:text-gray-700">
+              ← TrustFolio Home
+            </Link>
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -1,22 +1,110 @@
-'use client'
+'use client';
 
-import Link from 'next/link'
+import { useState } from 'react';
+import Link from 'next/link';
 
 export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [sent, setSent] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/forgot-password', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Could not send the reset email');
+
+      setSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not send the reset email. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
-    <div className="min-h-screen flex items-center justify-center p-8">
-      <div className="bg-white p-8 rounded-lg shadow-lg max-w-md w-full">
-        <h1 className="text-2xl font-bold mb-4">Forgot Password</h1>
-        <p className="mb-6">Choose an option:</p>
-        
-        <Link href="/login" className="block bg-blue-600 text-white px-4 py-2 rounded mb-4 text-center">
-          Sign in with Google
-        </Link>
-        
-        <a href="mailto:support@linkedtrust.us" className="block text-blue-600 text-center">
-          Contact Support
-        </a>
+    <main className="min-h-screen flex items-center justify-center p-8 bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            🎓 TrustFolio
+          </h1>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">
+            Forgot Password
+          </h2>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          {sent ? (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-800 text-sm">
+              If an account exists for <strong>{email}</strong>, we&apos;ve sent a link to reset its password.
+              The link expires in 30 minutes.
+            </div>
+          ) : (
+            <>
+              <p className="text-gray-600 mb-6">
+                Enter the email you registered with and we&apos;ll send you a link to choose a new password.
+              </p>
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Email
+                  </label>
+                  <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    placeholder="you@example.com"
+                  />
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full bg-indigo-600 text-white py-3 px-6 rounded-lg font-semibold hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition"
+                >
+                  {loading ? 'Sending...' : 'Send Reset Link'}
+                </button>
+              </form>
+            </>
+          )}
+
+          <p className="mt-6 text-sm text-gray-500 text-center">
+            Signed up with Google or GitHub? Just{' '}
+            <Link href="/login" className="text-indigo-600 hover:text-indigo-800">
+              sign in with it
+            </Link>{' '}
+            - there&apos;s no TrustFolio password to reset.
+          </p>
+
+          <div className="mt-6 text-center">
+            <Link href="/login" className="text-sm text-gray-500 hover:text-gray-700">
+              ← Back to Sign In
+            </Link>
+          </div>
+        </div>
       </div>
-    </div>
-  )
-}
\ No newline at end of file
+    </main>
+  );
+}
@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { appBaseUrl } from "@/lib/app-url";
 import "./globals.css";
 import { Providers } from "./providers";
 
@@ -14,6 +15,8 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
+  // Resolves relative canonical/Open Graph URLs (e.g. on public profiles)
+  metadataBase: new URL(appBaseUrl()),
   title: "TrustFolio - Student Achievement Portfolio",
   description: "Build your verifiable achievement portfolio with LinkedClaims",
 };
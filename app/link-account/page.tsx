@@ -0,0 +1,135 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { signIn } from 'next-auth/react';
+
+const PROVIDER_NAMES: { [key: string]: string } = {
+  google: 'Google',
+  github: 'GitHub',
+};
+
+function LinkAccountForm() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [email, setEmail] = useState('');
+  const [provider, setProvider] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/auth/link?token=${encodeURIComponent(token)}`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+        setEmail(data.email);
+        setProvider(data.provider);
+      })
+      .catch(err => setError(err.message || 'This link is invalid.'));
+  }, [token]);
+
+  const providerName = PROVIDER_NAMES[provider] || provider;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/link', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, password }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Linking failed');
+
+      // Sign in again - the callback now resolves the provider identity to the linked account
+      await signIn(provider, { callbackUrl: '/portfolio' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Linking failed. Please try again.');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8">
+      <h2 className="text-2xl font-bold text-gray-900 mb-4">
+        Link Your Account
+      </h2>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      {email && (
+        <>
+          <p className="text-gray-600 mb-6">
+            A TrustFolio account already exists for <strong>{email}</strong>.
+            Enter its password once to connect your {providerName} sign-in to it.
+            Afterwards you can use either to access the same achievements.
+          </p>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Password
+              </label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                placeholder="••••••••"
+              />
+              <div className="text-right mt-2">
+                <Link href="/forgot-password" className="text-sm text-indigo-600 hover:text-indigo-800">
+                  Forgot password?
+                </Link>
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full bg-indigo-600 text-white py-3 px-6 rounded-lg font-semibold hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition"
+            >
+              {loading ? 'Linking...' : `Link ${providerName} Account`}
+            </button>
+          </form>
+        </>
+      )}
+
+      <div className="mt-6 text-center">
+        <Link href="/login" className="text-sm text-gray-500 hover:text-gray-700">
+          ← Back to Sign In
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+export default function LinkAccountPage() {
+  return (
+    <main className="min-h-screen flex items-center justify-center p-8 bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            🎓 TrustFolio
+          </h1>
+        </div>
+
+        <Suspense fallback={<p className="text-center text-gray-600">Loading...</p>}>
+          <LinkAccountForm />
+        </Suspense>
+      </div>
+    </main>
+  );
+}
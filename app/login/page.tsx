@@ -1,13 +1,19 @@
 'use client';
 
-import { useState } from 'react';
+import { Suspense, useState } from 'react';
 import Link from 'next/link';
-import { useAuth } from '@/lib/auth-context';
+import { useSearchParams } from 'next/navigation';
+import { safeReturnTo, useAuth } from '@/lib/auth-context';
 import { signIn, useSession } from "next-auth/react";
 
-export default function LoginPage() {
+function LoginForm() {
   const { login } = useAuth();
   const { data: session } = useSession();
+  const searchParams = useSearchParams();
+  // Where to go after signing in, e.g. the page whose session expired
+  const returnTo = safeReturnTo(searchParams.get('returnTo'));
+  const returnToQuery = searchParams.get('returnTo') ? `?returnTo=${encodeURIComponent(returnTo)}` : '';
+  const sessionExpired = searchParams.get('expired') === '1';
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
@@ -19,7 +25,7 @@ export default function LoginPage() {
     setLoading(true);
 
     try {
-      await login(email, password);
+      await login(email, password, returnTo);
       // Router will redirect to /portfolio in auth context
     } catch (err: any) {
       setError(err.message || 'Login failed. Please check your credentials.');
@@ -30,7 +36,7 @@ export default function LoginPage() {
 
   const handleGoogleSignIn = async () => {
     try {
-      await signIn('google', { callbackUrl: '/portfolio' });
+      await signIn('google', { callbackUrl: returnTo });
     } catch (err: any) {
       setError('Google sign-in failed. Please try again.');
     }
@@ -53,6 +59,12 @@ export default function LoginPage() {
             Sign In
           </h2>
 
+          {sessionExpired && !error && (
+            <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800 text-sm">
+              Your session has expired. Please sign in again to continue.
+            </div>
+          )}
+
           {error && (
             <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
               {error}
@@ -138,7 +150,7 @@ export default function LoginPage() {
           </button>
 
           <button
-            onClick={() => signIn('github', { callbackUrl: '/portfolio' })}
+            onClick={() => signIn('github', { callbackUrl: returnTo })}
             className="w-full flex items-center justify-center gap-3 bg-gray-900 text-white py-3 px-6 rounded-lg font-semibold hover:bg-gray-800 transition"
 >
             <svg className="w-5 h-5 fill-current" viewBox="0 0 24 24">
@@ -150,7 +162,7 @@ export default function LoginPage() {
           <div className="mt-6 text-center">
             <p className="text-sm text-gray-600">
               Don't have an account?{' '}
-              <Link href="/register" className="text-indigo-600 hover:text-indigo-800 font-semibold">
+              <Link href={`/register${returnToQuery}`} className="text-indigo-600 hover:text-indigo-800 font-semibold">
                 Sign up
               </Link>
             </p>
@@ -169,4 +181,12 @@ export default function LoginPage() {
       </div>
     </main>
   );
-}
\ No newline at end of file
+}
+
+export default function LoginPage() {
+  return (
+    <Suspense fallback={null}>
+      <LoginForm />
+    </Suspense>
+  );
+}
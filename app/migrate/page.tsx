@@ -0,0 +1,249 @@
+/**
+ * Local Mode Migration Page Component
+ *
+ * Lets a newly signed-in user move achievements created in Local Mode
+ * (browser storage) onto the LinkedTrust backend.
+ *
+ * Features:
+ * - Preview of every unsynced local achievement
+ * - Duplicate detection against existing backend claims (statement/date/category)
+ * - Select which achievements to upload
+ * - Remembers migrated/skipped achievements so they aren't offered again
+ *
+ * @component
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/auth-context';
+import { createSessionClient } from '@/lib/linkedtrust-client';
+import {
+  MigrationCandidate,
+  findMigrationCandidates,
+  migrateLocalClaims,
+  recordMigrations,
+} from '@/lib/local-migration';
+import { useClaimOutbox } from '@/lib/use-claim-outbox';
+
+export default function MigratePage() {
+  const router = useRouter();
+  const { user, hasBackendAccess } = useAuth();
+  // Creates already waiting in the outbox (anyone's) will sync on their own
+  const { queuedCreateIds: queuedIds } = useClaimOutbox();
+
+  const [candidates, setCandidates] = useState<MigrationCandidate[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState('');
+
+  const issuerId = user?.issuerId || user?.id;
+  const hasBackendToken = hasBackendAccess;
+
+  /**
+   * Load backend claims and work out which local claims still need migrating
+   *
+   * Duplicates are listed but not pre-selected.
+   */
+  const loadCandidates = useCallback(async () => {
+    if (!hasBackendToken || !issuerId) return;
+
+    try {
+      const backendClaims = await createSessionClient().getClaimsByIssuer(issuerId);
+      const found = findMigrationCandidates(issuerId, backendClaims, queuedIds);
+      setCandidates(found);
+      setSelected(new Set(found.filter(c => !c.duplicateOf).map(c => c.claim.id)));
+    } catch (err) {
+      console.error('Error loading migration preview:', err);
+      setError('Could not reach LinkedTrust to check for duplicates. Please try again later.');
+    } finally {
+      setLoading(false);
+    }
+  }, [hasBackendToken, issuerId, queuedIds]);
+
+  useEffect(() => {
+    loadCandidates();
+  }, [loadCandidates]);
+
+  const toggle = (claimId: number) => {
+    const next = new Set(selected);
+    if (next.has(claimId)) {
+      next.delete(claimId);
+    } else {
+      next.add(claimId);
+    }
+    setSelected(next);
+  };
+
+  /**
+   * Upload the selected achievements
+   *
+   * Unselected duplicates are recorded too, so they won't be offered again.
+   * Failed uploads stay in the list for another attempt.
+   */
+  const uploadSelected = async () => {
+    if (!issuerId || !hasBackendAccess) return;
+    setUploading(true);
+    setError('');
+
+    try {
+      const toUpload = candidates.filter(c => selected.has(c.claim.id)).map(c => c.claim);
+      const result = await migrateLocalClaims(createSessionClient(), issuerId, toUpload);
+
+      recordMigrations(
+        candidates
+          .filter(c => c.duplicateOf && !selected.has(c.claim.id))
+          .map(c => ({
+            localId: c.claim.id,
+            issuerId,
+            outcome: 'duplicate' as const,
+            backendId: c.duplicateOf?.id,
+            migratedAt: new Date().toISOString(),
+          }))
+      );
+
+      if (result.failed.length > 0) {
+        setError(`${result.failed.length} achievement(s) failed to upload: ${result.failed[0].error}`);
+        await loadCandidates();
+        return;
+      }
+
+      alert(`✅ Uploaded ${result.records.length} achievement(s) to LinkedTrust!`);
+      router.push('/portfolio');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  /**
+   * Stop offering these achievements for migration
+   */
+  const skipAll = () => {
+    if (!issuerId) return;
+    if (!confirm('Keep these achievements in Local Mode only? You won\'t be asked about them again.')) return;
+
+    recordMigrations(
+      candidates.map(c => ({
+        localId: c.claim.id,
+        issuerId,
+        outcome: c.duplicateOf ? 'duplicate' as const : 'skipped' as const,
+        backendId: c.duplicateOf?.id,
+        migratedAt: new Date().toISOString(),
+      }))
+    );
+    router.push('/portfolio');
+  };
+
+  if (!hasBackendToken || !issuerId) {
+    return (
+      <main className="min-h-screen p-8 bg-gradient-to-br from-blue-50 to-indigo-100">
+        <div className="max-w-2xl mx-auto text-center py-20">
+          <div className="text-4xl mb-4">🔐</div>
+          <p className="text-xl text-gray-600 mb-6">Sign in to upload your local achievements to LinkedTrust.</p>
+          <Link href="/login" className="bg-indigo-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-indigo-700 transition">
+            Sign In
+          </Link>
+        </div>
+      </main>
+    );
+  }
+
+  if (loading) {
+    return (
+      <main className="min-h-screen p-8 bg-gradient-to-br from-blue-50 to-indigo-100">
+        <div className="max-w-2xl mx-auto text-center py-20">
+          <div className="text-4xl mb-4">⏳</div>
+          <p className="text-xl text-gray-600">Checking your local achievements...</p>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen p-8 bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="max-w-3xl mx-auto">
+        <Link href="/portfolio" className="text-indigo-600 hover:text-indigo-800 mb-4 inline-block">
+          ← Back to Portfolio
+        </Link>
+
+        <div className="bg-white rounded-xl shadow-lg p-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">📦 Upload Local Achievements</h1>
+          <p className="text-gray-600 mb-6">
+            These achievements were saved in your browser before you signed in.
+            Choose which ones to add to your LinkedTrust portfolio.
+          </p>
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+              {error}
+            </div>
+          )}
+
+          {candidates.length === 0 ? (
+            <div className="text-center py-10">
+              <div className="text-5xl mb-4">✅</div>
+              <p className="text-gray-700 mb-6">Everything is already on LinkedTrust.</p>
+              <Link href="/portfolio" className="bg-indigo-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-indigo-700 transition">
+                Go to Portfolio
+              </Link>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-3 mb-6">
+                {candidates.map(({ claim, duplicateOf }) => (
+                  <label
+                    key={claim.id}
+                    className={`flex items-start gap-4 p-4 border rounded-lg cursor-pointer transition ${
+                      selected.has(claim.id) ? 'border-indigo-300 bg-indigo-50' : 'border-gray-200'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.has(claim.id)}
+                      onChange={() => toggle(claim.id)}
+                      className="mt-1"
+                    />
+                    <div className="flex-1">
+                      <div className="flex justify-between items-start mb-1">
+                        <span className="font-semibold text-gray-900 capitalize">{claim.aspect || 'project'}</span>
+                        <span className="text-sm text-gray-500">
+                          {'⭐'.repeat(claim.stars || 0)} {claim.effectiveDate && new Date(claim.effectiveDate).toLocaleDateString()}
+                        </span>
+                      </div>
+                      <p className="text-gray-700 text-sm">{claim.statement}</p>
+                      {duplicateOf && (
+                        <p className="text-xs text-orange-700 mt-2">
+                          ⚠️ Looks like a duplicate of an achievement already on LinkedTrust
+                        </p>
+                      )}
+                    </div>
+                  </label>
+                ))}
+              </div>
+
+              <div className="flex gap-4">
+                <button
+                  onClick={uploadSelected}
+                  disabled={uploading || selected.size === 0}
+                  className="flex-1 bg-indigo-600 text-white py-3 px-6 rounded-lg font-semibold hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition"
+                >
+                  {uploading ? 'Uploading...' : `☁️ Upload ${selected.size} Selected`}
+                </button>
+                <button
+                  onClick={skipAll}
+                  disabled={uploading}
+                  className="flex-1 bg-gray-200 text-gray-700 py-3 px-6 rounded-lg font-semibold hover:bg-gray-300 transition"
+                >
+                  Keep Local Only
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,30 @@
+import { notFound } from 'next/navigation';
+import { OG_IMAGE_CONTENT_TYPE, OG_IMAGE_SIZE, renderOgImage } from '@/lib/og-image';
+import { calculatePortfolioStats } from '@/lib/portfolio-stats';
+import { displayNameFor, loadPublicClaims, loadPublicProfile } from '@/lib/public-portfolio';
+
+export const alt = 'TrustFolio portfolio';
+export const size = OG_IMAGE_SIZE;
+export const contentType = OG_IMAGE_CONTENT_TYPE;
+
+// Link preview for /p/[username]: name plus the stats from the page's Quick Stats
+export default async function Image({ params }: { params: Promise<{ username: string }> }) {
+  const { username } = await params;
+  const resolved = await loadPublicProfile(username);
+  if (!resolved) notFound();
+
+  const claims = (await loadPublicClaims(resolved.profile)) || [];
+  const stats = calculatePortfolioStats(claims, 3);
+
+  return renderOgImage({
+    eyebrow: 'Verified achievement portfolio',
+    title: `${displayNameFor(resolved.profile)}'s Portfolio`,
+    stats: claims.length > 0
+      ? [
+          { label: stats.totalAchievements === 1 ? 'Achievement' : 'Achievements', value: String(stats.totalAchievements) },
+          { label: 'Avg rating', value: `${stats.averageRating} / 5` },
+          { label: 'Top category', value: stats.topCategory },
+        ]
+      : [{ label: 'Achievements', value: '0' }],
+  });
+}
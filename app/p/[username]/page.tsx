@@ -1,239 +1,135 @@
 /**
  * Public Portfolio Page Component
- * 
+ *
  * Public-facing view of user portfolios accessible via /p/[username].
- * This page displays achievements in a read-only format for sharing.
- * 
+ * Rendered on the server: the username is resolved to a LinkedTrust issuer
+ * through the username registry and that issuer's claims are fetched from
+ * LinkedTrust, so shared links show the same portfolio to every visitor.
+ *
  * Features:
- * - View-only achievement display
+ * - View-only achievement display (public achievements only)
+ * - Each achievement links to its permalink page (/c/[claimId])
+ * - "Validated by" badges and endorsements from other people under each achievement
+ * - Trust score with its breakdown next to each star rating
+ * - Evidence (files and link previews) under each achievement
  * - Public stats dashboard
  * - No edit/delete capabilities (public view)
  * - "Create Your Own Portfolio" CTA
+ * - Schema.org JSON-LD describing the person and each achievement
+ * - Page title/description metadata and a generated Open Graph image
+ *   (opengraph-image.tsx) for link previews
+ * - 404 for unknown usernames
+ * - Permanent redirect from a user's previous usernames
  * - Shareable URL format: /p/username
- * 
+ *
  * @component
  * @author Dana Martinez
  * @since December 2025
  */
 
-'use client';
-
-import { useEffect, useState } from 'react';
-import { useParams } from 'next/navigation';
+import type { Metadata } from 'next';
 import Link from 'next/link';
-import { getLocalClaims } from '@/lib/linkedclaims';
+import { notFound, permanentRedirect } from 'next/navigation';
+import AchievementCard from '@/components/AchievementCard';
+import EndorsementList from '@/components/EndorsementList';
+import EvidenceList from '@/components/EvidenceList';
+import ValidationBadges from '@/components/ValidationBadges';
+import { appBaseUrl } from '@/lib/app-url';
+import { getEvidenceForClaims } from '@/lib/claim-evidence';
+import { getTrustScores } from '@/lib/claim-graph';
+import { getEndorsementsForClaims } from '@/lib/endorsements';
+import { getConfirmedValidationsForClaims } from '@/lib/validations';
+import { buildPortfolioJsonLd, serializeJsonLd } from '@/lib/json-ld';
+import { calculatePortfolioStats, getCategoryEmoji } from '@/lib/portfolio-stats';
+import { displayNameFor, loadPublicClaims, loadPublicProfile } from '@/lib/public-portfolio';
+import { Profile } from '@/lib/usernames';
+
+type PageProps = { params: Promise<{ username: string }> };
 
 /**
- * Achievement/Claim data structure
- * 
- * @interface Claim
- * @property {number} id - Unique identifier
- * @property {string} subject - Subject of the claim
- * @property {string} claim - Claim type
- * @property {string} statement - Achievement description
- * @property {number} [stars] - Rating (1-5 stars)
- * @property {string} [aspect] - Category type
- * @property {string} [effectiveDate] - Date earned
- * @property {string} [howKnown] - Verification method
- * @property {string} [createdAt] - Creation timestamp
+ * Resolve the URL's username to a profile
+ *
+ * Old usernames redirect permanently to the current one so shared links keep
+ * working; unknown usernames 404.
  */
-interface Claim {
-  id: number;
-  subject: string;
-  claim: string;
-  statement: string;
-  stars?: number;
-  aspect?: string;
-  effectiveDate?: string;
-  howKnown?: string;
-  createdAt?: string;
+async function loadProfile(params: PageProps['params']): Promise<Profile> {
+  const { username } = await params;
+  const resolved = await loadPublicProfile(username);
+  if (!resolved) notFound();
+  if (resolved.redirectTo) permanentRedirect(`/p/${resolved.redirectTo}`);
+  return resolved.profile;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const profile = await loadProfile(params);
+  const claims = await loadPublicClaims(profile);
+  const name = displayNameFor(profile);
+
+  // Link previews lead with the same stats the page shows
+  let description = `Achievements, skills and projects of ${name}, verified on LinkedTrust.`;
+  if (claims && claims.length > 0) {
+    const stats = calculatePortfolioStats(claims, 3);
+    description = `${stats.totalAchievements} verified achievement${stats.totalAchievements !== 1 ? 's' : ''}`
+      + ` • ${stats.averageRating} avg rating • Top category: ${stats.topCategory}. ${description}`;
+  }
+
+  return {
+    title: `${name}'s Portfolio | TrustFolio`,
+    description,
+    alternates: { canonical: `/p/${profile.username}` },
+    openGraph: {
+      title: `${name}'s Portfolio`,
+      description,
+      type: 'profile',
+      url: `/p/${profile.username}`,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: `${name}'s Portfolio`,
+      description,
+    },
+  };
 }
 
 /**
  * Public Portfolio Page Component
- * 
+ *
  * Displays a user's portfolio publicly based on username from URL parameter.
- * Username is extracted from email (part before @).
- * 
+ *
  * Example URLs:
- * - /p/dana (for dana@example.com)
- * - /p/john (for john@example.com)
- * 
+ * - /p/dana
+ * - /p/john
+ *
  * @returns {JSX.Element} Public portfolio page
  */
-export default function PublicPortfolioPage() {
-  // Extract username from URL parameters
-  const params = useParams();
-  const username = params.username as string;
-  
-  // State management
-  const [claims, setClaims] = useState<Claim[]>([]);      // User's achievements
-  const [loading, setLoading] = useState(true);            // Loading state
-  const [userDisplayName, setUserDisplayName] = useState(''); // Formatted display name
-
-  /**
-   * Load public portfolio data when component mounts or username changes
-   */
-  useEffect(() => {
-    loadPublicPortfolio();
-  }, [username]);
-
-  /**
-   * Load public portfolio achievements
-   * 
-   * Currently loads from localStorage. In a production app, this would:
-   * 1. Make an API call to fetch user's public achievements
-   * 2. Filter by username parameter
-   * 3. Return only publicly visible achievements
-   * 
-   * @async
-   * @function loadPublicPortfolio
-   * @returns {Promise<void>}
-   */
-  const loadPublicPortfolio = async () => {
-    setLoading(true);
-    
-    try {
-      // For demo purposes, use localStorage
-      // TODO: In production, fetch from public API endpoint
-      const localClaims = getLocalClaims();
-      setClaims(localClaims);
-      
-      // Format username for display (capitalize first letter)
-      setUserDisplayName(username.charAt(0).toUpperCase() + username.slice(1));
-    } catch (error) {
-      console.error('Error loading public portfolio:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  /**
-   * Render star rating display
-   * 
-   * Shows filled stars for rating value, gray stars for remainder.
-   * Returns null if no rating provided.
-   * 
-   * @function renderStars
-   * @param {number} [stars] - Rating value (1-5)
-   * @returns {JSX.Element|null} Star rating component or null
-   */
-  const renderStars = (stars?: number) => {
-    if (!stars) return null;
-    return (
-      <div className="flex gap-1">
-        {[1, 2, 3, 4, 5].map((star) => (
-          <span key={star} className={star <= stars ? 'text-yellow-400' : 'text-gray-300'}>
-            ⭐
-          </span>
-        ))}
-      </div>
-    );
-  };
-
-  /**
-   * Get appropriate emoji for achievement aspect/category
-   * 
-   * Returns tech-specific emojis based on achievement type.
-   * Used for visual categorization of achievements.
-   * 
-   * @function getClaimEmoji
-   * @param {string} [aspect] - Achievement category/type
-   * @returns {string} Emoji character
-   */
-  const getClaimEmoji = (aspect?: string) => {
-    if (!aspect) return '🚀';
-    const lower = aspect.toLowerCase();
-    
-    // Technology-specific emojis
-    if (lower.includes('typescript') || lower.includes('javascript')) return '💻';
-    if (lower.includes('react') || lower.includes('next')) return '⚛️';
-    if (lower.includes('python')) return '🐍';
-    if (lower.includes('design')) return '🎨';
-    if (lower.includes('ai') || lower.includes('ml')) return '🤖';
-    
-    return '🚀';
-  };
-
-  /**
-   * Calculate analytics from achievements
-   * 
-   * Computes:
-   * - Total achievement count
-   * - Average rating across all achievements
-   * - Top 3 categories by count
-   * 
-   * @function calculateAnalytics
-   * @returns {Object} Analytics object with computed stats
-   */
-  const calculateAnalytics = () => {
-    const totalAchievements = claims.length;
-    
-    // Calculate average rating
-    const averageRating = claims.length > 0
-      ? (claims.reduce((sum, claim) => sum + (claim.stars || 0), 0) / claims.length).toFixed(1)
-      : '0.0';
-    
-    // Count achievements by category
-    const categoryBreakdown: { [key: string]: number } = {};
-    claims.forEach(claim => {
-      const category = claim.aspect || 'project';
-      categoryBreakdown[category] = (categoryBreakdown[category] || 0) + 1;
-    });
-    
-    // Get top 3 categories sorted by count
-    const sortedCategories = Object.entries(categoryBreakdown)
-      .sort(([, a], [, b]) => b - a)
-      .slice(0, 3);
-    
-    return {
-      totalAchievements,
-      averageRating,
-      categoryBreakdown: sortedCategories,
-    };
-  };
-
-  /**
-   * Get emoji for achievement category
-   * 
-   * Maps standard achievement categories to emojis for display.
-   * 
-   * @function getCategoryEmoji
-   * @param {string} category - Achievement category name
-   * @returns {string} Emoji character
-   */
-  const getCategoryEmoji = (category: string) => {
-    const emojiMap: { [key: string]: string } = {
-      'project': '📁',
-      'skill': '💡',
-      'certification': '🎓',
-      'course': '📚',
-      'award': '🏆',
-      'publication': '📝',
-      'volunteer': '❤️',
-      'hackathon': '💻',
-      'research': '🔬',
-      'presentation': '🎤',
-    };
-    return emojiMap[category] || '🚀';
-  };
-
-  // Show loading state
-  if (loading) {
-    return (
-      <main className="min-h-screen p-8 bg-gradient-to-br from-blue-50 to-indigo-100">
-        <div className="max-w-4xl mx-auto text-center py-20">
-          <div className="text-4xl mb-4">⏳</div>
-          <p className="text-xl text-gray-600">Loading portfolio...</p>
-        </div>
-      </main>
-    );
-  }
-
-  const analytics = calculateAnalytics();
+export default async function PublicPortfolioPage({ params }: PageProps) {
+  const profile = await loadProfile(params);
+  const loadedClaims = await loadPublicClaims(profile);
+  const claims = loadedClaims || [];
+  const claimIds = claims.map(claim => claim.id);
+  const [evidence, endorsements, validations, trustScores] = await Promise.all([
+    getEvidenceForClaims(claimIds),
+    getEndorsementsForClaims(claimIds),
+    getConfirmedValidationsForClaims(claimIds),
+    getTrustScores(claimIds, profile.issuerId),
+  ]);
+  const userDisplayName = displayNameFor(profile);
+  const analytics = calculatePortfolioStats(claims, 3);
+
+  // Structured data for search engines; JSON-LD needs absolute URLs, from the same base as metadataBase
+  const siteUrl = appBaseUrl();
+  const jsonLd = buildPortfolioJsonLd(
+    { name: userDisplayName, url: `${siteUrl}/p/${profile.username}` },
+    claims,
+    siteUrl
+  );
 
   return (
     <main className="min-h-screen p-8 bg-gradient-to-br from-blue-50 to-indigo-100">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: serializeJsonLd(jsonLd) }}
+      />
       <div className="max-w-4xl mx-auto">
         {/* Portfolio Header */}
         <div className="mb-8 text-center">
@@ -241,15 +137,15 @@ export default function PublicPortfolioPage() {
           <div className="inline-block bg-white rounded-full p-6 shadow-lg mb-4">
             <div className="text-6xl">👤</div>
           </div>
-          
+
           {/* User Name and Stats */}
           <h1 className="text-4xl font-bold text-gray-900 mb-2">
-            {userDisplayName}'s Portfolio
+            {userDisplayName}&apos;s Portfolio
           </h1>
           <p className="text-gray-600 mb-4">
             {claims.length} achievement{claims.length !== 1 ? 's' : ''} • ⭐ {analytics.averageRating} avg rating
           </p>
-          
+
           {/* CTA Button */}
           <div className="flex gap-3 justify-center">
             <Link
@@ -272,22 +168,18 @@ export default function PublicPortfolioPage() {
                 <div className="text-2xl font-bold text-indigo-900">{analytics.totalAchievements}</div>
                 <div className="text-sm text-indigo-700">Achievements</div>
               </div>
-              
+
               {/* Average Rating */}
               <div className="bg-gradient-to-br from-yellow-50 to-yellow-100 p-4 rounded-lg text-center">
                 <div className="text-3xl mb-2">⭐</div>
                 <div className="text-2xl font-bold text-yellow-900">{analytics.averageRating}</div>
                 <div className="text-sm text-yellow-700">Avg Rating</div>
               </div>
-              
+
               {/* Top Category */}
               <div className="bg-gradient-to-br from-green-50 to-green-100 p-4 rounded-lg text-center">
-                <div className="text-3xl mb-2">
-                  {analytics.categoryBreakdown.length > 0 && getCategoryEmoji(analytics.categoryBreakdown[0][0])}
-                </div>
-                <div className="text-2xl font-bold text-green-900 capitalize">
-                  {analytics.categoryBreakdown.length > 0 ? analytics.categoryBreakdown[0][0] : 'N/A'}
-                </div>
+                <div className="text-3xl mb-2">{getCategoryEmoji(analytics.topCategory)}</div>
+                <div className="text-2xl font-bold text-green-900 capitalize">{analytics.topCategory}</div>
                 <div className="text-sm text-green-700">Top Category</div>
               </div>
             </div>
@@ -295,7 +187,18 @@ export default function PublicPortfolioPage() {
         )}
 
         {/* Achievements List */}
-        {claims.length === 0 ? (
+        {loadedClaims === null ? (
+          /* Backend unreachable */
+          <div className="text-center py-20 bg-white rounded-xl shadow-md">
+            <div className="text-6xl mb-4">📡</div>
+            <h2 className="text-2xl font-bold text-gray-700 mb-2">
+              Portfolio temporarily unavailable
+            </h2>
+            <p className="text-gray-600">
+              We couldn&apos;t reach LinkedTrust. Please try again in a few minutes.
+            </p>
+          </div>
+        ) : claims.length === 0 ? (
           /* Empty State - No achievements */
           <div className="text-center py-20 bg-white rounded-xl shadow-md">
             <div className="text-6xl mb-4">📭</div>
@@ -310,41 +213,11 @@ export default function PublicPortfolioPage() {
           /* Achievement Cards Grid */
           <div className="grid gap-6">
             {claims.map((claim) => (
-              <div
-                key={claim.id}
-                className="bg-white rounded-xl shadow-lg p-6 hover:shadow-xl transition-shadow"
-              >
-                <div className="flex items-start gap-4">
-                  {/* Achievement Icon */}
-                  <div className="text-4xl">{getClaimEmoji(claim.aspect)}</div>
-                  
-                  {/* Achievement Content */}
-                  <div className="flex-1">
-                    {/* Title and Rating */}
-                    <div className="flex justify-between items-start mb-2">
-                      <h3 className="text-xl font-bold text-gray-900 capitalize">
-                        {claim.aspect || 'Project'}
-                      </h3>
-                      {renderStars(claim.stars)}
-                    </div>
-                    
-                    {/* Description */}
-                    <p className="text-gray-700 mb-3">{claim.statement}</p>
-                    
-                    {/* Metadata Tags */}
-                    <div className="flex gap-4 text-sm text-gray-500">
-                      {claim.howKnown && (
-                        <span className="bg-gray-100 px-3 py-1 rounded-full">
-                          {claim.howKnown.replace('_', ' ')}
-                        </span>
-                      )}
-                      {claim.effectiveDate && (
-                        <span>📅 {new Date(claim.effectiveDate).toLocaleDateString()}</span>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              </div>
+              <AchievementCard key={claim.id} claim={claim} href={`/c/${claim.id}`} trustScore={trustScores[claim.id]}>
+                <EvidenceList evidence={evidence[claim.id]} />
+                <ValidationBadges validations={validations[claim.id]} />
+                <EndorsementList endorsements={endorsements[claim.id]} />
+              </AchievementCard>
             ))}
           </div>
         )}
@@ -8,10 +8,21 @@
  * - Analytics dashboard with statistics and visualizations
  * - Search functionality for finding specific achievements
  * - Category filtering (Project, Skill, Certification, etc.)
- * - Export achievements to JSON file
+ * - Export achievements to JSON file (private ones only on request)
  * - Import achievements from JSON file
  * - Public portfolio sharing with copy-to-clipboard
- * - Delete achievements with confirmation
+ * - Deleting moves achievements to a 30-day trash, with an undo toast
+ * - Trash view with bulk restore and permanent delete
+ * - Per-achievement visibility badge, with copy-link for link-only achievements
+ * - Links to the permalink page of each public achievement
+ * - Endorsement request links and received endorsements
+ * - Emailed validation requests, with "validated by" badges and validators' notes
+ * - Trust score with its breakdown next to each backend achievement's rating
+ * - Attached evidence (files and link previews)
+ * - Edited achievements listed once, under their latest version
+ * - Version history with diffs, and restoring an earlier version
+ * - Offline outbox with per-achievement sync status
+ * - Prompt to migrate Local Mode achievements after sign-in
  * - Supports both backend (LinkedTrust) and localStorage modes
  * 
  * @component
@@ -21,35 +32,70 @@
 
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import Link from 'next/link';
+import EndorsementList from '@/components/EndorsementList';
+import EvidenceList from '@/components/EvidenceList';
+import TrustScoreBadge from '@/components/TrustScoreBadge';
+import UndoToast from '@/components/UndoToast';
+import ValidationBadges from '@/components/ValidationBadges';
+import VersionHistory from '@/components/VersionHistory';
 import { useAuth } from '@/lib/auth-context';
-import { fetchClaimsByIssuer, getLocalClaims } from '@/lib/linkedclaims';
+import { Endorsement, isEndorsementClaim } from '@/lib/endorsement-policy';
+import { Evidence } from '@/lib/evidence';
+import {
+  LocalTrashEntry,
+  StoredClaim,
+  getLocalClaims,
+  getLocalTrash,
+  localClaimVersions,
+  purgeLocalTrash,
+  restoreClaimsLocal,
+  reviseStoredClaim,
+  saveLocalClaims,
+  trashClaimLocal,
+} from '@/lib/linkedclaims';
+import { Claim, createSessionClient, isLinkedTrustError } from '@/lib/linkedtrust-client';
+import {
+  cancelQueuedDelete,
+  discardQueuedCreate,
+  enqueueClaimOperation,
+  isRetryableError,
+  requeueCreate,
+  retryOutboxEntry,
+} from '@/lib/claim-outbox';
+import { useClaimOutbox } from '@/lib/use-claim-outbox';
+import { findMigrationCandidates } from '@/lib/local-migration';
+import { calculatePortfolioStats, getCategoryEmoji } from '@/lib/portfolio-stats';
+import { ClaimVersion, fetchClaimVersions, isRevisionConflict, reviseClaim, revisionOf } from '@/lib/revisions';
+import { TRASH_RETENTION_DAYS, daysUntilPurge, deleteFromTrash, moveToTrash, restoreFromTrash } from '@/lib/trash';
+import { NO_TRUST_EVIDENCE, TrustScore, computeTrustScore } from '@/lib/trust-score';
+import { VALIDATOR_ROLES, Validation, ValidatorRole } from '@/lib/validation-policy';
+import { ClaimVisibilityInfo, DEFAULT_VISIBILITY, fetchVisibility, visibilityLabel } from '@/lib/visibility';
+
+// Score of an achievement nobody has endorsed or validated yet
+const BASELINE_TRUST_SCORE = computeTrustScore(NO_TRUST_EVIDENCE);
 
 /**
- * Achievement/Claim data structure
- * 
- * @interface Claim
- * @property {number} id - Unique identifier for the claim
- * @property {string} subject - Subject of the claim (user ID)
- * @property {string} claim - Claim type/identifier
- * @property {string} statement - Description of the achievement
- * @property {number} [stars] - Rating from 1-5 stars (optional)
- * @property {string} [aspect] - Category/type of achievement (project, skill, etc.)
- * @property {string} [effectiveDate] - Date the achievement was earned
- * @property {string} [howKnown] - How the achievement was verified
- * @property {string} [createdAt] - Timestamp when created
+ * An achievement in the trash view. 'backend' ones are in TrustFolio's trash,
+ * 'queued' ones are waiting in the outbox to get there, and 'local' ones are
+ * in the browser's trash (Local Mode, or creates that never synced).
  */
-interface Claim {
-  id: number;
-  subject: string;
-  claim: string;
-  statement: string;
-  stars?: number;
-  aspect?: string;
-  effectiveDate?: string;
-  howKnown?: string;
-  createdAt?: string;
+interface TrashedAchievement {
+  claim: Claim;
+  deletedAt: string;
+  source: 'backend' | 'queued' | 'local';
+}
+
+// Owner-only records keyed by claim id (evidence, endorsements, validations, trust scores, edits, trash); empty when they can't be loaded
+async function fetchByClaim<T>(url: string, key: string): Promise<{ [claimId: string]: T }> {
+  try {
+    const response = await fetch(url);
+    return response.ok ? (await response.json())[key] : {};
+  } catch (error) {
+    console.error(`Error loading ${key}:`, error);
+    return {};
+  }
 }
 
 /**
@@ -61,49 +107,152 @@ interface Claim {
  * @returns {JSX.Element} Portfolio dashboard page
  */
 export default function PortfolioPage() {
-  // Authentication context - provides user info, token, and auth methods
-  const { user, token, logout, isAuthenticated } = useAuth();
+  // Authentication context - provides user info, backend access, and auth methods
+  const { user, hasBackendAccess, username, logout, isAuthenticated } = useAuth();
   
   // State management
-  const [claims, setClaims] = useState<Claim[]>([]);           // All achievements
+  const [loadedClaims, setClaims] = useState<Claim[]>([]);     // Achievements as loaded
   const [loading, setLoading] = useState(true);                 // Loading indicator
   const [error, setError] = useState('');                       // Error messages
   const [mode, setMode] = useState<'backend' | 'local'>('backend'); // Data source mode
   const [searchQuery, setSearchQuery] = useState('');           // Search filter
   const [categoryFilter, setCategoryFilter] = useState('all');  // Category filter
   const [sortBy, setSortBy] = useState('date-desc');            // Sort option
+  const [visibilityByClaim, setVisibilityByClaim] = useState<{ [claimId: string]: ClaimVisibilityInfo }>({});
+  const [evidenceByClaim, setEvidenceByClaim] = useState<{ [claimId: string]: Evidence[] }>({});
+  const [endorsementsByClaim, setEndorsementsByClaim] = useState<{ [claimId: string]: Endorsement[] }>({});
+  const [validationsByClaim, setValidationsByClaim] = useState<{ [claimId: string]: Validation[] }>({});
+  const [trustScores, setTrustScores] = useState<{ [claimId: string]: TrustScore }>({});
+  const [validationFormFor, setValidationFormFor] = useState<number | null>(null); // Card with the request form open
+  const [validatorEmail, setValidatorEmail] = useState('');
+  const [validatorRole, setValidatorRole] = useState<ValidatorRole>('instructor');
+  const [sendingValidation, setSendingValidation] = useState(false);
+  const [editedClaimIds, setEditedClaimIds] = useState<Set<number>>(new Set()); // Backend achievements with earlier versions
+  const [historyFor, setHistoryFor] = useState<number | null>(null);            // Card with the version history open
+  const [versions, setVersions] = useState<ClaimVersion[]>([]);
+  const [restoringVersion, setRestoringVersion] = useState(false);
+  const [trashedAt, setTrashedAt] = useState<{ [claimId: string]: string }>({}); // When each trashed backend achievement was deleted
+  const [localTrash, setLocalTrash] = useState<LocalTrashEntry[]>([]);
+  const [showTrash, setShowTrash] = useState(false);
+  const [selectedTrash, setSelectedTrash] = useState<Set<number>>(new Set());
+  const [updatingTrash, setUpdatingTrash] = useState(false);
+  const [undo, setUndo] = useState<{ key: number; claimIds: number[] } | null>(null); // Last delete, while it can be undone
+
+  // Offline outbox - reload quietly whenever a queued write reaches the backend
+  const { entries, queuedCreateIds, entryFor } = useClaimOutbox({ onSynced: () => loadClaims(true) });
 
   /**
-   * Load achievements on component mount and when token changes
+   * Achievements to display, with queued outbox writes applied
+   *
+   * In backend mode, claims created offline are merged in from localStorage,
+   * queued edits are shown with their new values, and trashed achievements and
+   * queued deletes are hidden (unless the delete failed, so the user can see
+   * and retry it).
    */
-  useEffect(() => {
-    loadClaims();
-  }, [token]);
+  const claims = useMemo(() => {
+    if (mode !== 'backend') return loadedClaims;
+
+    const queuedCreateIds = new Set(
+      entries.flatMap(entry => (entry.op.kind === 'create' ? [entry.op.localId] : []))
+    );
+    const queuedClaims: Claim[] = getLocalClaims().filter(claim => queuedCreateIds.has(claim.id));
+    const queuedDeleteIds = new Set(
+      entries.flatMap(entry => (entry.op.kind === 'delete' && entry.status !== 'failed' ? [entry.op.claimId] : []))
+    );
+
+    const backendClaims = loadedClaims
+      .filter(claim => !(claim.id in trashedAt) && !queuedDeleteIds.has(claim.id))
+      .map(claim => {
+        const entry = entryFor(claim.id);
+        return entry?.op.kind === 'update' ? { ...claim, ...entry.op.changes } : claim;
+      });
+
+    return [...queuedClaims, ...backendClaims];
+  }, [mode, loadedClaims, entries, entryFor, trashedAt]);
+
+  /**
+   * Achievements in the trash, most recently deleted first
+   *
+   * Backend mode lists TrustFolio's trash, deletes still waiting in the
+   * outbox, and queued creates that were deleted before they synced.
+   */
+  const trash = useMemo((): TrashedAchievement[] => {
+    const local = localTrash
+      .filter(entry => mode !== 'backend' || entry.queued)
+      .map((entry): TrashedAchievement => ({ claim: entry.claim, deletedAt: entry.deletedAt, source: 'local' }));
+    if (mode !== 'backend') return local;
+
+    const backend = loadedClaims.flatMap((claim): TrashedAchievement[] => {
+      const queued = entries.find(entry => entry.op.kind === 'delete' && entry.op.claimId === claim.id);
+      if (queued && queued.status !== 'failed') {
+        return [{ claim, deletedAt: new Date(queued.createdAt).toISOString(), source: 'queued' }];
+      }
+      return claim.id in trashedAt ? [{ claim, deletedAt: trashedAt[claim.id], source: 'backend' }] : [];
+    });
+    return [...local, ...backend].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }, [mode, localTrash, loadedClaims, entries, trashedAt]);
+
+  /**
+   * Number of Local Mode achievements not yet on LinkedTrust
+   * 
+   * Shown as a banner after sign-in, linking to the migration flow.
+   */
+  const unsyncedLocalCount = useMemo(() => {
+    const issuerId = user?.issuerId || user?.id;
+    if (mode !== 'backend' || !issuerId) return 0;
+
+    return findMigrationCandidates(issuerId, loadedClaims, queuedCreateIds)
+      .filter(candidate => !candidate.duplicateOf)
+      .length;
+  }, [mode, user, loadedClaims, queuedCreateIds]);
 
   /**
    * Load achievements from backend or localStorage
    * 
-   * Attempts to load from LinkedTrust backend first if user has valid token.
+   * Attempts to load from LinkedTrust backend first if the session has backend access.
    * Falls back to localStorage if backend is unavailable or user is not authenticated.
    * 
    * @async
    * @function loadClaims
+   * @param {boolean} [quiet=false] - Skip the full-page loading state (background refresh)
    * @returns {Promise<void>}
    */
-  const loadClaims = async () => {
-    setLoading(true);
+  const loadClaims = useCallback(async (quiet: boolean = false) => {
+    if (!quiet) setLoading(true);
     setError('');
+    setLocalTrash(getLocalTrash());
     
     try {
-      // Check if user has a valid backend token (not NextAuth session token)
-      const hasBackendToken = token && token !== 'nextauth_session';
+      // Check if the session has backend access (password login or linked OAuth account)
+      const hasBackendToken = hasBackendAccess;
       
       if (isAuthenticated && hasBackendToken && (user?.issuerId || user?.id)) {
         // Try loading from LinkedTrust backend
         const userId = user.issuerId || user.id;
-        const response = await fetchClaimsByIssuer(userId, token);
-        const backendClaims = response.claims || [];
-        setClaims(backendClaims);
+        const [backendClaims, visibility, evidence, endorsements, validations, scores, superseded, trashed] = await Promise.all([
+          createSessionClient().getClaimsByIssuer(userId),
+          fetchVisibility().catch(visibilityError => {
+            console.error('Error loading visibility:', visibilityError);
+            return {};
+          }),
+          fetchByClaim<Evidence[]>('/api/evidence', 'evidence'),
+          fetchByClaim<Endorsement[]>('/api/endorsements', 'endorsements'),
+          fetchByClaim<Validation[]>('/api/validations', 'validations'),
+          fetchByClaim<TrustScore>('/api/trust-scores', 'scores'),
+          fetchByClaim<number>('/api/revisions', 'superseded'),
+          fetchByClaim<string>('/api/trash', 'trash'),
+        ]);
+        // Endorsements the user wrote for others are their claims too, but not their achievements,
+        // and versions replaced by an edit are shown through the claim that superseded them.
+        // Trashed achievements stay loaded for the trash view.
+        setClaims(backendClaims.filter(claim => !isEndorsementClaim(claim) && !(claim.id in superseded)));
+        setTrashedAt(trashed);
+        setVisibilityByClaim(visibility);
+        setEvidenceByClaim(evidence);
+        setEndorsementsByClaim(endorsements);
+        setValidationsByClaim(validations);
+        setTrustScores(scores);
+        setEditedClaimIds(new Set(Object.values(superseded)));
         setMode('backend');
       } else {
         // Fall back to localStorage
@@ -113,6 +262,9 @@ export default function PortfolioPage() {
       }
     } catch (err: any) {
       console.error('Error loading claims:', err);
+      // Expired session - AuthProvider is already sending the user to sign in again
+      if (isLinkedTrustError(err) && err.code === 'SESSION_EXPIRED') return;
+
       // On error, fall back to localStorage
       const localClaims = getLocalClaims();
       setClaims(localClaims);
@@ -121,55 +273,165 @@ export default function PortfolioPage() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [hasBackendAccess, isAuthenticated, user]);
 
   /**
-   * Delete an achievement with user confirmation
+   * Load achievements on component mount and when the session changes
+   */
+  useEffect(() => {
+    loadClaims();
+  }, [loadClaims]);
+
+  /**
+   * Move an achievement to the trash
    * 
-   * Deletes from backend if in backend mode, otherwise removes from localStorage.
-   * Shows confirmation dialog before deletion to prevent accidental data loss.
+   * Backend achievements go to TrustFolio's trash, hidden right away; if the
+   * backend is unreachable (or an edit of the achievement is still queued)
+   * the delete waits in the outbox instead. Local Mode achievements and
+   * creates that never synced go to the browser's trash.
+   * Shows an undo toast instead of asking for confirmation first.
    * 
    * @async
    * @function deleteClaim
-   * @param {number} claimId - ID of the achievement to delete
+   * @param {number} claimId - ID of the achievement to delete (local id for queued creates)
    * @returns {Promise<void>}
    */
   const deleteClaim = async (claimId: number) => {
-    // Confirm deletion to prevent accidents
-    const confirmDelete = confirm('Are you sure you want to delete this achievement? This action cannot be undone.');
-    
-    if (!confirmDelete) return;
-    
+    const queuedCreate = entries.some(entry => entry.op.kind === 'create' && entry.op.localId === claimId);
+
     try {
-      if (mode === 'backend' && token && token !== 'nextauth_session') {
-        // Delete from LinkedTrust backend
-        const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL}/api/v1/claims/${claimId}`, {
-          method: 'DELETE',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-          },
-        });
-        
-        if (!response.ok) throw new Error('Failed to delete from backend');
-        
-        alert('Achievement deleted successfully! 🗑️');
+      if (mode === 'backend' && !queuedCreate && hasBackendAccess) {
+        setTrashedAt(current => ({ ...current, [claimId]: new Date().toISOString() }));
+        try {
+          // A queued edit has to reach LinkedTrust first, so the delete waits behind it
+          if (entries.some(entry => entry.op.kind === 'update' && entry.op.claimId === claimId)) {
+            await enqueueClaimOperation({ kind: 'delete', claimId });
+          } else {
+            await moveToTrash([claimId]);
+          }
+        } catch (backendError) {
+          if (!isRetryableError(backendError)) throw backendError;
+
+          await enqueueClaimOperation({ kind: 'delete', claimId });
+        }
       } else {
-        // Delete from localStorage
-        const localClaims = getLocalClaims();
-        const updatedClaims = localClaims.filter(claim => claim.id !== claimId);
-        localStorage.setItem('trustfolio_claims', JSON.stringify(updatedClaims));
-        
-        alert('Achievement deleted from local storage! 🗑️');
+        // Never reached the backend - its create is queued again if it is restored
+        trashClaimLocal(claimId, queuedCreate);
+        loadClaims(true);
       }
-      
-      // Reload achievements to reflect deletion
-      loadClaims();
+      setUndo({ key: Date.now(), claimIds: [claimId] });
     } catch (error) {
       console.error('Error deleting claim:', error);
+      setTrashedAt(current => Object.fromEntries(Object.entries(current).filter(([id]) => Number(id) !== claimId)));
       alert('Failed to delete achievement. Please try again.');
     }
   };
 
+  /**
+   * Take achievements out of the trash
+   * 
+   * Also undoes a delete from the toast. Deletes still waiting in the outbox
+   * are cancelled; restored creates that never synced are queued again.
+   * 
+   * @async
+   * @function restoreAchievements
+   * @param {TrashedAchievement[]} items - Achievements to restore
+   * @returns {Promise<void>}
+   */
+  const restoreAchievements = async (items: TrashedAchievement[]) => {
+    if (items.length === 0) return;
+
+    const idsFrom = (source: TrashedAchievement['source']) =>
+      items.filter(item => item.source === source).map(item => item.claim.id);
+    const backendIds = [...idsFrom('backend'), ...idsFrom('queued')];
+
+    setUpdatingTrash(true);
+    setTrashedAt(current => Object.fromEntries(Object.entries(current).filter(([id]) => !backendIds.includes(Number(id)))));
+    try {
+      for (const claimId of idsFrom('queued')) {
+        await cancelQueuedDelete(claimId);
+      }
+      for (const entry of restoreClaimsLocal(idsFrom('local'))) {
+        if (entry.queued) await requeueCreate(entry.claim.id);
+      }
+      if (idsFrom('backend').length > 0) {
+        await restoreFromTrash(idsFrom('backend'));
+      }
+      setSelectedTrash(new Set());
+    } catch (error) {
+      console.error('Error restoring achievements:', error);
+      alert('Failed to restore from the trash. Please try again.');
+    } finally {
+      setUpdatingTrash(false);
+      loadClaims(true);
+    }
+  };
+
+  /**
+   * Delete achievements in the trash for good, after confirmation
+   * 
+   * Backend achievements are deleted from LinkedTrust with all their earlier
+   * versions. Deletes still waiting in the outbox are left alone until they
+   * reach the trash.
+   * 
+   * @async
+   * @function deletePermanently
+   * @param {TrashedAchievement[]} items - Achievements to delete
+   * @returns {Promise<void>}
+   */
+  const deletePermanently = async (items: TrashedAchievement[]) => {
+    const deletable = items.filter(item => item.source !== 'queued');
+    if (deletable.length === 0) {
+      alert('These achievements are still waiting to sync. They can be deleted permanently once they reach LinkedTrust.');
+      return;
+    }
+    const confirmDelete = confirm(
+      `Permanently delete ${deletable.length} achievement${deletable.length !== 1 ? 's' : ''}? This action cannot be undone.`
+    );
+    if (!confirmDelete) return;
+
+    setUpdatingTrash(true);
+    try {
+      const localIds = deletable.filter(item => item.source === 'local').map(item => item.claim.id);
+      purgeLocalTrash(localIds);
+      for (const localId of localIds) {
+        await discardQueuedCreate(localId);
+      }
+
+      const backendIds = deletable.filter(item => item.source === 'backend').map(item => item.claim.id);
+      if (backendIds.length > 0) {
+        await deleteFromTrash(backendIds);
+      }
+      setSelectedTrash(new Set());
+      alert(`${deletable.length} achievement${deletable.length !== 1 ? 's' : ''} deleted permanently! 🗑️`);
+    } catch (error) {
+      console.error('Error deleting achievements permanently:', error);
+      alert('Failed to delete achievements permanently. Please try again.');
+    } finally {
+      setUpdatingTrash(false);
+      loadClaims(true);
+    }
+  };
+
+  /**
+   * Select or deselect an achievement in the trash view
+   * 
+   * @function toggleTrashSelection
+   * @param {number} claimId - Achievement to toggle
+   * @returns {void}
+   */
+  const toggleTrashSelection = (claimId: number) => {
+    setSelectedTrash(current => {
+      const next = new Set(current);
+      if (next.has(claimId)) {
+        next.delete(claimId);
+      } else {
+        next.add(claimId);
+      }
+      return next;
+    });
+  };
+
   /**
    * Filter and sort achievements based on user selections
    * 
@@ -216,10 +478,29 @@ export default function PortfolioPage() {
     return filtered;
   };
 
+  /**
+   * Visibility of an achievement
+   * 
+   * A queued visibility change wins over the stored one; Local Mode and
+   * not-yet-synced achievements carry their visibility themselves.
+   * 
+   * @function visibilityFor
+   * @param {Claim} claim - Achievement to look up
+   * @returns {ClaimVisibilityInfo} Visibility, with the share path for link-only achievements
+   */
+  const visibilityFor = (claim: Claim): ClaimVisibilityInfo => {
+    const queued = entries.find(entry => entry.op.kind === 'visibility' && entry.op.claimId === claim.id);
+    if (queued?.op.kind === 'visibility') return { visibility: queued.op.visibility };
+
+    return visibilityByClaim[claim.id] || { visibility: (claim as StoredClaim).visibility || DEFAULT_VISIBILITY };
+  };
+
   /**
    * Export achievements to JSON file
    * 
-   * Creates a downloadable JSON file containing all achievements.
+   * Creates a downloadable JSON file containing all achievements, each with
+   * its visibility. Private achievements are only included when the user
+   * confirms; share links are never exported.
    * File is named with current date for easy organization.
    * 
    * @function exportAchievements
@@ -227,7 +508,16 @@ export default function PortfolioPage() {
    */
   const exportAchievements = () => {
     // Get data from current mode (backend or local)
-    const dataToExport = mode === 'backend' ? claims : getLocalClaims();
+    const allClaims = (mode === 'backend' ? claims : getLocalClaims())
+      .map(claim => ({ ...claim, visibility: visibilityFor(claim).visibility }));
+
+    // Private achievements stay out of the file unless asked for
+    const privateCount = allClaims.filter(claim => claim.visibility === 'private').length;
+    const includePrivate = privateCount > 0 && confirm(
+      `Include ${privateCount} private achievement${privateCount !== 1 ? 's' : ''} in the export?\n\n` +
+      `Click OK to include them or Cancel to leave them out.`
+    );
+    const dataToExport = includePrivate ? allClaims : allClaims.filter(claim => claim.visibility !== 'private');
     
     // Convert to formatted JSON
     const dataStr = JSON.stringify(dataToExport, null, 2);
@@ -311,63 +601,8 @@ export default function PortfolioPage() {
     event.target.value = '';
   };
 
-  /**
-   * Calculate analytics data from achievements
-   * 
-   * Computes various statistics including:
-   * - Total achievement count
-   * - Average rating
-   * - Category breakdown (top 5)
-   * - Rating distribution (1-5 stars)
-   * - Top category
-   * 
-   * @function calculateAnalytics
-   * @returns {Object} Analytics object with computed statistics
-   */
-  const calculateAnalytics = () => {
-    const totalAchievements = claims.length;
-    
-    // Calculate average rating
-    const averageRating = claims.length > 0
-      ? (claims.reduce((sum, claim) => sum + (claim.stars || 0), 0) / claims.length).toFixed(1)
-      : '0.0';
-    
-    // Count achievements by category
-    const categoryBreakdown: { [key: string]: number } = {};
-    claims.forEach(claim => {
-      const category = claim.aspect || 'project';
-      categoryBreakdown[category] = (categoryBreakdown[category] || 0) + 1;
-    });
-    
-    // Get top 5 categories sorted by count
-    const sortedCategories = Object.entries(categoryBreakdown)
-      .sort(([, a], [, b]) => b - a)
-      .slice(0, 5);
-    
-    // Count achievements by star rating (1-5)
-    const ratingDistribution: { [key: number]: number } = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
-    claims.forEach(claim => {
-      const rating = claim.stars || 0;
-      if (rating >= 1 && rating <= 5) {
-        ratingDistribution[rating]++;
-      }
-    });
-    
-    // Determine top category (most achievements)
-    const topCategory = sortedCategories.length > 0
-      ? sortedCategories[0][0]
-      : 'project';
-    
-    return {
-      totalAchievements,
-      averageRating,
-      categoryBreakdown: sortedCategories,
-      ratingDistribution,
-      topCategory,
-    };
-  };
-
-  const analytics = calculateAnalytics();
+  // Statistics for the analytics dashboard
+  const analytics = calculatePortfolioStats(claims);
 
   /**
    * Render star rating display
@@ -391,43 +626,243 @@ export default function PortfolioPage() {
   };
 
   /**
-   * Get emoji icon for achievement category
+   * Render outbox sync status for an achievement
    * 
-   * Returns a relevant emoji based on the achievement type/category.
+   * Shows a badge while a create/edit/delete is waiting in the offline outbox,
+   * with a retry button once it has failed permanently.
    * 
-   * @function getClaimEmoji
-   * @param {string} [aspect='project'] - Achievement category
-   * @returns {string} Emoji character
+   * @function renderSyncStatus
+   * @param {number} claimId - ID of the achievement (local id for queued creates)
+   * @returns {JSX.Element|null} Status badge or null when fully synced
    */
-  const getClaimEmoji = (aspect: string = 'project') => {
-    const emojiMap: { [key: string]: string } = {
-      'project': '📁',
-      'skill': '💡',
-      'certification': '🎓',
-      'course': '📚',
-      'award': '🏆',
-      'publication': '📝',
-      'volunteer': '❤️',
-      'hackathon': '💻',
-      'research': '🔬',
-      'presentation': '🎤',
-    };
-    return emojiMap[aspect.toLowerCase()] || '📁';
+  const renderSyncStatus = (claimId: number) => {
+    const entry = entryFor(claimId);
+    if (!entry) return null;
+
+    if (entry.status === 'failed') {
+      return (
+        <span className="bg-red-50 text-red-700 px-3 py-1 rounded-full flex items-center gap-2" title={entry.lastError}>
+          ⚠️ Sync failed
+          <button
+            onClick={() => retryOutboxEntry(entry.id)}
+            className="underline font-semibold hover:text-red-900"
+          >
+            Retry
+          </button>
+        </span>
+      );
+    }
+
+    return (
+      <span className="bg-orange-50 text-orange-700 px-3 py-1 rounded-full">
+        {entry.status === 'syncing' ? '🔄 Syncing...' : '⏳ Waiting to sync'}
+      </span>
+    );
+  };
+
+  /**
+   * Render visibility badge for an achievement
+   * 
+   * Link-only achievements get a button that copies their private share URL.
+   * 
+   * @function renderVisibility
+   * @param {Claim} claim - Achievement to show the visibility of
+   * @returns {JSX.Element} Visibility badge
+   */
+  const renderVisibility = (claim: Claim) => {
+    const { visibility, sharePath } = visibilityFor(claim);
+
+    return (
+      <span className="bg-gray-100 px-3 py-1 rounded-full flex items-center gap-2">
+        {visibilityLabel(visibility)}
+        {sharePath && (
+          <button
+            onClick={async () => {
+              const shareUrl = `${window.location.origin}${sharePath}`;
+              await navigator.clipboard.writeText(shareUrl);
+              alert('✅ Share link copied to clipboard!\n\nOnly people with this link can see the achievement:\n' + shareUrl);
+            }}
+            className="underline font-semibold hover:text-gray-700"
+          >
+            Copy link
+          </button>
+        )}
+      </span>
+    );
+  };
+
+  /**
+   * Whether an achievement has earlier versions to show
+   * 
+   * @function hasHistory
+   * @param {Claim} claim - Achievement to check
+   * @returns {boolean}
+   */
+  const hasHistory = (claim: Claim): boolean =>
+    mode === 'backend' ? editedClaimIds.has(claim.id) : ((claim as StoredClaim).versions?.length || 0) > 0;
+
+  /**
+   * Open or close an achievement's version history
+   * 
+   * Local Mode achievements carry their history; backend history is loaded
+   * from TrustFolio, which reads every version from LinkedTrust.
+   * 
+   * @async
+   * @function toggleHistory
+   * @param {Claim} claim - Achievement whose history to show
+   * @returns {Promise<void>}
+   */
+  const toggleHistory = async (claim: Claim) => {
+    if (historyFor === claim.id) {
+      setHistoryFor(null);
+      return;
+    }
+
+    setVersions([]);
+    setHistoryFor(claim.id);
+    if (mode !== 'backend') {
+      setVersions(localClaimVersions(claim as StoredClaim));
+      return;
+    }
+    try {
+      setVersions(await fetchClaimVersions(claim.id));
+    } catch (error) {
+      console.error('Error loading version history:', error);
+      setHistoryFor(null);
+      alert('Failed to load the version history. Please try again.');
+    }
+  };
+
+  /**
+   * Restore an earlier version of an achievement
+   * 
+   * Restoring saves a new version with the earlier one's content, so the
+   * history keeps everything in between. Backend achievements get a claim
+   * superseding the current one; it fails if the achievement changed since
+   * the portfolio was loaded.
+   * 
+   * @async
+   * @function restoreVersion
+   * @param {Claim} claim - Achievement as currently shown
+   * @param {ClaimVersion} version - Earlier version to bring back
+   * @returns {Promise<void>}
+   */
+  const restoreVersion = async (claim: Claim, version: ClaimVersion) => {
+    if (!confirm(`Restore version ${version.number}? Its content is saved as a new version; nothing is lost.`)) return;
+
+    setRestoringVersion(true);
+    try {
+      if (mode === 'backend') {
+        const restored = await reviseClaim(claim.id, version.fields, {
+          expected: revisionOf(claim),
+          restoredFrom: version.claimId,
+        });
+        await loadClaims(true);
+        setHistoryFor(restored.id);
+        setVersions(await fetchClaimVersions(restored.id));
+      } else {
+        const localClaims = getLocalClaims();
+        const updatedClaims = localClaims.map(stored =>
+          stored.id === claim.id ? reviseStoredClaim(stored, version.fields, version.number) : stored
+        );
+        saveLocalClaims(updatedClaims);
+        loadClaims();
+        setVersions(localClaimVersions(updatedClaims.find(stored => stored.id === claim.id)!));
+      }
+      alert(`Version ${version.number} restored! ↩`);
+    } catch (error) {
+      console.error('Error restoring version:', error);
+      alert(isLinkedTrustError(error) && isRevisionConflict(error.details)
+        ? 'This achievement changed since the portfolio was loaded. Reload the page and try again.'
+        : 'Failed to restore this version. Please try again.');
+    } finally {
+      setRestoringVersion(false);
+    }
+  };
+
+  /**
+   * Create an endorsement request link and copy it to the clipboard
+   * 
+   * Anyone the link is sent to can endorse the achievement after signing in.
+   * 
+   * @async
+   * @function requestEndorsement
+   * @param {number} claimId - Achievement to ask endorsements for
+   * @returns {Promise<void>}
+   */
+  const requestEndorsement = async (claimId: number) => {
+    try {
+      const response = await fetch('/api/endorsements/requests', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ claimId }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Could not create an endorsement link');
+
+      const requestUrl = `${window.location.origin}${data.path}`;
+      await navigator.clipboard.writeText(requestUrl);
+      alert('✅ Endorsement link copied to clipboard!\n\nSend it to a teacher, mentor or teammate who can vouch for this achievement:\n' + requestUrl);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not create an endorsement link');
+    }
+  };
+
+  /**
+   * Email a validation request for an achievement
+   * 
+   * The validator gets a link to confirm, reject or annotate the achievement;
+   * the pending request shows on the card until they answer.
+   * 
+   * @async
+   * @function requestValidation
+   * @param {React.FormEvent} e - Request form submit event
+   * @param {number} claimId - Achievement to validate
+   * @returns {Promise<void>}
+   */
+  const requestValidation = async (e: React.FormEvent, claimId: number) => {
+    e.preventDefault();
+    setSendingValidation(true);
+    try {
+      const response = await fetch('/api/validations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ claimId, email: validatorEmail, role: validatorRole }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Could not send the validation request');
+
+      setValidationsByClaim(current => ({ ...current, [claimId]: [data.validation, ...(current[claimId] || [])] }));
+      setValidationFormFor(null);
+      setValidatorEmail('');
+      alert(`✅ Validation request sent to ${validatorEmail}`);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not send the validation request');
+    } finally {
+      setSendingValidation(false);
+    }
   };
 
   /**
    * Copy public portfolio link to clipboard
    * 
    * Generates and copies the public portfolio URL to user's clipboard.
-   * Username is extracted from email address.
+   * Uses the username from the public profile directory.
    * 
    * @async
    * @function copyPublicLink
    * @returns {Promise<void>}
    */
   const copyPublicLink = async () => {
-    // Extract username from email (part before @)
-    const username = user?.email?.split('@')[0] || 'user';
+    // Public profiles need a claimed username
+    if (!username) {
+      alert('Choose a username in Settings to get your public portfolio link.');
+      return;
+    }
     
     // Generate public portfolio URL
     const publicUrl = `${window.location.origin}/p/${username}`;
@@ -515,8 +950,113 @@ export default function PortfolioPage() {
           <Link href="/settings" className="text-indigo-600 hover:text-indigo-800 font-semibold flex items-center gap-2">
             ⚙️ Settings
           </Link>
+          <button
+            onClick={() => {
+              setShowTrash(!showTrash);
+              setSelectedTrash(new Set());
+            }}
+            className="text-indigo-600 hover:text-indigo-800 font-semibold flex items-center gap-2"
+          >
+            🗑️ Trash ({trash.length})
+          </button>
         </div>
 
+        {/* Trash - Deleted achievements, kept until the retention window passes */}
+        {showTrash && (
+          <div className="mb-8 bg-white rounded-xl shadow-lg p-6">
+            <div className="flex justify-between items-start gap-4 mb-4">
+              <div>
+                <h2 className="text-2xl font-bold text-gray-900">🗑️ Trash</h2>
+                <p className="text-sm text-gray-600">
+                  Deleted achievements are kept for {TRASH_RETENTION_DAYS} days, then deleted permanently.
+                </p>
+                {hasBackendAccess && (
+                  <p className="text-sm text-gray-600">
+                    TrustFolio hides them right away, but they stay public on LinkedTrust until they are deleted
+                    permanently. Delete them permanently now to take them off LinkedTrust sooner.
+                  </p>
+                )}
+              </div>
+              {trash.length > 0 && (
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => restoreAchievements(trash.filter(item => selectedTrash.has(item.claim.id)))}
+                    disabled={updatingTrash || selectedTrash.size === 0}
+                    className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-semibold hover:bg-indigo-700 disabled:bg-gray-400 transition"
+                  >
+                    ↩ Restore
+                  </button>
+                  <button
+                    onClick={() => deletePermanently(trash.filter(item => selectedTrash.has(item.claim.id)))}
+                    disabled={updatingTrash || selectedTrash.size === 0}
+                    className="bg-red-600 text-white px-4 py-2 rounded-lg text-sm font-semibold hover:bg-red-700 disabled:bg-gray-400 transition"
+                  >
+                    Delete permanently
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {trash.length === 0 ? (
+              <p className="text-gray-500 text-center py-6">The trash is empty.</p>
+            ) : (
+              <>
+                <label className="flex items-center gap-3 pb-3 border-b border-gray-100 text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={trash.every(item => selectedTrash.has(item.claim.id))}
+                    onChange={(e) =>
+                      setSelectedTrash(e.target.checked ? new Set(trash.map(item => item.claim.id)) : new Set())
+                    }
+                  />
+                  Select all ({selectedTrash.size} of {trash.length} selected)
+                </label>
+                <ul className="divide-y divide-gray-100">
+                  {trash.map(item => (
+                    <li key={item.claim.id}>
+                      <label className="flex items-start gap-3 py-3 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={selectedTrash.has(item.claim.id)}
+                          onChange={() => toggleTrashSelection(item.claim.id)}
+                          className="mt-1"
+                        />
+                        <span className="text-2xl">{getCategoryEmoji(item.claim.aspect)}</span>
+                        <span className="flex-1">
+                          <span className="font-semibold text-gray-900">{item.claim.aspect || 'Project'}</span>
+                          <span className="block text-gray-700 text-sm line-clamp-2">{item.claim.statement}</span>
+                          <span className="block text-xs text-gray-500 mt-1">
+                            Deleted {new Date(item.deletedAt).toLocaleDateString()} ·{' '}
+                            {item.source === 'queued'
+                              ? 'waiting to sync'
+                              : `deleted permanently in ${daysUntilPurge(item.deletedAt)} day${daysUntilPurge(item.deletedAt) !== 1 ? 's' : ''}`}
+                          </span>
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Local Mode Migration Banner - Only shown if unsynced local achievements exist */}
+        {unsyncedLocalCount > 0 && (
+          <div className="mb-8 p-4 bg-blue-50 border border-blue-200 rounded-lg flex justify-between items-center">
+            <p className="text-blue-800">
+              📦 You have <strong>{unsyncedLocalCount}</strong> achievement{unsyncedLocalCount !== 1 ? 's' : ''} saved
+              in Local Mode that {unsyncedLocalCount !== 1 ? 'aren\'t' : 'isn\'t'} on LinkedTrust yet.
+            </p>
+            <Link
+              href="/migrate"
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-blue-700 transition whitespace-nowrap"
+            >
+              Review &amp; Upload
+            </Link>
+          </div>
+        )}
+
         {/* Analytics Dashboard - Only shown if achievements exist */}
         {claims.length > 0 && (
           <div className="mb-8 bg-white rounded-xl shadow-lg p-8">
@@ -568,7 +1108,7 @@ export default function PortfolioPage() {
                 <div className="space-y-3">
                   {analytics.categoryBreakdown.map(([category, count]) => (
                     <div key={category} className="flex items-center gap-3">
-                      <div className="text-2xl">{getClaimEmoji(category)}</div>
+                      <div className="text-2xl">{getCategoryEmoji(category)}</div>
                       <div className="flex-1">
                         <div className="flex justify-between mb-1">
                           <span className="text-sm font-medium text-gray-700 capitalize">{category}</span>
@@ -732,7 +1272,7 @@ export default function PortfolioPage() {
               >
                 <div className="flex items-start gap-4">
                   {/* Achievement Icon */}
-                  <div className="text-4xl">{getClaimEmoji(claim.aspect)}</div>
+                  <div className="text-4xl">{getCategoryEmoji(claim.aspect)}</div>
                   
                   {/* Achievement Content */}
                   <div className="flex-1">
@@ -741,7 +1281,12 @@ export default function PortfolioPage() {
                       <h3 className="text-xl font-bold text-gray-900">
                         {claim.aspect || 'Project'}
                       </h3>
-                      {renderStars(claim.stars)}
+                      <div className="flex items-center gap-3">
+                        {mode === 'backend' && entryFor(claim.id)?.op.kind !== 'create' && (
+                          <TrustScoreBadge trustScore={trustScores[claim.id] || BASELINE_TRUST_SCORE} />
+                        )}
+                        {renderStars(claim.stars)}
+                      </div>
                     </div>
                     
                     {/* Description */}
@@ -751,6 +1296,8 @@ export default function PortfolioPage() {
                     <div className="flex justify-between items-center">
                       {/* Metadata Tags */}
                       <div className="flex gap-4 text-sm text-gray-500">
+                        {renderSyncStatus(claim.id)}
+                        {renderVisibility(claim)}
                         {claim.howKnown && (
                           <span className="bg-gray-100 px-3 py-1 rounded-full">
                             {claim.howKnown.replace('_', ' ')}
@@ -763,6 +1310,44 @@ export default function PortfolioPage() {
                       
                       {/* Action Buttons */}
                       <div className="flex gap-2">
+                        {mode === 'backend' && entryFor(claim.id)?.op.kind !== 'create' && (
+                          <button
+                            onClick={() => setValidationFormFor(validationFormFor === claim.id ? null : claim.id)}
+                            className="text-gray-600 hover:text-gray-800 hover:bg-gray-50 px-3 py-1 rounded-lg transition text-sm font-semibold"
+                            title="Ask an instructor, employer or organizer to validate this achievement"
+                          >
+                            ✅ Request validation
+                          </button>
+                        )}
+                        {mode === 'backend' && entryFor(claim.id)?.op.kind !== 'create' && (
+                          <button
+                            onClick={() => requestEndorsement(claim.id)}
+                            className="text-gray-600 hover:text-gray-800 hover:bg-gray-50 px-3 py-1 rounded-lg transition text-sm font-semibold"
+                            title="Copy a link asking someone to endorse this achievement"
+                          >
+                            🤝 Request endorsement
+                          </button>
+                        )}
+                        {/* Public backend achievements have a permalink page */}
+                        {mode === 'backend' && entryFor(claim.id)?.op.kind !== 'create'
+                          && visibilityFor(claim).visibility === 'public' && (
+                          <Link
+                            href={`/c/${claim.id}`}
+                            className="text-gray-600 hover:text-gray-800 hover:bg-gray-50 px-3 py-1 rounded-lg transition text-sm font-semibold"
+                            title="Open this achievement's public page"
+                          >
+                            🔗 View
+                          </Link>
+                        )}
+                        {hasHistory(claim) && (
+                          <button
+                            onClick={() => toggleHistory(claim)}
+                            className="text-gray-600 hover:text-gray-800 hover:bg-gray-50 px-3 py-1 rounded-lg transition text-sm font-semibold"
+                            title="See how this achievement changed over time"
+                          >
+                            🕘 History
+                          </button>
+                        )}
                         <Link
                           href={`/edit/${claim.id}`}
                           className="text-indigo-600 hover:text-indigo-800 hover:bg-indigo-50 px-3 py-1 rounded-lg transition text-sm font-semibold"
@@ -779,6 +1364,51 @@ export default function PortfolioPage() {
                         </button>
                       </div>
                     </div>
+
+                    {/* Validation request form */}
+                    {validationFormFor === claim.id && (
+                      <form
+                        onSubmit={(e) => requestValidation(e, claim.id)}
+                        className="mt-4 p-4 bg-gray-50 rounded-lg flex flex-col sm:flex-row gap-3"
+                      >
+                        <input
+                          type="email"
+                          value={validatorEmail}
+                          onChange={(e) => setValidatorEmail(e.target.value)}
+                          required
+                          placeholder="validator@university.edu"
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                        />
+                        <select
+                          value={validatorRole}
+                          onChange={(e) => setValidatorRole(e.target.value as ValidatorRole)}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                        >
+                          {VALIDATOR_ROLES.map(role => (
+                            <option key={role.value} value={role.value}>{role.label}</option>
+                          ))}
+                        </select>
+                        <button
+                          type="submit"
+                          disabled={sendingValidation}
+                          className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-semibold hover:bg-indigo-700 disabled:bg-gray-400 transition"
+                        >
+                          {sendingValidation ? 'Sending...' : 'Send Request'}
+                        </button>
+                      </form>
+                    )}
+
+                    <EvidenceList evidence={evidenceByClaim[claim.id]} />
+                    <ValidationBadges validations={validationsByClaim[claim.id]} />
+                    <EndorsementList endorsements={endorsementsByClaim[claim.id]} />
+                    {historyFor === claim.id && (
+                      <VersionHistory
+                        versions={versions}
+                        // Queued edits would make the restore conflict; let them sync first
+                        onRestore={entryFor(claim.id) ? undefined : version => restoreVersion(claim, version)}
+                        restoring={restoringVersion}
+                      />
+                    )}
                   </div>
                 </div>
               </div>
@@ -795,10 +1425,23 @@ export default function PortfolioPage() {
             Your achievements are {mode === 'backend' ? 'stored on the LinkedTrust network' : 'saved locally in your browser'}.
             {mode === 'backend' 
               ? ' They are verifiable and can be shared with others.'
-              : ' Sign in with email/password to sync them to the LinkedTrust backend.'}
+              : ' Sign in to sync them to the LinkedTrust backend.'}
           </p>
         </div>
       </div>
+
+      {/* Undo Toast - Shown for a few seconds after a delete */}
+      {undo && (
+        <UndoToast
+          key={undo.key}
+          message="Achievement moved to the trash"
+          onUndo={() => {
+            restoreAchievements(trash.filter(item => undo.claimIds.includes(item.claim.id)));
+            setUndo(null);
+          }}
+          onDismiss={() => setUndo(null)}
+        />
+      )}
     </main>
   );
 }
@@ -1,14 +1,31 @@
 'use client';
 
+import { useEffect } from 'react';
 import { SessionProvider } from "next-auth/react";
-import { AuthProvider } from "@/lib/auth-context";
+import { AuthProvider, useAuth } from "@/lib/auth-context";
+import { startOutboxSync } from "@/lib/claim-outbox";
+import { createSessionClient } from "@/lib/linkedtrust-client";
+
+// Replays the signed-in user's queued claim writes whenever the session has backend access
+function ClaimOutboxSync() {
+  const { hasBackendAccess, user } = useAuth();
+  const issuerId = user?.issuerId || user?.id;
+
+  useEffect(() => {
+    if (!hasBackendAccess || !issuerId) return;
+    return startOutboxSync(createSessionClient(), issuerId);
+  }, [hasBackendAccess, issuerId]);
+
+  return null;
+}
 
 export function Providers({ children }: { children: React.ReactNode }) {
   return (
     <SessionProvider>
       <AuthProvider>
+        <ClaimOutboxSync />
         {children}
       </AuthProvider>
     </SessionProvider>
   );
-}
\ No newline at end of file
+}
@@ -1,11 +1,17 @@
 'use client';
 
-import { useState } from 'react';
+import { Suspense, useState } from 'react';
 import Link from 'next/link';
-import { useAuth } from '@/lib/auth-context';
+import { useSearchParams } from 'next/navigation';
+import { safeReturnTo, useAuth } from '@/lib/auth-context';
+import { PASSWORD_MIN_LENGTH, PASSWORD_POLICY_HINT, validatePassword } from '@/lib/password-policy';
 
-export default function RegisterPage() {
+function RegisterForm() {
   const { register } = useAuth();
+  const searchParams = useSearchParams();
+  // Where to go after signing up, e.g. an endorsement request
+  const returnTo = safeReturnTo(searchParams.get('returnTo'));
+  const returnToQuery = searchParams.get('returnTo') ? `?returnTo=${encodeURIComponent(returnTo)}` : '';
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -22,15 +28,16 @@ export default function RegisterPage() {
       return;
     }
 
-    if (password.length < 6) {
-      setError('Password must be at least 6 characters');
+    const problems = validatePassword(password, { email });
+    if (problems.length > 0) {
+      setError(problems[0]);
       return;
     }
 
     setLoading(true);
 
     try {
-      await register(email, password, name);
+      await register(email, password, name, returnTo);
       // Router will redirect to /portfolio in auth context
     } catch (err: any) {
       setError(err.message || 'Registration failed. Please try again.');
@@ -100,12 +107,12 @@ export default function RegisterPage() {
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
                 required
-                minLength={6}
+                minLength={PASSWORD_MIN_LENGTH}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
                 placeholder="••••••••"
               />
               <p className="text-xs text-gray-500 mt-1">
-                At least 6 characters
+                {PASSWORD_POLICY_HINT}
               </p>
             </div>
 
@@ -135,7 +142,7 @@ export default function RegisterPage() {
           <div className="mt-6 text-center">
             <p className="text-sm text-gray-600">
               Already have an account?{' '}
-              <Link href="/login" className="text-indigo-600 hover:text-indigo-800 font-semibold">
+              <Link href={`/login${returnToQuery}`} className="text-indigo-600 hover:text-indigo-800 font-semibold">
                 Sign in
               </Link>
             </p>
@@ -154,4 +161,12 @@ export default function RegisterPage() {
       </div>
     </main>
   );
-}
\ No newline at end of file
+}
+
+export default function RegisterPage() {
+  return (
+    <Suspense fallback={null}>
+      <RegisterForm />
+    </Suspense>
+  );
+}
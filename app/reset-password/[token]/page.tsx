@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { PASSWORD_MIN_LENGTH, PASSWORD_POLICY_HINT, validatePassword } from '@/lib/password-policy';
+
+export default function ResetPasswordPage() {
+  const params = useParams();
+  const router = useRouter();
+  const token = decodeURIComponent(String(params.token || ''));
+
+  const [email, setEmail] = useState('');
+  const [checking, setChecking] = useState(true);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [done, setDone] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/auth/reset-password?token=${encodeURIComponent(token)}`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+        setEmail(data.email);
+      })
+      .catch(err => setError(err.message || 'This reset link is invalid or has expired.'))
+      .finally(() => setChecking(false));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    const problems = validatePassword(password, { email });
+    if (problems.length > 0) {
+      setError(problems[0]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, newPassword: password }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Password reset failed');
+
+      setDone(true);
+      setTimeout(() => router.push('/login'), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Password reset failed. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen flex items-center justify-center p-8 bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            🎓 TrustFolio
+          </h1>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">
+            Choose a New Password
+          </h2>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          {checking && <p className="text-gray-600">Checking your reset link...</p>}
+
+          {done && (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-800 text-sm">
+              ✅ Your password has been reset and you&apos;ve been signed out everywhere else.
+              Redirecting you to sign in...
+            </div>
+          )}
+
+          {!checking && !done && email && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <p className="text-gray-600">
+                Resetting the password for <strong>{email}</strong>.
+              </p>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  New Password
+                </label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  minLength={PASSWORD_MIN_LENGTH}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  placeholder="••••••••"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  {PASSWORD_POLICY_HINT}
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Confirm New Password
+                </label>
+                <input
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  placeholder="••••••••"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-indigo-600 text-white py-3 px-6 rounded-lg font-semibold hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition"
+              >
+                {loading ? 'Resetting...' : 'Reset Password'}
+              </button>
+            </form>
+          )}
+
+          {!checking && !done && !email && (
+            <Link href="/forgot-password" className="block text-center text-indigo-600 hover:text-indigo-800 font-semibold">
+              Request a new reset link
+            </Link>
+          )}
+
+          <div className="mt-6 text-center">
+            <Link href="/login" className="text-sm text-gray-500 hover:text-gray-700">
+              ← Back to Sign In
+            </Link>
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,114 @@
+/**
+ * Shared Achievement Page Component
+ *
+ * Read-only view of a single link-only achievement, reached through the
+ * unguessable /s/[token] URL its owner copied from the portfolio. The page
+ * stops working as soon as the owner makes the achievement public or
+ * private, or regenerates the link.
+ *
+ * Features:
+ * - Single achievement display, with its evidence
+ * - Link to the owner's public portfolio when they have a username
+ * - Kept out of search engines
+ * - 404 for unknown or revoked links
+ *
+ * @component
+ */
+
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import AchievementCard from '@/components/AchievementCard';
+import EvidenceList from '@/components/EvidenceList';
+import { getEvidenceForClaims } from '@/lib/claim-evidence';
+import { isClaimTrashed } from '@/lib/claim-trash';
+import { resolveShareToken } from '@/lib/claim-visibility';
+import { Claim, LinkedTrustClient, isLinkedTrustError } from '@/lib/linkedtrust-client';
+import { getProfile } from '@/lib/usernames';
+
+type PageProps = { params: Promise<{ token: string }> };
+
+export const metadata: Metadata = {
+  title: 'Shared Achievement | TrustFolio',
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Load the claim a share token points to
+ *
+ * Returns null when the backend can't be reached; 404s when the token or
+ * the claim no longer exists.
+ */
+async function loadSharedClaim(claimId: number): Promise<Claim | null> {
+  try {
+    return await new LinkedTrustClient().getClaim(claimId);
+  } catch (error) {
+    if (isLinkedTrustError(error) && error.code === 'NOT_FOUND') notFound();
+    console.error(`Error loading shared achievement ${claimId}:`, error);
+    return null;
+  }
+}
+
+export default async function SharedAchievementPage({ params }: PageProps) {
+  const { token } = await params;
+  const shared = await resolveShareToken(token);
+  if (!shared || (await isClaimTrashed(shared.claimId))) notFound();
+
+  const [claim, profile, evidence] = await Promise.all([
+    loadSharedClaim(shared.claimId),
+    getProfile(shared.issuerId),
+    getEvidenceForClaims([shared.claimId]),
+  ]);
+  // File links carry the share token, which is what lets /api/evidence/[id]/file serve them to this page's visitors
+  const sharedEvidence = (evidence[shared.claimId] || []).map(item =>
+    item.kind === 'file' ? { ...item, url: `${item.url}?share=${encodeURIComponent(token)}` } : item
+  );
+
+  return (
+    <main className="min-h-screen p-8 bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="max-w-2xl mx-auto">
+        <div className="mb-6 text-center">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Shared Achievement</h1>
+          {profile && (
+            <p className="text-gray-600">
+              Shared by{' '}
+              <Link href={`/p/${profile.username}`} className="text-indigo-600 hover:text-indigo-800 font-semibold">
+                {profile.displayName || profile.username}
+              </Link>
+            </p>
+          )}
+        </div>
+
+        {claim ? (
+          <>
+            <AchievementCard claim={claim} />
+            {sharedEvidence.length > 0 && (
+              <div className="bg-white rounded-xl shadow-md px-6 pb-6 pt-2 mt-4">
+                <EvidenceList evidence={sharedEvidence} />
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="text-center py-20 bg-white rounded-xl shadow-md">
+            <div className="text-6xl mb-4">📡</div>
+            <h2 className="text-2xl font-bold text-gray-700 mb-2">
+              Achievement temporarily unavailable
+            </h2>
+            <p className="text-gray-600">
+              We couldn&apos;t reach LinkedTrust. Please try again in a few minutes.
+            </p>
+          </div>
+        )}
+
+        <div className="mt-8 text-center">
+          <Link
+            href="/"
+            className="inline-block bg-indigo-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-indigo-700 transition"
+          >
+            Create Your Own Portfolio
+          </Link>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -6,8 +6,9 @@
  * Features:
  * - Edit display name and bio
  * - View email (read-only)
- * - Copy public portfolio link
- * - Change password (demo mode)
+ * - Claim or change a public username, with live availability checks
+ * - Copy public portfolio link and website embed code
+ * - Change password (verified with LinkedTrust, signs out other sessions)
  * - Delete account with double confirmation
  * - All settings persist to localStorage
  * 
@@ -18,10 +19,15 @@
 
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import Link from 'next/link';
 import { useAuth } from '@/lib/auth-context';
 import { useRouter } from 'next/navigation';
+import { PASSWORD_POLICY_HINT, validatePassword } from '@/lib/password-policy';
+import { USERNAME_POLICY_HINT, normalizeUsername, validateUsername } from '@/lib/username-policy';
+
+// Wait for typing to pause before asking the server whether a username is free
+const AVAILABILITY_DEBOUNCE_MS = 400;
 
 /**
  * Settings Page Component
@@ -33,7 +39,17 @@ import { useRouter } from 'next/navigation';
  */
 export default function SettingsPage() {
   // Authentication context for user data and auth methods
-  const { user, token, isAuthenticated, logout } = useAuth();
+  const {
+    user,
+    authMethod,
+    hasBackendAccess,
+    username,
+    isAuthenticated,
+    loading: authLoading,
+    logout,
+    changePassword,
+    claimUsername,
+  } = useAuth();
   const router = useRouter();
   
   // Form state management
@@ -43,12 +59,20 @@ export default function SettingsPage() {
   const [newPassword, setNewPassword] = useState('');      // New password
   const [confirmPassword, setConfirmPassword] = useState(''); // Password confirmation
   const [loading, setLoading] = useState(false);           // Loading state for async operations
+  const [usernameInput, setUsernameInput] = useState('');  // Username being claimed
+  const [usernameStatus, setUsernameStatus] = useState<string | null>(null); // Availability message
+  const [usernameAvailable, setUsernameAvailable] = useState(false);
+  const [claimingUsername, setClaimingUsername] = useState(false);
+  const availabilityTimer = useRef<number | undefined>(undefined);
 
   /**
    * Load user settings from localStorage on component mount
    * Redirects to login if user is not authenticated
    */
   useEffect(() => {
+    // Wait for the session lookup before deciding the user is signed out
+    if (authLoading) return;
+
     // Redirect unauthenticated users to login page
     if (!isAuthenticated) {
       router.push('/login');
@@ -65,7 +89,7 @@ export default function SettingsPage() {
       // Use default values from user object if no saved settings
       setDisplayName(user?.name || user?.email || '');
     }
-  }, [isAuthenticated, router, user]);
+  }, [authLoading, isAuthenticated, router, user]);
 
   /**
    * Save profile settings to localStorage
@@ -97,21 +121,89 @@ export default function SettingsPage() {
   };
 
   /**
-   * Change user password (demo mode)
+   * Update the username field and check availability
+   *
+   * Rule violations are shown immediately; otherwise the server is asked
+   * once typing pauses. Responses for stale input are ignored.
+   *
+   * @function handleUsernameChange
+   * @param {string} value - Raw input value
+   * @returns {void}
+   */
+  const handleUsernameChange = (value: string) => {
+    setUsernameInput(value);
+    setUsernameAvailable(false);
+    window.clearTimeout(availabilityTimer.current);
+
+    const normalized = normalizeUsername(value);
+    if (!normalized || normalized === username) {
+      setUsernameStatus(null);
+      return;
+    }
+
+    const problem = validateUsername(normalized);
+    if (problem) {
+      setUsernameStatus(`❌ ${problem}`);
+      return;
+    }
+
+    setUsernameStatus('Checking availability...');
+    availabilityTimer.current = window.setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/username/availability?username=${encodeURIComponent(normalized)}`);
+        const data = await response.json();
+        if (normalizeUsername(value) !== data.username) return;
+
+        setUsernameAvailable(!!data.available);
+        setUsernameStatus(data.available ? `✅ ${data.username} is available` : `❌ ${data.reason}`);
+      } catch (error) {
+        console.error('Username availability check failed:', error);
+        setUsernameStatus('❌ Could not check availability. Please try again.');
+      }
+    }, AVAILABILITY_DEBOUNCE_MS);
+  };
+
+  /**
+   * Claim the username in the input, replacing any current one
+   *
+   * The previous username keeps redirecting to the new one.
+   *
+   * @async
+   * @function handleClaimUsername
+   * @returns {Promise<void>}
+   */
+  const handleClaimUsername = async () => {
+    setClaimingUsername(true);
+    try {
+      await claimUsername(usernameInput);
+      setUsernameInput('');
+      setUsernameStatus(null);
+      setUsernameAvailable(false);
+      alert('✅ Username saved!');
+    } catch (error) {
+      alert(`❌ ${error instanceof Error ? error.message : 'Failed to save username'}`);
+    } finally {
+      setClaimingUsername(false);
+    }
+  };
+
+  /**
+   * Change user password
    * 
-   * Validates password requirements and shows success message.
-   * Note: This is a demo implementation. In production, this would
-   * make an API call to update the password securely.
+   * Validates the new password against the shared password policy, then
+   * asks the server to verify the current password with LinkedTrust and
+   * apply the change. All other sessions are signed out on success.
    * 
    * Validation rules:
    * - All fields must be filled
    * - New password must match confirmation
-   * - Password must be at least 6 characters
+   * - New password must satisfy the password policy (see lib/password-policy)
    * 
-   * @function changePassword
-   * @returns {void}
+   * @async
+   * @function handleChangePassword
+   * @returns {Promise<void>}
    */
-  const changePassword = () => {
+  const handleChangePassword = async () => {
     // Validate all fields are filled
     if (!currentPassword || !newPassword || !confirmPassword) {
       alert('❌ Please fill in all password fields.');
@@ -124,24 +216,28 @@ export default function SettingsPage() {
       return;
     }
 
-    // Validate minimum password length
-    if (newPassword.length < 6) {
-      alert('❌ New password must be at least 6 characters long.');
+    // Validate against the shared password policy
+    const problems = validatePassword(newPassword, { email: user?.email });
+    if (problems.length > 0) {
+      alert(`❌ ${problems.join('\n')}`);
       return;
     }
 
     setLoading(true);
 
-    // Demo implementation - in production this would call backend API
-    setTimeout(() => {
-      setLoading(false);
-      alert('✅ Password changed successfully!\n\nNote: This is a demo. In production, this would update your actual password.');
+    try {
+      await changePassword(currentPassword, newPassword);
+      alert('✅ Password changed successfully!\n\nYou have been signed out on all other devices.');
       
       // Clear password fields after successful change
       setCurrentPassword('');
       setNewPassword('');
       setConfirmPassword('');
-    }, 500);
+    } catch (error) {
+      alert(`❌ ${error instanceof Error ? error.message : 'Password change failed.'}`);
+    } finally {
+      setLoading(false);
+    }
   };
 
   /**
@@ -266,30 +362,101 @@ export default function SettingsPage() {
             </div>
 
             {/* Public Portfolio Link with Copy Button */}
+            {username && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Your Public Portfolio Link
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={`${typeof window !== 'undefined' ? window.location.origin : ''}/p/${username}`}
+                    disabled
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 bg-gray-50 cursor-not-allowed"
+                  />
+                  <button
+                    onClick={() => {
+                      // Copy full public profile URL to clipboard
+                      const shareUrl = `${window.location.origin}/p/${username}`;
+                      navigator.clipboard.writeText(shareUrl);
+                      alert('✅ Link copied to clipboard!');
+                    }}
+                    className="bg-indigo-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-indigo-700 transition"
+                  >
+                    📋 Copy
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Embed Snippet - shows public achievements on the user's own site */}
+            {username && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Embed on Your Website
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={`<script src="${typeof window !== 'undefined' ? window.location.origin : ''}/embed.js" data-username="${username}" data-theme="light" data-limit="5" async></script>`}
+                    disabled
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 bg-gray-50 cursor-not-allowed font-mono text-xs"
+                  />
+                  <button
+                    onClick={() => {
+                      const snippet = `<script src="${window.location.origin}/embed.js" data-username="${username}" data-theme="light" data-limit="5" async></script>`;
+                      navigator.clipboard.writeText(snippet);
+                      alert('✅ Embed code copied to clipboard!');
+                    }}
+                    className="bg-indigo-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-indigo-700 transition"
+                  >
+                    📋 Copy
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Options: data-theme (light or dark), data-category (e.g. skill) and data-limit (1-20)
+                </p>
+              </div>
+            )}
+
+            {/* Username Claim - only LinkedTrust accounts have a public portfolio */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Your Public Portfolio Link
+                {username ? 'Change Username' : 'Choose a Username'}
               </label>
-              <div className="flex gap-2">
-                <input
-                  type="text"
-                  value={`${typeof window !== 'undefined' ? window.location.origin : ''}/p/${user?.email?.split('@')[0] || 'demo'}`}
-                  disabled
-                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 bg-gray-50 cursor-not-allowed"
-                />
-                <button
-                  onClick={() => {
-                    // Extract username from email and copy full URL to clipboard
-                    const username = user?.email?.split('@')[0] || 'demo';
-                    const shareUrl = `${window.location.origin}/p/${username}`;
-                    navigator.clipboard.writeText(shareUrl);
-                    alert('✅ Link copied to clipboard!');
-                  }}
-                  className="bg-indigo-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-indigo-700 transition"
-                >
-                  📋 Copy
-                </button>
-              </div>
+              {hasBackendAccess ? (
+                <>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={usernameInput}
+                      onChange={(e) => handleUsernameChange(e.target.value)}
+                      placeholder={username || 'your-name'}
+                      maxLength={40}
+                      className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    />
+                    <button
+                      onClick={handleClaimUsername}
+                      disabled={!usernameAvailable || claimingUsername}
+                      className="bg-indigo-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-indigo-700 transition disabled:opacity-50"
+                    >
+                      {claimingUsername ? 'Saving...' : username ? 'Change' : 'Claim'}
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {usernameStatus || USERNAME_POLICY_HINT}
+                  </p>
+                  {username && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Links to your old username will redirect to the new one.
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  Connect your account to LinkedTrust to claim a username for your public portfolio.
+                </p>
+              )}
             </div>
 
             {/* Save Profile Button */}
@@ -303,63 +470,76 @@ export default function SettingsPage() {
           </div>
         </div>
 
-        {/* Password Change Section */}
-        <div className="bg-white rounded-xl shadow-md p-6 mb-6">
-          <h2 className="text-2xl font-bold text-gray-900 mb-4">🔒 Change Password</h2>
+        {/* Password Change Section - OAuth accounts have no password to change */}
+        {authMethod === 'oauth' ? (
+          <div className="bg-white rounded-xl shadow-md p-6 mb-6">
+            <h2 className="text-2xl font-bold text-gray-900 mb-4">🔒 Password</h2>
+            <p className="text-gray-600">
+              You sign in with Google or GitHub, so there is no TrustFolio password to change.
+              Manage your password with your sign-in provider.
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-md p-6 mb-6">
+            <h2 className="text-2xl font-bold text-gray-900 mb-4">🔒 Change Password</h2>
           
-          <div className="space-y-4">
-            {/* Current Password */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Current Password
-              </label>
-              <input
-                type="password"
-                value={currentPassword}
-                onChange={(e) => setCurrentPassword(e.target.value)}
-                placeholder="Enter current password"
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-              />
-            </div>
+            <div className="space-y-4">
+              {/* Current Password */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Current Password
+                </label>
+                <input
+                  type="password"
+                  value={currentPassword}
+                  onChange={(e) => setCurrentPassword(e.target.value)}
+                  placeholder="Enter current password"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                />
+              </div>
 
-            {/* New Password */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                New Password
-              </label>
-              <input
-                type="password"
-                value={newPassword}
-                onChange={(e) => setNewPassword(e.target.value)}
-                placeholder="Enter new password"
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-              />
-            </div>
+              {/* New Password */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  New Password
+                </label>
+                <input
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  placeholder="Enter new password"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  {PASSWORD_POLICY_HINT}
+                </p>
+              </div>
 
-            {/* Confirm New Password */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Confirm New Password
-              </label>
-              <input
-                type="password"
-                value={confirmPassword}
-                onChange={(e) => setConfirmPassword(e.target.value)}
-                placeholder="Confirm new password"
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-              />
-            </div>
+              {/* Confirm New Password */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Confirm New Password
+                </label>
+                <input
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  placeholder="Confirm new password"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                />
+              </div>
 
-            {/* Change Password Button */}
-            <button
-              onClick={changePassword}
-              disabled={loading}
-              className="w-full bg-green-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-green-700 transition disabled:opacity-50"
-            >
-              {loading ? 'Changing...' : '🔑 Change Password'}
-            </button>
+              {/* Change Password Button */}
+              <button
+                onClick={handleChangePassword}
+                disabled={loading}
+                className="w-full bg-green-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-green-700 transition disabled:opacity-50"
+              >
+                {loading ? 'Changing...' : '🔑 Change Password'}
+              </button>
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Danger Zone - Account Deletion */}
         <div className="bg-white rounded-xl shadow-md p-6 border-2 border-red-200">
@@ -385,7 +565,7 @@ export default function SettingsPage() {
             Account Information
           </h3>
           <div className="space-y-2 text-sm text-gray-600">
-            <p><strong>Account Type:</strong> {token === 'nextauth_session' ? 'OAuth (Google/GitHub)' : 'Email/Password'}</p>
+            <p><strong>Account Type:</strong> {authMethod === 'oauth' ? 'OAuth (Google/GitHub)' : 'Email/Password'}</p>
             <p><strong>Storage Mode:</strong> Local Browser Storage</p>
             <p><strong>Member Since:</strong> {new Date().toLocaleDateString()}</p>
           </div>
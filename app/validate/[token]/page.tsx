@@ -0,0 +1,258 @@
+/**
+ * Validate Page Component
+ *
+ * Landing page of an emailed validation link (/validate/[token]). The
+ * instructor, employer or organizer a student named can confirm or reject
+ * the achievement, or leave a note, without a TrustFolio account.
+ *
+ * Features:
+ * - Shows the achievement, whose it is and the role the validator was asked in
+ * - Confirm (recorded on LinkedTrust), reject, or add a note and decide later
+ * - Suggests signing in first, so the answer is tied to the validator's own
+ *   LinkedTrust account rather than only to the address the student chose
+ * - Explains expired links and requests that were already answered
+ *
+ * @component
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Stars } from '@/components/AchievementCard';
+import { useAuth } from '@/lib/auth-context';
+import { getCategoryEmoji } from '@/lib/portfolio-stats';
+import {
+  VALIDATION_NOTE_MAX_LENGTH,
+  VALIDATOR_NAME_MAX_LENGTH,
+  ValidationDecision,
+  ValidationStatus,
+  ValidatorRole,
+  validateValidationResponse,
+  validatorRoleLabel,
+} from '@/lib/validation-policy';
+
+interface ValidationRequestInfo {
+  claim: {
+    id: number;
+    aspect?: string;
+    statement: string;
+    stars?: number;
+    effectiveDate?: string;
+  };
+  ownerName: string | null;
+  role: ValidatorRole;
+  status: ValidationStatus;
+}
+
+// What the validator sees after each kind of answer
+const DONE_MESSAGES: { [decision in ValidationDecision]: string } = {
+  confirm: '✅ Thank you! Your confirmation is recorded on LinkedTrust and shown on this achievement.',
+  reject: 'Thank you. The achievement has been marked as not validated, and the student can see your note.',
+  annotate: '📝 Your note was sent to the student. You can come back to this link to confirm or reject later.',
+};
+
+export default function ValidatePage() {
+  const params = useParams();
+  const token = decodeURIComponent(String(params.token || ''));
+  const { hasBackendAccess, loading: authLoading } = useAuth();
+
+  const [info, setInfo] = useState<ValidationRequestInfo | null>(null);
+  const [checking, setChecking] = useState(true);
+  const [validatorName, setValidatorName] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState<ValidationDecision | null>(null);
+  const [answered, setAnswered] = useState<ValidationDecision | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/validations/respond?token=${encodeURIComponent(token)}`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+        setInfo(data);
+      })
+      .catch(err => setError(err.message || 'This validation link is invalid or has expired.'))
+      .finally(() => setChecking(false));
+  }, [token]);
+
+  const respond = async (decision: ValidationDecision) => {
+    setError('');
+
+    const problem = validateValidationResponse(decision, validatorName, note);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setLoading(decision);
+    try {
+      const response = await fetch('/api/validations/respond', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, decision, validatorName, note }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Could not record your answer');
+
+      setAnswered(decision);
+      setNote('');
+      setInfo(current => current && { ...current, status: data.status });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not record your answer. Please try again.');
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const returnToQuery = `?returnTo=${encodeURIComponent(`/validate/${token}`)}`;
+  const ownerName = info?.ownerName || 'this student';
+
+  return (
+    <main className="min-h-screen flex items-center justify-center p-8 bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="w-full max-w-xl">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            🎓 TrustFolio
+          </h1>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">
+            ✅ Validate an Achievement
+          </h2>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          {checking && <p className="text-gray-600">Checking your validation link...</p>}
+
+          {!checking && info && (
+            <>
+              <p className="text-gray-600 mb-4">
+                {info.ownerName ? <strong>{info.ownerName}</strong> : 'A TrustFolio student'} asked you, as
+                their {validatorRoleLabel(info.role).toLowerCase()}, to validate:
+              </p>
+
+              {/* The achievement being validated */}
+              <div className="flex items-start gap-4 bg-gray-50 rounded-lg p-4 mb-6">
+                <div className="text-3xl">{getCategoryEmoji(info.claim.aspect)}</div>
+                <div className="flex-1">
+                  <div className="flex justify-between items-start mb-1">
+                    <h3 className="text-lg font-bold text-gray-900 capitalize">{info.claim.aspect || 'Project'}</h3>
+                    <Stars stars={info.claim.stars} />
+                  </div>
+                  <p className="text-gray-700">{info.claim.statement}</p>
+                  {info.claim.effectiveDate && (
+                    <p className="text-sm text-gray-500 mt-2">
+                      📅 {new Date(info.claim.effectiveDate).toLocaleDateString()}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {answered && (
+                <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-lg text-green-800 text-sm">
+                  {DONE_MESSAGES[answered]}
+                </div>
+              )}
+
+              {!answered && info.status !== 'pending' && (
+                <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg text-gray-700 text-sm">
+                  This request has already been {info.status}. Thank you!
+                </div>
+              )}
+
+              {info.status === 'pending' && (
+                <div className="space-y-4">
+                  {!authLoading && !hasBackendAccess && (
+                    <div className="p-3 bg-indigo-50 border border-indigo-200 rounded-lg text-indigo-900 text-sm">
+                      Have a LinkedTrust account?{' '}
+                      <Link href={`/login${returnToQuery}`} className="font-semibold hover:underline">
+                        Sign in first
+                      </Link>{' '}
+                      so your answer is tied to it. Otherwise it is shown as coming from an email address {ownerName} chose.
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Your Name
+                    </label>
+                    <input
+                      type="text"
+                      value={validatorName}
+                      onChange={(e) => setValidatorName(e.target.value)}
+                      maxLength={VALIDATOR_NAME_MAX_LENGTH}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                      placeholder="Dr. Jane Smith"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Shown with your confirmation. Your email address is never shown.
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Note (optional)
+                    </label>
+                    <textarea
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      rows={3}
+                      maxLength={VALIDATION_NOTE_MAX_LENGTH}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                      placeholder={`Anything ${ownerName} or future readers should know`}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      A note with a confirmation is published with it.
+                    </p>
+                  </div>
+
+                  <div className="flex flex-col sm:flex-row gap-3">
+                    <button
+                      type="button"
+                      onClick={() => respond('confirm')}
+                      disabled={loading !== null}
+                      className="flex-1 bg-green-600 text-white py-3 px-4 rounded-lg font-semibold hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition"
+                    >
+                      {loading === 'confirm' ? 'Confirming...' : 'Confirm'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => respond('annotate')}
+                      disabled={loading !== null}
+                      className="flex-1 bg-gray-100 text-gray-800 py-3 px-4 rounded-lg font-semibold hover:bg-gray-200 disabled:cursor-not-allowed transition"
+                    >
+                      {loading === 'annotate' ? 'Sending...' : 'Send Note Only'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => respond('reject')}
+                      disabled={loading !== null}
+                      className="flex-1 bg-red-50 text-red-700 py-3 px-4 rounded-lg font-semibold hover:bg-red-100 disabled:cursor-not-allowed transition"
+                    >
+                      {loading === 'reject' ? 'Rejecting...' : 'Reject'}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="mt-6 text-center">
+            <Link href="/" className="text-sm text-gray-500 hover:text-gray-700">
+              ← TrustFolio Home
+            </Link>
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,122 @@
+import Link from 'next/link';
+import TrustScoreBadge from '@/components/TrustScoreBadge';
+import { Claim } from '@/lib/linkedtrust-client';
+import { getCategoryEmoji } from '@/lib/portfolio-stats';
+import { TrustScore } from '@/lib/trust-score';
+
+/**
+ * Render star rating display
+ *
+ * Shows filled stars for rating value, gray stars for remainder.
+ * Renders nothing if no rating provided.
+ */
+export function Stars({ stars }: { stars?: number }) {
+  if (!stars) return null;
+  return (
+    <div className="flex gap-1">
+      {[1, 2, 3, 4, 5].map((star) => (
+        <span key={star} className={star <= stars ? 'text-yellow-400' : 'text-gray-300'}>
+          ⭐
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export type CardTheme = 'light' | 'dark';
+
+// Tailwind classes per theme; light matches the public portfolio page
+const THEME_CLASSES: { [theme in CardTheme]: { card: string; title: string; link: string; body: string; meta: string; tag: string } } = {
+  light: {
+    card: 'bg-white shadow-lg hover:shadow-xl',
+    title: 'text-gray-900',
+    link: 'hover:text-indigo-700',
+    body: 'text-gray-700',
+    meta: 'text-gray-500',
+    tag: 'bg-gray-100',
+  },
+  dark: {
+    card: 'bg-gray-800 shadow-lg shadow-black/30 hover:shadow-xl',
+    title: 'text-gray-100',
+    link: 'hover:text-indigo-300',
+    body: 'text-gray-300',
+    meta: 'text-gray-400',
+    tag: 'bg-gray-700',
+  },
+};
+
+interface AchievementCardProps {
+  claim: Claim;
+  href?: string;
+  theme?: CardTheme;
+  // Tighter spacing for the embeddable widget
+  compact?: boolean;
+  // Open the title link in a new tab (embeds live inside other sites)
+  newTab?: boolean;
+  // Shown next to the star rating when given
+  trustScore?: TrustScore;
+  // Shown under the metadata, e.g. the achievement's endorsements
+  children?: React.ReactNode;
+}
+
+/**
+ * Read-only achievement card for pages other people see
+ * (public portfolio, shared links, embeds). With `href` the title links to
+ * the achievement's own page.
+ *
+ * @component
+ */
+export default function AchievementCard({ claim, href, theme = 'light', compact = false, newTab = false, trustScore, children }: AchievementCardProps) {
+  const classes = THEME_CLASSES[theme];
+  const title = claim.aspect || 'Project';
+
+  return (
+    <div className={`${classes.card} rounded-xl ${compact ? 'p-4' : 'p-6'} transition-shadow`}>
+      <div className={`flex items-start ${compact ? 'gap-3' : 'gap-4'}`}>
+        {/* Achievement Icon */}
+        <div className={compact ? 'text-2xl' : 'text-4xl'}>{getCategoryEmoji(claim.aspect)}</div>
+
+        {/* Achievement Content */}
+        <div className="flex-1">
+          {/* Title and Rating */}
+          <div className="flex justify-between items-start mb-2">
+            <h3 className={`${compact ? 'text-base' : 'text-xl'} font-bold ${classes.title} capitalize`}>
+              {href ? (
+                <Link
+                  href={href}
+                  className={classes.link}
+                  {...(newTab && { target: '_blank', rel: 'noopener noreferrer' })}
+                >
+                  {title}
+                </Link>
+              ) : (
+                title
+              )}
+            </h3>
+            <div className="flex items-center gap-3">
+              <TrustScoreBadge trustScore={trustScore} />
+              <Stars stars={claim.stars} />
+            </div>
+          </div>
+
+          {/* Description */}
+          <p className={`${classes.body} ${compact ? 'text-sm mb-2' : 'mb-3'}`}>{claim.statement}</p>
+
+          {/* Metadata Tags */}
+          <div className={`flex gap-4 ${compact ? 'text-xs' : 'text-sm'} ${classes.meta}`}>
+            {claim.howKnown && (
+              <span className={`${classes.tag} px-3 py-1 rounded-full`}>
+                {claim.howKnown.replace('_', ' ')}
+              </span>
+            )}
+            {claim.effectiveDate && (
+              <span>📅 {new Date(claim.effectiveDate).toLocaleDateString()}</span>
+            )}
+          </div>
+
+          {children}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import { useEffect } from 'react';
+import { EMBED_RESIZE_MESSAGE } from '@/lib/embed';
+
+/**
+ * Reports the embed page's height to the page hosting the iframe, so the
+ * embed.js loader can size the iframe to fit. Renders nothing.
+ *
+ * @component
+ */
+export default function EmbedAutoResize() {
+  useEffect(() => {
+    if (window.parent === window) return;
+
+    const report = () => {
+      window.parent.postMessage(
+        { type: EMBED_RESIZE_MESSAGE, height: document.documentElement.scrollHeight },
+        '*'
+      );
+    };
+
+    report();
+    const observer = new ResizeObserver(report);
+    observer.observe(document.body);
+    return () => observer.disconnect();
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,54 @@
+import Link from 'next/link';
+import { Endorsement } from '@/lib/endorsement-policy';
+
+interface EndorsementListProps {
+  endorsements: Endorsement[] | undefined;
+}
+
+/**
+ * Endorsements under an achievement: who vouched for it, their rating and
+ * what they said. Endorsers with a public portfolio are linked, and
+ * endorsements given before the achievement was last edited say so.
+ * Renders nothing when there are no endorsements.
+ *
+ * @component
+ */
+export default function EndorsementList({ endorsements }: EndorsementListProps) {
+  if (!endorsements || endorsements.length === 0) return null;
+
+  return (
+    <div className="mt-4 border-t border-gray-100 pt-4">
+      <p className="text-sm font-semibold text-gray-700 mb-2">
+        🤝 Endorsed by {endorsements.length} {endorsements.length === 1 ? 'person' : 'people'}
+      </p>
+      <ul className="space-y-3">
+        {endorsements.map(endorsement => (
+          <li key={endorsement.id} className="bg-indigo-50 rounded-lg px-4 py-3 text-sm">
+            <div className="flex justify-between items-center mb-1">
+              <span className="font-semibold text-gray-900">
+                {endorsement.endorserUsername ? (
+                  <Link href={`/p/${endorsement.endorserUsername}`} className="hover:text-indigo-700">
+                    {endorsement.endorserName}
+                  </Link>
+                ) : (
+                  endorsement.endorserName
+                )}
+              </span>
+              <span className="text-yellow-500" aria-label={`${endorsement.stars} out of 5 stars`}>
+                {'★'.repeat(endorsement.stars)}
+                <span className="text-gray-300">{'★'.repeat(5 - endorsement.stars)}</span>
+              </span>
+            </div>
+            <p className="text-gray-700">{endorsement.statement}</p>
+            <p className="text-xs text-gray-500 mt-1">
+              <Link href={`/c/${endorsement.id}`} className="hover:text-indigo-700">
+                {new Date(endorsement.createdAt).toLocaleDateString()} · verified on LinkedTrust
+              </Link>
+              {endorsement.endorsedClaimId && ' · endorsed an earlier version'}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import Image from 'next/image';
+import { EVIDENCE_FILE_TYPES, Evidence, isImageEvidence } from '@/lib/evidence';
+
+interface EvidenceListProps {
+  evidence: Evidence[] | undefined;
+  // Shown as a remove button on each item (create form only)
+  onRemove?: (evidence: Evidence) => void;
+}
+
+function formatSize(bytes: number | undefined): string {
+  if (!bytes) return '';
+  return bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Evidence attached to an achievement: image thumbnails, file links and
+ * link previews. Each item shows the start of its SHA-256 hash, which the
+ * claim's digest is computed from.
+ * Renders nothing when there is no evidence.
+ *
+ * @component
+ */
+export default function EvidenceList({ evidence, onRemove }: EvidenceListProps) {
+  if (!evidence || evidence.length === 0) return null;
+
+  return (
+    <div className="mt-4">
+      <p className="text-sm font-semibold text-gray-700 mb-2">📎 Evidence</p>
+      <ul className="grid gap-2 sm:grid-cols-2">
+        {evidence.map(item => (
+          <li key={item.id} className="relative border border-gray-200 rounded-lg p-3 text-sm bg-white">
+            <a href={item.url} target="_blank" rel="noopener noreferrer nofollow" className="flex gap-3 hover:text-indigo-700">
+              {isImageEvidence(item) ? (
+                <Image src={item.url} alt={item.name} width={64} height={64} unoptimized className="w-16 h-16 object-cover rounded" />
+              ) : item.preview?.imageUrl ? (
+                <Image src={item.preview.imageUrl} alt="" width={64} height={64} unoptimized className="w-16 h-16 object-cover rounded" />
+              ) : (
+                <span className="text-3xl">{item.kind === 'link' ? '🔗' : '📄'}</span>
+              )}
+              <span className="flex-1 min-w-0">
+                <span className="block font-semibold text-gray-900 truncate">{item.preview?.title || item.name}</span>
+                <span className="block text-xs text-gray-500 truncate">
+                  {item.kind === 'link'
+                    ? item.preview?.siteName || hostOf(item.url)
+                    : [item.contentType && EVIDENCE_FILE_TYPES[item.contentType], formatSize(item.size)].filter(Boolean).join(' · ')}
+                </span>
+                {item.preview?.description && (
+                  <span className="block text-xs text-gray-600 line-clamp-2">{item.preview.description}</span>
+                )}
+                <span className="block text-xs text-gray-400 font-mono" title={`SHA-256 ${item.sha256}`}>
+                  sha256 {item.sha256.slice(0, 12)}…
+                </span>
+              </span>
+            </a>
+            {onRemove && (
+              <button
+                type="button"
+                onClick={() => onRemove(item)}
+                className="absolute top-2 right-2 text-gray-400 hover:text-red-600"
+                title="Remove evidence"
+              >
+                ✕
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { TrustScore, trustLevelLabel } from '@/lib/trust-score';
+
+const LEVEL_CLASSES: { [level in TrustScore['level']]: string } = {
+  low: 'bg-gray-100 text-gray-700',
+  medium: 'bg-blue-100 text-blue-800',
+  high: 'bg-green-100 text-green-800',
+};
+
+interface TrustScoreBadgeProps {
+  trustScore: TrustScore | undefined;
+}
+
+/**
+ * Trust score pill shown next to an achievement's star rating. Opening it
+ * lists the evidence behind the score and the points each piece added.
+ * Uses <details>, so it works on server-rendered pages without scripts.
+ *
+ * @component
+ */
+export default function TrustScoreBadge({ trustScore }: TrustScoreBadgeProps) {
+  if (!trustScore) return null;
+
+  return (
+    <details className="relative text-sm">
+      <summary
+        className={`${LEVEL_CLASSES[trustScore.level]} list-none cursor-pointer px-3 py-1 rounded-full font-semibold whitespace-nowrap`}
+        title="How confident you can be that this achievement is genuine"
+      >
+        🛡️ {trustScore.score} · {trustLevelLabel(trustScore.level)}
+      </summary>
+      <div className="absolute right-0 z-10 mt-2 w-72 bg-white border border-gray-200 rounded-lg shadow-lg p-4 text-left">
+        <p className="font-semibold text-gray-900 mb-2">Trust score {trustScore.score}/100</p>
+        <ul className="space-y-2">
+          {trustScore.factors.map((factor, index) => (
+            <li key={index} className="flex justify-between gap-3">
+              <span>
+                <span className="block text-gray-800">{factor.label}</span>
+                <span className="block text-xs text-gray-500">{factor.detail}</span>
+              </span>
+              <span className="font-semibold text-gray-700">+{factor.points}</span>
+            </li>
+          ))}
+        </ul>
+        <p className="text-xs text-gray-500 mt-3">
+          Validations and endorsements from established people raise the score; the owner&apos;s own rating doesn&apos;t.
+        </p>
+      </div>
+    </details>
+  );
+}
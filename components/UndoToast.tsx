@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+// How long the undo button stays up
+const UNDO_WINDOW_MS = 8_000;
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  // Called when the toast times out or is closed
+  onDismiss: () => void;
+}
+
+/**
+ * Toast with an undo button, shown at the bottom of the page right after a
+ * reversible action. Closes itself after a few seconds; give it a new `key`
+ * to restart the countdown for another action.
+ *
+ * @component
+ */
+export default function UndoToast({ message, onUndo, onDismiss }: UndoToastProps) {
+  const onDismissRef = useRef(onDismiss);
+
+  useEffect(() => {
+    onDismissRef.current = onDismiss;
+  });
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => onDismissRef.current(), UNDO_WINDOW_MS);
+    return () => window.clearTimeout(timeout);
+  }, []);
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 bg-gray-900 text-white px-5 py-3 rounded-lg shadow-2xl flex items-center gap-4 text-sm"
+    >
+      <span>{message}</span>
+      <button
+        type="button"
+        onClick={onUndo}
+        className="font-semibold text-indigo-300 hover:text-indigo-100"
+      >
+        Undo
+      </button>
+      <button
+        type="button"
+        onClick={onDismiss}
+        className="text-gray-400 hover:text-gray-200"
+        aria-label="Dismiss"
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import Link from 'next/link';
+import { Validation, validatorRoleLabel } from '@/lib/validation-policy';
+
+interface ValidationBadgesProps {
+  validations: Validation[] | undefined;
+}
+
+/**
+ * "Validated by" badges for an achievement. Public pages pass confirmed
+ * validations only; the owner's portfolio also shows pending and rejected
+ * requests and the validators' notes. Confirmations given before the
+ * achievement was last edited are marked as being for an earlier version,
+ * and ones given without a LinkedTrust account as coming from an address
+ * the owner chose.
+ * Renders nothing when there are no validations.
+ *
+ * @component
+ */
+export default function ValidationBadges({ validations }: ValidationBadgesProps) {
+  if (!validations || validations.length === 0) return null;
+
+  const notes = validations.flatMap(validation =>
+    validation.notes.map(note => ({ ...note, from: validation.validatorName || validatorRoleLabel(validation.role) }))
+  );
+
+  return (
+    <div className="mt-3">
+      <div className="flex flex-wrap gap-2 text-sm">
+        {validations.map(validation => {
+          const validator = `${validation.validatorName ? `${validation.validatorName}, ` : ''}${validatorRoleLabel(validation.role)}`;
+          const domain = validation.emailDomain && <span className="opacity-75"> · {validation.emailDomain}</span>;
+
+          if (validation.status === 'confirmed') {
+            return (
+              <span key={validation.id} className="bg-green-100 text-green-800 px-3 py-1 rounded-full font-medium">
+                {validation.validationClaimId ? (
+                  <Link href={`/c/${validation.validationClaimId}`} className="hover:underline">
+                    ✅ Validated by {validator}
+                  </Link>
+                ) : (
+                  <>✅ Validated by {validator}</>
+                )}
+                {domain}
+                {validation.verification !== 'account' && <span className="opacity-75"> · email chosen by the owner</span>}
+                {validation.validatedClaimId && <span className="opacity-75"> · earlier version</span>}
+              </span>
+            );
+          }
+          if (validation.status === 'rejected') {
+            return (
+              <span key={validation.id} className="bg-red-50 text-red-700 px-3 py-1 rounded-full">
+                ✖ Not validated by {validator}{domain}
+              </span>
+            );
+          }
+          return (
+            <span key={validation.id} className="bg-gray-100 text-gray-600 px-3 py-1 rounded-full">
+              ⏳ Validation requested from {validatorRoleLabel(validation.role).toLowerCase()}{domain}
+            </span>
+          );
+        })}
+      </div>
+
+      {notes.length > 0 && (
+        <ul className="mt-2 space-y-1 text-sm text-gray-600">
+          {notes.map(note => (
+            <li key={`${note.from}-${note.createdAt}`}>
+              📝 <span className="font-medium">{note.from}:</span> {note.text}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
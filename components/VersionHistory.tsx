@@ -0,0 +1,106 @@
+import { ClaimVersion, FieldChange, REVISABLE_FIELD_LABELS, diffRevisions, diffWords } from '@/lib/revisions';
+
+interface VersionHistoryProps {
+  versions: ClaimVersion[] | undefined;
+  // Shown as a restore button on each earlier version (owner's portfolio only)
+  onRestore?: (version: ClaimVersion) => void;
+  restoring?: boolean;
+}
+
+function formatValue(change: FieldChange, value: string | number | undefined): string {
+  if (value === undefined || value === '') return '—';
+  if (change.field === 'stars') return `${value} ★`;
+  if (change.field === 'effectiveDate') return new Date(String(value)).toLocaleDateString();
+  return String(value);
+}
+
+function ChangeRow({ change }: { change: FieldChange }) {
+  if (change.field === 'statement') {
+    return (
+      <li>
+        <span className="font-medium">{REVISABLE_FIELD_LABELS.statement}:</span>{' '}
+        {diffWords(String(change.before ?? ''), String(change.after ?? '')).map((part, index) =>
+          part.kind === 'added' ? (
+            <ins key={index} className="bg-green-100 text-green-900 no-underline">{part.text}</ins>
+          ) : part.kind === 'removed' ? (
+            <del key={index} className="bg-red-100 text-red-800">{part.text}</del>
+          ) : (
+            <span key={index}>{part.text}</span>
+          )
+        )}
+      </li>
+    );
+  }
+
+  return (
+    <li>
+      <span className="font-medium">{REVISABLE_FIELD_LABELS[change.field]}:</span>{' '}
+      <del className="text-red-800">{formatValue(change, change.before)}</del> → {formatValue(change, change.after)}
+    </li>
+  );
+}
+
+/**
+ * Version history of an achievement, newest first: when each version was
+ * saved and by whom, what changed from the version before it (word-level
+ * for the description), and the endorsements and validations it received -
+ * so readers can tell whether an endorsement vouched for the current text.
+ * Renders nothing for achievements that were never edited.
+ *
+ * @component
+ */
+export default function VersionHistory({ versions, onRestore, restoring = false }: VersionHistoryProps) {
+  if (!versions || versions.length < 2) return null;
+
+  return (
+    <div className="mt-4 border-t border-gray-100 pt-4">
+      <p className="text-sm font-semibold text-gray-700 mb-2">
+        🕘 Edited {versions.length - 1} {versions.length === 2 ? 'time' : 'times'}
+      </p>
+      <ol className="space-y-3">
+        {versions.map((version, index) => {
+          const previous = versions[index + 1];
+          const changes = previous ? diffRevisions(previous.fields, version.fields) : [];
+          return (
+            <li key={version.number} className="bg-gray-50 rounded-lg px-4 py-3 text-sm text-gray-700">
+              <div className="flex justify-between items-center gap-2 mb-1">
+                <span className="font-semibold text-gray-900">
+                  Version {version.number}
+                  {index === 0 && <span className="ml-2 text-xs bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded-full">Current</span>}
+                </span>
+                {onRestore && index > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => onRestore(version)}
+                    disabled={restoring}
+                    className="text-indigo-600 hover:text-indigo-800 text-xs font-semibold disabled:text-gray-400"
+                  >
+                    ↩ Restore this version
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mb-1">
+                {version.createdAt && `${new Date(version.createdAt).toLocaleString()} · `}
+                {previous ? 'edited' : 'created'} by {version.authorName}
+                {version.restoredFrom && ` · restored from version ${version.restoredFrom}`}
+                {version.endorsements > 0 && ` · 🤝 ${version.endorsements} endorsement${version.endorsements === 1 ? '' : 's'}`}
+                {version.validations > 0 && ` · ✅ ${version.validations} validation${version.validations === 1 ? '' : 's'}`}
+              </p>
+              {previous ? (
+                changes.length > 0 ? (
+                  <ul className="space-y-1">
+                    {changes.map(change => <ChangeRow key={change.field} change={change} />)}
+                  </ul>
+                ) : (
+                  <p className="text-gray-500">No changes to the achievement itself</p>
+                )
+              ) : (
+                <p>{version.fields.statement}</p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { decryptSecret, encryptSecret, signToken, verifyToken } from '@/lib/app-secret';
+import { readStore, updateStore } from '@/lib/json-store';
+import { refreshAccessToken } from '@/lib/linkedtrust-auth';
+
+/**
+ * Links between OAuth provider identities and existing password accounts.
+ *
+ * When a Google/GitHub email already has a LinkedTrust password account, the
+ * user proves ownership once with that password. We then remember which
+ * issuer the provider identity belongs to, plus the (encrypted) refresh token
+ * from that login so later OAuth sign-ins can obtain a backend token.
+ */
+
+const STORE = 'account-links';
+const LINK_TOKEN_TTL_SECONDS = 15 * 60;
+
+export interface AccountLink {
+  provider: string;
+  providerAccountId: string;
+  email: string;
+  issuerId: number;
+  encryptedRefreshToken?: string;
+  linkedAt: string;
+}
+
+export interface PendingLink {
+  provider: string;
+  providerAccountId: string;
+  email: string;
+  name?: string;
+}
+
+type LinkStore = { [key: string]: AccountLink };
+
+function linkKey(provider: string, providerAccountId: string): string {
+  return `${provider}:${providerAccountId}`;
+}
+
+export async function findAccountLink(provider: string, providerAccountId: string): Promise<AccountLink | null> {
+  const links = await readStore<LinkStore>(STORE, {});
+  return links[linkKey(provider, providerAccountId)] || null;
+}
+
+export async function saveAccountLink(
+  pending: PendingLink,
+  issuerId: number,
+  refreshToken?: string
+): Promise<AccountLink> {
+  const link: AccountLink = {
+    provider: pending.provider,
+    providerAccountId: pending.providerAccountId,
+    email: pending.email,
+    issuerId,
+    encryptedRefreshToken: refreshToken ? encryptSecret(refreshToken) : undefined,
+    linkedAt: new Date().toISOString(),
+  };
+
+  await updateStore<LinkStore>(STORE, {}, links => {
+    links[linkKey(link.provider, link.providerAccountId)] = link;
+  });
+  return link;
+}
+
+/**
+ * Get a fresh backend access token for a linked identity.
+ * Returns null when no refresh token is stored or the backend rejects it;
+ * the caller should send the user back through the linking page.
+ */
+export async function getLinkedAccessToken(link: AccountLink): Promise<string | null> {
+  if (!link.encryptedRefreshToken) return null;
+
+  try {
+    const refreshed = await refreshAccessToken(decryptSecret(link.encryptedRefreshToken));
+    await updateStore<LinkStore>(STORE, {}, links => {
+      const stored = links[linkKey(link.provider, link.providerAccountId)];
+      if (stored) stored.encryptedRefreshToken = encryptSecret(refreshed.refreshToken);
+    });
+    return refreshed.token || null;
+  } catch (error) {
+    console.error('Failed to refresh linked account token:', error);
+    return null;
+  }
+}
+
+// Short-lived proof that the OAuth provider vouched for this identity
+export function createLinkToken(pending: PendingLink): string {
+  return signToken('account-link', pending, LINK_TOKEN_TTL_SECONDS);
+}
+
+export function verifyLinkToken(token: string): PendingLink | null {
+  const payload = verifyToken<PendingLink>('account-link', token);
+  if (!payload) return null;
+
+  const { provider, providerAccountId, email, name } = payload;
+  return { provider, providerAccountId, email, name };
+}
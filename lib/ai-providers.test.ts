@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  MAX_DESCRIPTION_LENGTH,
+  buildDescriptionPrompt,
+  clampDescription,
+  generateDescription,
+  getDescriptionProvider,
+  stubProvider,
+} from '@/lib/ai-providers';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getDescriptionProvider', () => {
+  it('uses the stub when no API key is set', () => {
+    vi.stubEnv('AI_PROVIDER', '');
+    vi.stubEnv('ANTHROPIC_API_KEY', '');
+    expect(getDescriptionProvider().name).toBe('stub');
+  });
+
+  it('uses Anthropic when a key is set', () => {
+    vi.stubEnv('AI_PROVIDER', '');
+    vi.stubEnv('ANTHROPIC_API_KEY', 'test-key');
+    expect(getDescriptionProvider().name).toBe('anthropic');
+  });
+
+  it('lets AI_PROVIDER=stub override a configured key', () => {
+    vi.stubEnv('AI_PROVIDER', 'stub');
+    vi.stubEnv('ANTHROPIC_API_KEY', 'test-key');
+    expect(getDescriptionProvider().name).toBe('stub');
+  });
+
+  it('refuses AI_PROVIDER=anthropic without a key', () => {
+    vi.stubEnv('AI_PROVIDER', 'anthropic');
+    vi.stubEnv('ANTHROPIC_API_KEY', '');
+    expect(() => getDescriptionProvider()).toThrow('ANTHROPIC_API_KEY');
+  });
+});
+
+describe('clampDescription', () => {
+  it('trims whitespace and surrounding quotes', () => {
+    expect(clampDescription('  "Built a robot."  ')).toBe('Built a robot.');
+  });
+
+  it('leaves text within the limit alone', () => {
+    const text = 'a'.repeat(MAX_DESCRIPTION_LENGTH);
+    expect(clampDescription(text)).toBe(text);
+  });
+
+  it('cuts at the last full sentence past the halfway point', () => {
+    const text = `${'First sentence here. '.repeat(3)}${'word '.repeat(20)}`;
+    expect(clampDescription(text, 80)).toBe('First sentence here. First sentence here. First sentence here.');
+  });
+
+  it('falls back to the last whole word with an ellipsis', () => {
+    const clamped = clampDescription('one two three four five six seven', 20);
+    expect(clamped).toBe('one two three...');
+  });
+
+  it('cuts a single long word to the limit', () => {
+    const clamped = clampDescription('x'.repeat(50), 20);
+    expect(clamped).toBe(`${'x'.repeat(17)}...`);
+  });
+});
+
+describe('stubProvider', () => {
+  it('is deterministic and lists every keyword', async () => {
+    const request = { category: 'project', keywords: 'React, TypeScript, testing' };
+    const first = await stubProvider.generate(request);
+    expect(await stubProvider.generate(request)).toBe(first);
+    expect(first).toContain('React, TypeScript and testing');
+  });
+
+  it('stays within the form limit through generateDescription', async () => {
+    const keywords = Array.from({ length: 100 }, (_, i) => `keyword${i}`).join(', ');
+    const description = await generateDescription({ category: 'skill', keywords }, stubProvider);
+    expect(description.length).toBeLessThanOrEqual(MAX_DESCRIPTION_LENGTH);
+  });
+});
+
+describe('buildDescriptionPrompt', () => {
+  it('adds guidance for the category, defaulting to projects', () => {
+    expect(buildDescriptionPrompt({ category: 'skill', keywords: 'SQL' })).toContain('level of proficiency');
+    expect(buildDescriptionPrompt({ category: 'unknown', keywords: 'SQL' })).toContain('what was built');
+  });
+});
@@ -0,0 +1,122 @@
+import Anthropic from '@anthropic-ai/sdk';
+
+// Matches the maxLength enforced by the create/edit forms
+export const MAX_DESCRIPTION_LENGTH = 500;
+
+export interface DescriptionRequest {
+  category: string;
+  keywords: string;
+}
+
+export interface DescriptionProvider {
+  name: string;
+  generate(request: DescriptionRequest): Promise<string>;
+}
+
+// Per-category guidance so a skill doesn't read like a project write-up
+const CATEGORY_GUIDANCE: { [key: string]: string } = {
+  project: 'Describe what was built, the technologies used, and the outcome or impact.',
+  skill: 'Describe the skill, how it was applied in practice, and the level of proficiency.',
+  certification: 'Describe the certification, the issuing body if known, and what it demonstrates.',
+  course: 'Describe the course, the key topics covered, and what was learned.',
+  award: 'Describe the award, what it recognized, and why it was earned.',
+  publication: 'Describe the publication, its topic, and its contribution.',
+  volunteer: 'Describe the volunteer work, the organization or cause, and the impact made.',
+  hackathon: 'Describe the hackathon project, the team role, and the result.',
+  research: 'Describe the research question, the methods used, and the findings.',
+  presentation: 'Describe the presentation topic, the audience, and the key takeaways.',
+};
+
+export function buildDescriptionPrompt({ category, keywords }: DescriptionRequest): string {
+  const guidance = CATEGORY_GUIDANCE[category] || CATEGORY_GUIDANCE.project;
+
+  return [
+    `Write a first-person achievement description for a student portfolio.`,
+    `Category: ${category}`,
+    `Keywords: ${keywords}`,
+    guidance,
+    `Keep it factual, professional, and under ${MAX_DESCRIPTION_LENGTH} characters.`,
+    `Respond with the description only, no preamble or quotes.`,
+  ].join('\n');
+}
+
+// Trim to the form limit, cutting at the last full sentence or word where possible
+export function clampDescription(text: string, maxLength: number = MAX_DESCRIPTION_LENGTH): string {
+  const cleaned = text.trim().replace(/^["']|["']$/g, '').trim();
+  if (cleaned.length <= maxLength) return cleaned;
+
+  const slice = cleaned.slice(0, maxLength);
+  const lastSentence = slice.lastIndexOf('. ');
+  if (lastSentence > maxLength * 0.5) {
+    return slice.slice(0, lastSentence + 1);
+  }
+
+  // Leave room for the ellipsis before looking for a word break
+  const room = slice.slice(0, maxLength - 3);
+  const lastSpace = room.lastIndexOf(' ');
+  const cut = lastSpace > 0 ? room.slice(0, lastSpace) : room;
+  return cut.trimEnd() + '...';
+}
+
+// Deterministic provider for tests and offline development
+export const stubProvider: DescriptionProvider = {
+  name: 'stub',
+  async generate({ category, keywords }) {
+    const terms = keywords
+      .split(',')
+      .map(term => term.trim())
+      .filter(Boolean);
+    const list = terms.length > 1
+      ? `${terms.slice(0, -1).join(', ')} and ${terms[terms.length - 1]}`
+      : terms[0] || 'core concepts';
+
+    return `Completed a ${category} focused on ${list}, applying each in hands-on work and documenting the results.`;
+  },
+};
+
+export function createAnthropicProvider(apiKey: string, model?: string): DescriptionProvider {
+  const client = new Anthropic({ apiKey });
+
+  return {
+    name: 'anthropic',
+    async generate(request) {
+      const message = await client.messages.create({
+        model: model || 'claude-3-5-haiku-latest',
+        max_tokens: 300,
+        messages: [{ role: 'user', content: buildDescriptionPrompt(request) }],
+      });
+
+      return message.content
+        .map(block => (block.type === 'text' ? block.text : ''))
+        .join('')
+        .trim();
+    },
+  };
+}
+
+// Pick a provider from env: AI_PROVIDER=stub forces the stub, otherwise Anthropic when a key is set
+export function getDescriptionProvider(): DescriptionProvider {
+  const requested = process.env.AI_PROVIDER;
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+
+  if (requested === 'stub') {
+    return stubProvider;
+  }
+
+  if (!apiKey) {
+    if (requested === 'anthropic') {
+      throw new Error('AI_PROVIDER is "anthropic" but ANTHROPIC_API_KEY is not set');
+    }
+    return stubProvider;
+  }
+
+  return createAnthropicProvider(apiKey, process.env.ANTHROPIC_MODEL);
+}
+
+export async function generateDescription(
+  request: DescriptionRequest,
+  provider: DescriptionProvider = getDescriptionProvider()
+): Promise<string> {
+  const description = await provider.generate(request);
+  return clampDescription(description);
+}
@@ -0,0 +1,35 @@
+import { LinkedTrustError, LinkedTrustErrorCode } from '@/lib/linkedtrust-client';
+
+/**
+ * Client-side fetch wrapper for TrustFolio's own JSON routes (/api/visibility,
+ * /api/evidence, /api/revisions, /api/trash). Failures are thrown as
+ * LinkedTrustError with the claim error codes, so the outbox can tell
+ * retryable ones apart whichever route they came from.
+ */
+
+function codeForStatus(status: number): LinkedTrustErrorCode {
+  if (status === 400 || status === 413 || status === 415) return 'VALIDATION';
+  if (status === 401) return 'UNAUTHORIZED';
+  if (status === 403) return 'FORBIDDEN';
+  if (status === 404) return 'NOT_FOUND';
+  if (status === 409) return 'CONFLICT';
+  return 'SERVER';
+}
+
+/**
+ * @param action - what the request does, worded to follow "Failed to" (e.g. 'update visibility')
+ */
+export async function apiRequest<T>(action: string, url: string, init?: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch {
+    throw new LinkedTrustError(`Could not reach TrustFolio while trying to ${action}`, 'NETWORK');
+  }
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new LinkedTrustError(data.error || `Failed to ${action}`, codeForStatus(response.status), response.status, data);
+  }
+  return data;
+}
@@ -0,0 +1,10 @@
+/**
+ * Top-level path segments taken by app routes. Anything that needs to stay
+ * clear of them (like public profile handles) should check this list rather
+ * than keep its own copy. Add the segment here when adding a route under app/.
+ */
+
+export const APP_ROUTE_SEGMENTS: readonly string[] = [
+  'api', 'c', 'create', 'edit', 'embed', 'embed.js', 'endorse', 'forgot-password', 'link-account', 'login',
+  'migrate', 'p', 'portfolio', 'register', 'reset-password', 's', 'settings', 'validate',
+];
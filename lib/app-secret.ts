@@ -0,0 +1,73 @@
+import crypto from 'crypto';
+
+/**
+ * Server-side signing and encryption helpers keyed off the app secret
+ * (TRUSTFOLIO_SECRET, falling back to NEXTAUTH_SECRET).
+ */
+
+const DEV_SECRET = 'trustfolio-dev-secret-do-not-use-in-production';
+
+function appSecret(): string {
+  const secret = process.env.TRUSTFOLIO_SECRET || process.env.NEXTAUTH_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('TRUSTFOLIO_SECRET or NEXTAUTH_SECRET must be set in production');
+  }
+  return DEV_SECRET;
+}
+
+// Separate keys per use so a signature can never double as an encryption key
+function deriveKey(purpose: string): Buffer {
+  return crypto.createHash('sha256').update(`${appSecret()}:${purpose}`).digest();
+}
+
+function hmac(data: string): string {
+  return crypto.createHmac('sha256', deriveKey('signed-token')).update(data).digest('base64url');
+}
+
+/**
+ * Create a tamper-proof, expiring token. `purpose` is embedded so a token
+ * issued for one flow (e.g. account linking) is rejected by another.
+ */
+export function signToken<T extends object>(purpose: string, payload: T, ttlSeconds: number): string {
+  const body = Buffer.from(
+    JSON.stringify({ ...payload, purpose, exp: Math.floor(Date.now() / 1000) + ttlSeconds })
+  ).toString('base64url');
+  return `${body}.${hmac(body)}`;
+}
+
+/**
+ * Verify a token from signToken. Returns null if it is malformed, forged,
+ * expired or was issued for a different purpose.
+ */
+export function verifyToken<T extends object>(purpose: string, token: string): (T & { exp: number }) | null {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(hmac(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    if (payload.purpose !== purpose || payload.exp < Math.floor(Date.now() / 1000)) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+// AES-256-GCM; output is base64url(iv | auth tag | ciphertext)
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey('secret-box'), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+export function decryptSecret(encrypted: string): string {
+  const data = Buffer.from(encrypted, 'base64url');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey('secret-box'), data.subarray(0, 12));
+  decipher.setAuthTag(data.subarray(12, 28));
+  return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf8');
+}
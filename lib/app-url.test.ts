@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { appBaseUrl } from '@/lib/app-url';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('appBaseUrl', () => {
+  it('uses NEXTAUTH_URL without a trailing slash', () => {
+    vi.stubEnv('NEXTAUTH_URL', 'https://trustfolio.example/');
+    expect(appBaseUrl()).toBe('https://trustfolio.example');
+  });
+
+  it('keeps a base path', () => {
+    vi.stubEnv('NEXTAUTH_URL', 'https://example.org/trustfolio/');
+    expect(appBaseUrl()).toBe('https://example.org/trustfolio');
+  });
+
+  it('falls back to localhost in development', () => {
+    vi.stubEnv('NEXTAUTH_URL', '');
+    vi.stubEnv('NODE_ENV', 'development');
+    expect(appBaseUrl()).toBe('http://localhost:3000');
+  });
+
+  it('fails closed in production when unset', () => {
+    vi.stubEnv('NEXTAUTH_URL', '');
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(() => appBaseUrl()).toThrow('NEXTAUTH_URL must be set');
+  });
+
+  it('rejects URLs that are not http(s)', () => {
+    vi.stubEnv('NEXTAUTH_URL', 'javascript:alert(1)');
+    expect(() => appBaseUrl()).toThrow('http(s)');
+  });
+});
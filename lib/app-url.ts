@@ -0,0 +1,31 @@
+/**
+ * TrustFolio's public base URL, for links that leave the site (emails, the
+ * embed loader, canonical and JSON-LD URLs). Taken from NEXTAUTH_URL only -
+ * never from the request's Host header, which the client controls.
+ *
+ * Server-only: never import from client components.
+ */
+
+const DEV_BASE_URL = 'http://localhost:3000';
+
+// NEXTAUTH_URL without a trailing slash; throws in production when it is unset or not an http(s) URL
+export function appBaseUrl(): string {
+  const configured = process.env.NEXTAUTH_URL;
+  if (!configured) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('NEXTAUTH_URL must be set in production');
+    }
+    return DEV_BASE_URL;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(configured);
+  } catch {
+    throw new Error('NEXTAUTH_URL is not a valid URL');
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error('NEXTAUTH_URL must be an http(s) URL');
+  }
+  return `${url.origin}${url.pathname}`.replace(/\/$/, '');
+}
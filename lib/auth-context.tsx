@@ -1,158 +1,196 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useSession, signOut } from 'next-auth/react';
+import { AuthUser } from '@/lib/linkedtrust-auth';
+import { SESSION_EXPIRED_EVENT } from '@/lib/linkedtrust-client';
 
-interface User {
-  id: number;
-  email: string;
-  name?: string;
-  issuerId?: number;
+type User = AuthUser;
+type AuthMethod = 'oauth' | 'password';
+
+// Re-check the server session this often; the server refreshes tokens that are about to lapse
+const SESSION_CHECK_INTERVAL_MS = 5 * 60_000;
+
+// Shape returned by /api/auth/me, /api/auth/login and /api/auth/register
+interface SessionInfo {
+  user: User;
+  authMethod: AuthMethod;
+  hasBackendAccess: boolean;
+  username?: string;
 }
 
 interface AuthContextType {
   user: User | null;
-  token: string | null;
-  login: (email: string, password: string) => Promise<void>;
-  register: (email: string, password: string, name?: string) => Promise<void>;
+  authMethod: AuthMethod | null;
+  // The session holds a LinkedTrust token (kept server-side; see createSessionClient)
+  hasBackendAccess: boolean;
+  // Public profile name (/p/[username]); null until the user claims one
+  username: string | null;
+  loading: boolean;
+  login: (email: string, password: string, returnTo?: string | null) => Promise<void>;
+  register: (email: string, password: string, name?: string, returnTo?: string | null) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  claimUsername: (username: string) => Promise<void>;
   logout: () => void;
   isAuthenticated: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Only same-site paths are followed after sign-in, never absolute or protocol-relative URLs
+export function safeReturnTo(returnTo: string | null | undefined): string {
+  if (!returnTo || !returnTo.startsWith('/') || returnTo.startsWith('//') || returnTo.startsWith('/\\')) {
+    return '/portfolio';
+  }
+  return returnTo;
+}
+
+async function postJson(url: string, body?: object): Promise<SessionInfo> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Request failed');
+  }
+  return data;
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
-  const [token, setToken] = useState<string | null>(null);
+  const [authMethod, setAuthMethod] = useState<AuthMethod | null>(null);
+  const [hasBackendAccess, setHasBackendAccess] = useState(false);
+  const [username, setUsername] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
   const router = useRouter();
   const { data: session, status } = useSession();
 
+  const applySession = (info: SessionInfo | null) => {
+    setUser(info?.user || null);
+    setAuthMethod(info?.authMethod || null);
+    setHasBackendAccess(!!info?.hasBackendAccess);
+    setUsername(info?.username || null);
+  };
+
   useEffect(() => {
-    // Priority 1: Check NextAuth session (Google OAuth)
-    if (session?.user) {
-      console.log('NextAuth session found:', session);
-      const sessionUser: User = {
-        id: (session.user as any).issuerId || 0,
-        email: session.user.email || '',
-        name: session.user.name || '',
-        issuerId: (session.user as any).issuerId,
-      };
-      setUser(sessionUser);
-      setToken('nextauth_session'); // Placeholder token
-      return;
-    }
+    // Tokens used to live in localStorage; drop anything left from before server sessions
+    localStorage.removeItem('auth_token');
+    localStorage.removeItem('auth_user');
+  }, []);
 
-    // Priority 2: Check localStorage (email/password login)
-    if (status !== 'loading') {
-      const savedToken = localStorage.getItem('auth_token');
-      const savedUser = localStorage.getItem('auth_user');
-      
-      if (savedToken && savedUser) {
-        setToken(savedToken);
-        setUser(JSON.parse(savedUser));
-      }
-    }
-  }, [session, status]);
+  // Remembers whether the last known session could reach LinkedTrust
+  const hadBackendAccess = useRef(false);
+  useEffect(() => {
+    hadBackendAccess.current = hasBackendAccess;
+  }, [hasBackendAccess]);
 
-  const login = async (email: string, password: string) => {
-    try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL}/auth/login`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ email, password }),
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(error || 'Login failed');
+  // The server resolves both password sessions and NextAuth (Google/GitHub) sessions
+  useEffect(() => {
+    if (status === 'loading') return;
+
+    let active = true;
+    const loadSession = () => {
+      fetch('/api/auth/me')
+        .then(response => response.json())
+        .then(data => {
+          if (!active) return;
+          // Backend access disappeared (refresh failed or signed out elsewhere)
+          if (hadBackendAccess.current && !data.session?.hasBackendAccess) {
+            window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+            return;
+          }
+          applySession(data.session);
+        })
+        .catch(error => console.error('Failed to load session:', error))
+        .finally(() => {
+          if (active) setLoading(false);
+        });
+    };
+
+    loadSession();
+    const interval = window.setInterval(loadSession, SESSION_CHECK_INTERVAL_MS);
+
+    return () => {
+      active = false;
+      window.clearInterval(interval);
+    };
+  }, [status]);
+
+  // Session can't be renewed: sign out cleanly and come back here after signing in again
+  useEffect(() => {
+    const handleExpired = () => {
+      applySession(null);
+      fetch('/api/auth/logout', { method: 'POST' }).catch(error => console.error('Logout error:', error));
+      if (session) {
+        signOut({ redirect: false });
       }
 
-      const data = await response.json();
-      console.log('Login response:', data);
-      
-      // Updated to match API response structure
-      const userData: User = {
-        id: data.user?.id || data.issuer_id || data.id,
-        email: data.user?.email || data.email || email,
-        name: data.user?.name || data.name || email.split('@')[0],
-        issuerId: data.user?.id || data.issuer_id,
-      };
-      
-      const authToken = data.accessToken || data.token || data.access_token || 'demo_token';
-      
-      setToken(authToken);
-      setUser(userData);
-      
-      localStorage.setItem('auth_token', authToken);
-      localStorage.setItem('auth_user', JSON.stringify(userData));
-      
-      router.push('/portfolio');
-    } catch (error: any) {
+      const returnTo = `${window.location.pathname}${window.location.search}`;
+      router.push(`/login?expired=1&returnTo=${encodeURIComponent(returnTo)}`);
+    };
+
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+  }, [session, router]);
+
+  const login = async (email: string, password: string, returnTo?: string | null) => {
+    try {
+      applySession(await postJson('/api/auth/login', { email, password }));
+      router.push(safeReturnTo(returnTo));
+    } catch (error) {
       console.error('Login error:', error);
       throw error;
     }
   };
 
-  const register = async (email: string, password: string, name?: string) => {
+  const register = async (email: string, password: string, name?: string, returnTo?: string | null) => {
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL}/auth/signup`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ 
-          email, 
-          password,
-          name: name || email.split('@')[0]
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Registration error:', errorText);
-        throw new Error(errorText || 'Registration failed');
-      }
-
-      const data = await response.json();
-      console.log('Registration response:', data);
-      
-      // Updated to match API response structure
-      const userData: User = {
-        id: data.user?.id || data.issuer_id || data.id,
-        email: data.user?.email || data.email || email,
-        name: data.user?.name || data.name || name || email.split('@')[0],
-        issuerId: data.user?.id || data.issuer_id,
-      };
-      
-      const authToken = data.accessToken || data.token || data.access_token || 'demo_token';
-      
-      setToken(authToken);
-      setUser(userData);
-      
-      localStorage.setItem('auth_token', authToken);
-      localStorage.setItem('auth_user', JSON.stringify(userData));
-      
-      router.push('/portfolio');
-    } catch (error: any) {
+      applySession(await postJson('/api/auth/register', { email, password, name }));
+      router.push(safeReturnTo(returnTo));
+    } catch (error) {
       console.error('Registration error:', error);
       throw error;
     }
   };
 
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    if (!user) throw new Error('Not signed in');
+
+    // Other sessions were revoked; the server re-issued this one
+    applySession(await postJson('/api/auth/password', { currentPassword, newPassword }));
+  };
+
+  const claimUsername = async (value: string) => {
+    const response = await fetch('/api/username', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ username: value }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to update username');
+    }
+    setUsername(data.username);
+  };
+
   const logout = () => {
     // Clear local state
-    setToken(null);
-    setUser(null);
+    applySession(null);
     
-    // Clear localStorage
-    localStorage.removeItem('auth_token');
-    localStorage.removeItem('auth_user');
+    // Clear Local Mode claims
     localStorage.removeItem('trustfolio_claims');
     
-    // Sign out of NextAuth if Google OAuth session exists
+    // End the server session, and the NextAuth session if this is an OAuth sign-in
+    fetch('/api/auth/logout', { method: 'POST' }).catch(error => console.error('Logout error:', error));
     if (session) {
       signOut({ redirect: false });
     }
@@ -164,9 +202,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     <AuthContext.Provider
       value={{
         user,
-        token,
+        authMethod,
+        hasBackendAccess,
+        username,
+        loading,
         login,
         register,
+        changePassword,
+        claimUsername,
         logout,
         isAuthenticated: !!user || !!session,
       }}
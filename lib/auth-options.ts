@@ -0,0 +1,142 @@
+import { NextAuthOptions } from "next-auth";
+import GoogleProvider from "next-auth/providers/google";
+import GitHubProvider from "next-auth/providers/github";
+import { createLinkToken, findAccountLink, getLinkedAccessToken } from "@/lib/account-links";
+import { bridgeOAuthSignIn } from "@/lib/oauth-credentials";
+import { SESSION_TTL_SECONDS, saveSession } from "@/lib/session";
+import { isSessionRevoked } from "@/lib/session-revocation";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'https://dev.linkedtrust.us';
+
+/**
+ * NextAuth configuration, shared by the route handler and server-side
+ * session lookups (lib/session.ts).
+ */
+export const authOptions: NextAuthOptions = {
+  providers: [
+    GoogleProvider({
+      clientId: process.env.GOOGLE_CLIENT_ID!,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
+    }),
+    GitHubProvider({
+      clientId: process.env.GITHUB_CLIENT_ID!,
+      clientSecret: process.env.GITHUB_CLIENT_SECRET!,
+    }),
+  ],
+  callbacks: {
+    async signIn({ user, account }) {
+      try {
+        const provider = account?.provider || 'unknown';
+        const providerAccountId = account?.providerAccountId || user.id;
+        console.log(`=== ${provider.toUpperCase()} OAUTH SIGNIN ===`);
+        console.log(`${provider} sign-in attempt:`, user.email);
+        console.log("User ID from provider:", user.id);
+        console.log("API Base URL:", API_BASE_URL);
+
+        const linkUrl = () => `/link-account?token=${encodeURIComponent(createLinkToken({
+          provider,
+          providerAccountId,
+          email: user.email || '',
+          name: user.name || undefined,
+        }))}`;
+
+        // STEP 0: Identity already linked to a password account
+        const link = await findAccountLink(provider, providerAccountId);
+        if (link) {
+          console.log("Step 0: Found account link to issuer", link.issuerId);
+          const accessToken = await getLinkedAccessToken(link);
+          if (!accessToken) {
+            console.log("⚠️ Linked account token could not be refreshed - asking user to re-verify");
+            console.log(`=== END ${provider.toUpperCase()} SIGNIN (RELINK) ===`);
+            return linkUrl();
+          }
+
+          user.issuerId = link.issuerId;
+          user.accessToken = accessToken;
+          // No refresh token here: the link owns it and rotates it on every sign-in
+          console.log(`=== END ${provider.toUpperCase()} SIGNIN (LINKED) ===`);
+          return true;
+        }
+        
+        // STEP 1: Log in (or register) with the server-held bridge credential
+        console.log("Step 1: Resolving bridge credential...");
+        const result = await bridgeOAuthSignIn({
+          provider,
+          providerAccountId,
+          email: user.email || '',
+          name: user.name || undefined,
+        });
+
+        if (result.status === 'ok') {
+          console.log("✅ OAuth user connected to LinkedTrust");
+          user.issuerId = result.auth.user.issuerId || result.auth.user.id;
+          user.accessToken = result.auth.token;
+          user.refreshToken = result.auth.refreshToken;
+          console.log("Stored issuer_id:", user.issuerId);
+          console.log(`=== END ${provider.toUpperCase()} SIGNIN (SUCCESS) ===`);
+          return true;
+        }
+
+        // STEP 2: Email exists with a password account.
+        // Send the user to prove ownership with that password before linking.
+        if (result.status === 'conflict') {
+          console.log("⚠️ Email already exists with email/password auth");
+          console.log("📧 Redirecting to account linking");
+          console.log(`=== END ${provider.toUpperCase()} SIGNIN (LINK REQUIRED) ===`);
+          
+          return linkUrl();
+        }
+
+        // STEP 3: Other backend error - allow sign-in without backend access
+        console.error("❌ LinkedTrust bridge failed:", result.message);
+        console.log(`=== END ${provider.toUpperCase()} SIGNIN (FAILED) ===`);
+        
+        return true;
+
+      } catch (error) {
+        console.error(`❌ CRITICAL ERROR during ${account?.provider} OAuth backend integration:`, error);
+        console.log("=== END OAUTH SIGNIN (ERROR) ===");
+        return true;
+      }
+    },
+    async jwt({ token, user }) {
+      if (user) {
+        token.issuerId = user.issuerId;
+        console.log("JWT callback - storing issuerId in token:", user.issuerId);
+
+        // Backend tokens live in the server-side session store; the JWT only points at it
+        if (user.accessToken && user.issuerId) {
+          token.backendSessionId = await saveSession({
+            token: user.accessToken,
+            refreshToken: user.refreshToken,
+            user: { id: user.issuerId, email: user.email || '', name: user.name || undefined, issuerId: user.issuerId },
+          }, 'oauth');
+        }
+      } else if (token.issuerId && typeof token.iat === 'number'
+        && await isSessionRevoked(token.issuerId, token.iat * 1000)) {
+        // Password changed since this session started - drop backend access
+        console.log("JWT callback - session revoked for issuer:", token.issuerId);
+        delete token.backendSessionId;
+        delete token.issuerId;
+      }
+      return token;
+    },
+    async session({ session, token }) {
+      if (token.issuerId) {
+        session.user.issuerId = token.issuerId;
+        console.log("Session callback - storing issuerId in session:", token.issuerId);
+      }
+      // Backend tokens live in the server-side session store (lib/session.ts);
+      // the JWT only carries that session's id, and browser requests go
+      // through /api/linkedtrust, which looks the token up server-side
+      return session;
+    },
+  },
+  session: {
+    // Match the server-side session that holds the backend tokens
+    maxAge: SESSION_TTL_SECONDS,
+  },
+  pages: {
+    signIn: '/login',
+  },
+};
@@ -0,0 +1,232 @@
+import crypto from 'crypto';
+import { EVIDENCE_FILE_TYPES, EVIDENCE_MAX_PER_CLAIM, Evidence, evidenceFileUrl } from '@/lib/evidence';
+import { getEvidenceStorage } from '@/lib/evidence-storage';
+import { readStore, updateStore } from '@/lib/json-store';
+import { fetchLinkPreview } from '@/lib/link-preview';
+
+/**
+ * Evidence store: who uploaded each file or link, which claim it belongs to
+ * and where its bytes are kept (lib/evidence-storage.ts).
+ *
+ * Evidence is uploaded before the claim exists, then attached to the claim
+ * once LinkedTrust has created it. Unattached evidence can be removed.
+ *
+ * Server-only: never import from client components.
+ */
+
+const STORE = 'evidence';
+
+interface EvidenceRecord extends Evidence {
+  ownerIssuerId: string;
+}
+
+// Keyed by evidence id
+type EvidenceStore = { [evidenceId: string]: EvidenceRecord };
+
+export type EvidenceErrorCode = 'INVALID' | 'NOT_FOUND' | 'FORBIDDEN' | 'LIMIT';
+
+/**
+ * Error from the evidence store; `code` tells the route which status to return.
+ */
+export class EvidenceError extends Error {
+  readonly code: EvidenceErrorCode;
+
+  constructor(message: string, code: EvidenceErrorCode) {
+    super(message);
+    this.name = 'EvidenceError';
+    this.code = code;
+  }
+}
+
+function sha256Hex(data: Buffer | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function newEvidenceId(): string {
+  return crypto.randomBytes(16).toString('base64url');
+}
+
+// The owner's issuer id stays server-side
+function toEvidence(record: EvidenceRecord): Evidence {
+  const { id, kind, name, url, contentType, size, sha256, preview, claimId, createdAt } = record;
+  return {
+    id,
+    kind,
+    name,
+    url,
+    ...(contentType && { contentType }),
+    ...(size !== undefined && { size }),
+    sha256,
+    ...(preview && { preview }),
+    ...(claimId !== undefined && { claimId }),
+    createdAt,
+  };
+}
+
+// The real type of an upload from its first bytes, whatever the browser claimed
+export function sniffContentType(data: Buffer): string | null {
+  const ascii = data.subarray(0, 12).toString('latin1');
+  if (ascii.startsWith('%PDF-')) return 'application/pdf';
+  if (ascii.startsWith('\x89PNG\r\n\x1a\n')) return 'image/png';
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+  if (ascii.startsWith('GIF87a') || ascii.startsWith('GIF89a')) return 'image/gif';
+  if (ascii.startsWith('RIFF') && ascii.slice(8, 12) === 'WEBP') return 'image/webp';
+  return null;
+}
+
+// Keep file names displayable and free of path separators
+function cleanFileName(name: string): string {
+  return name.replace(/[\\/\x00-\x1f]/g, '_').trim().slice(0, 120) || 'evidence';
+}
+
+export async function saveEvidenceFile(
+  ownerIssuerId: number | string,
+  file: { name: string; data: Buffer }
+): Promise<Evidence> {
+  const contentType = sniffContentType(file.data);
+  if (!contentType || !EVIDENCE_FILE_TYPES[contentType]) {
+    throw new EvidenceError('Evidence files must be PDFs or PNG, JPEG, WebP or GIF images', 'INVALID');
+  }
+
+  const sha256 = sha256Hex(file.data);
+  await getEvidenceStorage().put(sha256, file.data);
+
+  const id = newEvidenceId();
+  const record: EvidenceRecord = {
+    id,
+    kind: 'file',
+    name: cleanFileName(file.name),
+    url: evidenceFileUrl(id),
+    contentType,
+    size: file.data.length,
+    sha256,
+    createdAt: new Date().toISOString(),
+    ownerIssuerId: String(ownerIssuerId),
+  };
+  await updateStore<EvidenceStore>(STORE, {}, store => {
+    store[id] = record;
+  });
+  return toEvidence(record);
+}
+
+// Links are hashed by their normalized URL; the page behind it can change
+export async function saveEvidenceLink(ownerIssuerId: number | string, url: string): Promise<Evidence> {
+  const normalized = new URL(url.trim()).toString();
+  const preview = await fetchLinkPreview(normalized);
+
+  const record: EvidenceRecord = {
+    id: newEvidenceId(),
+    kind: 'link',
+    name: preview?.title || new URL(normalized).host,
+    url: normalized,
+    sha256: sha256Hex(normalized),
+    ...(preview && { preview }),
+    createdAt: new Date().toISOString(),
+    ownerIssuerId: String(ownerIssuerId),
+  };
+  await updateStore<EvidenceStore>(STORE, {}, store => {
+    store[record.id] = record;
+  });
+  return toEvidence(record);
+}
+
+/**
+ * Attach the owner's evidence to a claim. The caller must already have
+ * checked that `ownerIssuerId` owns the claim (see isOwnClaim). Evidence
+ * already attached to another claim is refused.
+ */
+export async function attachEvidenceToClaim(
+  claimId: number,
+  ownerIssuerId: number | string,
+  evidenceIds: string[]
+): Promise<Evidence[]> {
+  const attached: EvidenceRecord[] = [];
+
+  await updateStore<EvidenceStore>(STORE, {}, store => {
+    const existing = Object.values(store).filter(record => record.claimId === claimId);
+    const adding = evidenceIds.filter(id => store[id]?.claimId !== claimId);
+    if (existing.length + adding.length > EVIDENCE_MAX_PER_CLAIM) {
+      throw new EvidenceError(`An achievement can have at most ${EVIDENCE_MAX_PER_CLAIM} pieces of evidence`, 'LIMIT');
+    }
+
+    for (const id of evidenceIds) {
+      const record = store[id];
+      if (!record) throw new EvidenceError('Evidence not found', 'NOT_FOUND');
+      if (record.ownerIssuerId !== String(ownerIssuerId) || (record.claimId !== undefined && record.claimId !== claimId)) {
+        throw new EvidenceError('You can only attach your own, unattached evidence', 'FORBIDDEN');
+      }
+      record.claimId = claimId;
+      attached.push(record);
+    }
+  });
+
+  return attached.map(toEvidence);
+}
+
+// Hand a claim's evidence to the claim that supersedes it (lib/claim-revisions.ts)
+export async function moveEvidenceToClaim(fromClaimId: number, toClaimId: number): Promise<void> {
+  await updateStore<EvidenceStore>(STORE, {}, store => {
+    for (const record of Object.values(store)) {
+      if (record.claimId === fromClaimId) record.claimId = toClaimId;
+    }
+  });
+}
+
+/**
+ * Remove evidence that isn't attached to a claim. The file is deleted
+ * unless another piece of evidence has the same content.
+ */
+export async function removeEvidence(evidenceId: string, ownerIssuerId: number | string): Promise<void> {
+  let orphanedKey: string | null = null;
+
+  await updateStore<EvidenceStore>(STORE, {}, store => {
+    const record = store[evidenceId];
+    if (!record) throw new EvidenceError('Evidence not found', 'NOT_FOUND');
+    if (record.ownerIssuerId !== String(ownerIssuerId)) {
+      throw new EvidenceError('You can only remove your own evidence', 'FORBIDDEN');
+    }
+    if (record.claimId !== undefined) {
+      throw new EvidenceError('Evidence attached to an achievement is part of its claim and can\'t be removed', 'FORBIDDEN');
+    }
+
+    delete store[evidenceId];
+    if (record.kind === 'file' && !Object.values(store).some(other => other.kind === 'file' && other.sha256 === record.sha256)) {
+      orphanedKey = record.sha256;
+    }
+  });
+
+  if (orphanedKey) await getEvidenceStorage().remove(orphanedKey);
+}
+
+// An uploaded file's bytes and type, and whose it is; null for unknown ids and links
+export async function readEvidenceFile(
+  evidenceId: string
+): Promise<{ evidence: Evidence; data: Buffer; ownerIssuerId: string } | null> {
+  const store = await readStore<EvidenceStore>(STORE, {});
+  const record = store[evidenceId];
+  if (!record || record.kind !== 'file') return null;
+
+  const data = await getEvidenceStorage().get(record.sha256);
+  return data ? { evidence: toEvidence(record), data, ownerIssuerId: record.ownerIssuerId } : null;
+}
+
+function groupByClaim(records: EvidenceRecord[]): { [claimId: string]: Evidence[] } {
+  const grouped: { [claimId: string]: Evidence[] } = {};
+  for (const record of records.sort((a, b) => a.createdAt.localeCompare(b.createdAt))) {
+    if (record.claimId !== undefined) (grouped[record.claimId] ||= []).push(toEvidence(record));
+  }
+  return grouped;
+}
+
+// Evidence of the given claims, in the order it was added, keyed by claim id
+export async function getEvidenceForClaims(claimIds: number[]): Promise<{ [claimId: string]: Evidence[] }> {
+  const wanted = new Set(claimIds);
+  const store = await readStore<EvidenceStore>(STORE, {});
+  return groupByClaim(Object.values(store).filter(record => record.claimId !== undefined && wanted.has(record.claimId)));
+}
+
+// Evidence attached to the owner's achievements, keyed by claim id
+export async function getEvidenceForOwner(ownerIssuerId: number | string): Promise<{ [claimId: string]: Evidence[] }> {
+  const store = await readStore<EvidenceStore>(STORE, {});
+  return groupByClaim(Object.values(store).filter(record => record.ownerIssuerId === String(ownerIssuerId)));
+}
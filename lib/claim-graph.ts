@@ -0,0 +1,58 @@
+import { countEndorsementsReceived, getEndorsementEdges } from '@/lib/endorsements';
+import { TrustEvidence, TrustScore, computeTrustScore } from '@/lib/trust-score';
+import { countConfirmedValidations, getValidationEvidenceForClaims } from '@/lib/validations';
+
+/**
+ * Walks the claim graph around a set of achievements - their endorsements
+ * and validations, and the endorsers' own achievements - to gather the
+ * evidence for their trust scores (lib/trust-score.ts).
+ *
+ * Server-only: never import from client components.
+ */
+
+// Endorsements and validations received at which an endorser counts as fully established
+const STANDING_SATURATION = 6;
+// A confirmed validation says more about an endorser than a peer endorsement
+const VALIDATION_STANDING_WEIGHT = 2;
+
+/**
+ * Trust scores for the owner's achievements, keyed by claim id. Every
+ * requested claim gets a score, including those with no evidence yet.
+ */
+export async function getTrustScores(
+  claimIds: number[],
+  ownerIssuerId: number | string
+): Promise<{ [claimId: string]: TrustScore }> {
+  const [edges, validations] = await Promise.all([
+    getEndorsementEdges(claimIds),
+    getValidationEvidenceForClaims(claimIds),
+  ]);
+
+  // One level out: what the endorsers' own achievements have received, not counting the owner's endorsements
+  const endorserIds = [...new Set(edges.map(edge => edge.endorserIssuerId))];
+  const [endorsementsReceived, validationsReceived] = await Promise.all([
+    countEndorsementsReceived(endorserIds, String(ownerIssuerId)),
+    countConfirmedValidations(endorserIds),
+  ]);
+  const standingOf = (issuerId: string) =>
+    Math.min(
+      1,
+      (endorsementsReceived[issuerId] + VALIDATION_STANDING_WEIGHT * validationsReceived[issuerId]) / STANDING_SATURATION
+    );
+
+  const scores: { [claimId: string]: TrustScore } = {};
+  for (const claimId of claimIds) {
+    const evidence: TrustEvidence = {
+      validations: validations[claimId] || [],
+      endorsements: edges
+        .filter(edge => edge.endorsement.claimId === claimId)
+        .map(({ endorsement, endorserIssuerId }) => ({
+          endorserName: endorsement.endorserName,
+          stars: endorsement.stars,
+          endorserStanding: standingOf(endorserIssuerId),
+        })),
+    };
+    scores[claimId] = computeTrustScore(evidence);
+  }
+  return scores;
+}
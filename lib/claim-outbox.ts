@@ -0,0 +1,400 @@
+import { deleteClaimLocal, getLocalClaims, toClaimInput } from '@/lib/linkedclaims';
+import { LinkedTrustClient, LinkedTrustErrorCode, isLinkedTrustError } from '@/lib/linkedtrust-client';
+import { attachEvidence } from '@/lib/evidence';
+import { ClaimRevision, reviseClaim } from '@/lib/revisions';
+import { moveToTrash } from '@/lib/trash';
+import { DEFAULT_VISIBILITY, Visibility, saveVisibility } from '@/lib/visibility';
+
+/**
+ * Offline outbox for claim writes.
+ *
+ * Creates, edits and deletes that can't reach LinkedTrust are queued in
+ * IndexedDB and replayed with exponential backoff once connectivity returns.
+ * Queued creates keep their data in the localStorage claim store (keyed by
+ * the local id) so the claim stays visible and editable until it syncs.
+ * Visibility changes are queued the same way, since a private achievement
+ * must not stay public just because the first attempt failed, and so is
+ * attaching uploaded evidence to a newly created claim.
+ *
+ * Edits replay as superseding claims (lib/revisions.ts); once one lands,
+ * entries still queued for the old claim are pointed at the new one.
+ * Deletes replay as moves to the trash (lib/trash.ts), so they can be undone
+ * - before they sync by cancelling them, afterwards by restoring.
+ *
+ * Entries belong to the LinkedTrust user who queued them. Only the signed-in
+ * user's entries are listed and replayed (with their own token); anyone
+ * else's wait until they sign in on this browser again. One tab flushes at a
+ * time, so a queued create can't be replayed twice.
+ */
+
+export type OutboxOperation =
+  | { kind: 'create'; localId: number }
+  // `expected` is what the claim looked like when the edit started, for the conflict check
+  | { kind: 'update'; claimId: number; changes: ClaimRevision; expected?: ClaimRevision }
+  | { kind: 'delete'; claimId: number }
+  | { kind: 'visibility'; claimId: number; visibility: Visibility }
+  | { kind: 'evidence'; claimId: number; evidenceIds: string[] };
+
+export type SyncStatus = 'pending' | 'syncing' | 'failed';
+
+// 'synced' fires when an entry reached the backend, so views can reload
+export type OutboxEvent = 'changed' | 'synced';
+
+export interface OutboxEntry {
+  id: string;
+  // Issuer id of the user who queued it
+  issuerId: string;
+  op: OutboxOperation;
+  status: SyncStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+  lastError?: string;
+}
+
+const DB_NAME = 'trustfolio';
+// Version 2 scoped entries by issuer
+const DB_VERSION = 2;
+const STORE = 'outbox';
+// Web Lock held by the tab that is flushing
+const FLUSH_LOCK = 'trustfolio-outbox-flush';
+
+const MAX_ATTEMPTS = 8;
+const BASE_DELAY_MS = 5_000;
+const MAX_DELAY_MS = 10 * 60_000;
+const SYNC_INTERVAL_MS = 30_000;
+
+// Errors that won't fix themselves by retrying
+const PERMANENT_ERRORS: LinkedTrustErrorCode[] = ['VALIDATION', 'FORBIDDEN', 'CONFLICT'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<(event: OutboxEvent) => void>();
+let flushing = false;
+// Issuer id of the signed-in user whose entries are listed and replayed (see startOutboxSync)
+let owner: string | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        if (event.oldVersion < 1) {
+          request.result.createObjectStore(STORE, { keyPath: 'id' });
+        } else {
+          // Entries from before version 2 don't say whose they are, so nobody may replay them.
+          // Queued creates keep their local copy and are offered for migration instead.
+          request.transaction!.objectStore(STORE).clear();
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function notify(event: OutboxEvent = 'changed') {
+  listeners.forEach(listener => listener(event));
+}
+
+export function subscribeToOutbox(listener: (event: OutboxEvent) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function listAllEntries(): Promise<OutboxEntry[]> {
+  if (typeof indexedDB === 'undefined') return [];
+  const entries = await withStore<OutboxEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+async function listEntriesFor(issuerId: string | null): Promise<OutboxEntry[]> {
+  if (!issuerId) return [];
+  return (await listAllEntries()).filter(entry => entry.issuerId === issuerId);
+}
+
+// The signed-in user's entries, oldest first; none while nobody is signed in
+export async function listOutboxEntries(): Promise<OutboxEntry[]> {
+  return listEntriesFor(owner);
+}
+
+// Local ids of creates queued by anyone on this browser, whose local copies aren't Local Mode claims
+export async function listQueuedCreateIds(): Promise<Set<number>> {
+  const entries = await listAllEntries();
+  return new Set(entries.flatMap(entry => (entry.op.kind === 'create' ? [entry.op.localId] : [])));
+}
+
+async function getEntry(id: string): Promise<OutboxEntry | undefined> {
+  return withStore<OutboxEntry | undefined>('readonly', store => store.get(id));
+}
+
+async function putEntry(entry: OutboxEntry): Promise<void> {
+  await withStore('readwrite', store => store.put(entry));
+}
+
+async function removeEntry(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+/**
+ * Queue a claim write for the signed-in user (or `issuerId`, when replaying
+ * one of their entries).
+ */
+export async function enqueueClaimOperation(op: OutboxOperation, issuerId: string | null = owner): Promise<void> {
+  if (!issuerId) throw new Error('Sign in to LinkedTrust to queue changes for sync');
+  const entries = await listEntriesFor(issuerId);
+
+  // Collapse repeated edits of the same claim into one queued update
+  if (op.kind === 'update') {
+    const existing = entries.find(e => e.op.kind === 'update' && e.op.claimId === op.claimId);
+    if (existing && existing.op.kind === 'update') {
+      await putEntry({
+        ...existing,
+        op: { ...existing.op, changes: { ...existing.op.changes, ...op.changes } },
+        status: 'pending',
+        nextAttemptAt: Date.now(),
+      });
+      notify();
+      return;
+    }
+  }
+
+  // Only the latest visibility matters
+  if (op.kind === 'visibility') {
+    const existing = entries.find(e => e.op.kind === 'visibility' && e.op.claimId === op.claimId);
+    if (existing) {
+      await putEntry({ ...existing, op, status: 'pending', attempts: 0, nextAttemptAt: Date.now() });
+      notify();
+      return;
+    }
+  }
+
+  // Deleting twice changes nothing
+  if (op.kind === 'delete' && entries.some(e => e.op.kind === 'delete' && e.op.claimId === op.claimId)) return;
+
+  const now = Date.now();
+  await putEntry({
+    id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+    issuerId,
+    op,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now,
+  });
+  notify();
+}
+
+// Drop a queued create along with its local copy (the claim never reached the backend)
+export async function discardQueuedCreate(localId: number): Promise<void> {
+  const entries = await listOutboxEntries();
+  for (const entry of entries) {
+    if (entry.op.kind === 'create' && entry.op.localId === localId) {
+      await removeEntry(entry.id);
+    }
+  }
+  deleteClaimLocal(localId);
+  notify();
+}
+
+// Undo a delete that hasn't reached the trash on the backend yet
+export async function cancelQueuedDelete(claimId: number): Promise<void> {
+  const entries = await listOutboxEntries();
+  for (const entry of entries) {
+    if (entry.op.kind === 'delete' && entry.op.claimId === claimId) {
+      await removeEntry(entry.id);
+    }
+  }
+  notify();
+}
+
+/**
+ * Queue a create again for a claim restored from the local trash; its first
+ * create is dropped if it came up while the claim was in the trash.
+ */
+export async function requeueCreate(localId: number): Promise<void> {
+  if ((await listQueuedCreateIds()).has(localId)) return;
+  await enqueueClaimOperation({ kind: 'create', localId });
+}
+
+// Point the issuer's entries queued for a superseded claim at the claim that replaced it
+async function retargetQueuedOperations(issuerId: string, fromClaimId: number, toClaimId: number): Promise<void> {
+  const entries = await listEntriesFor(issuerId);
+  for (const entry of entries) {
+    if (entry.op.kind !== 'create' && entry.op.claimId === fromClaimId) {
+      await putEntry({ ...entry, op: { ...entry.op, claimId: toClaimId } });
+    }
+  }
+}
+
+export async function retryOutboxEntry(id: string): Promise<void> {
+  const entries = await listOutboxEntries();
+  const entry = entries.find(e => e.id === id);
+  if (!entry) return;
+  await putEntry({ ...entry, status: 'pending', attempts: 0, nextAttemptAt: Date.now() });
+  notify();
+}
+
+export function isRetryableError(error: unknown): boolean {
+  return !(isLinkedTrustError(error) && PERMANENT_ERRORS.includes(error.code));
+}
+
+function backoffDelay(attempts: number): number {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempts - 1));
+  return delay + Math.floor(Math.random() * 1000);
+}
+
+async function replay({ op, issuerId }: OutboxEntry, client: LinkedTrustClient): Promise<void> {
+  if (op.kind === 'create') {
+    const localClaim = getLocalClaims().find(claim => claim.id === op.localId);
+    if (!localClaim) return; // deleted (or trashed) locally before it ever synced
+
+    const created = await client.createClaim(toClaimInput(localClaim));
+    deleteClaimLocal(op.localId);
+
+    // The claim exists now, so a failed visibility update must not replay the create
+    const visibility = localClaim.visibility || DEFAULT_VISIBILITY;
+    if (visibility !== DEFAULT_VISIBILITY) {
+      await saveVisibility(created.id, visibility).catch(() =>
+        enqueueClaimOperation({ kind: 'visibility', claimId: created.id, visibility }, issuerId)
+      );
+    }
+    const evidenceIds = localClaim.evidenceIds || [];
+    if (evidenceIds.length > 0) {
+      await attachEvidence(created.id, evidenceIds).catch(() =>
+        enqueueClaimOperation({ kind: 'evidence', claimId: created.id, evidenceIds }, issuerId)
+      );
+    }
+    return;
+  }
+
+  if (op.kind === 'evidence') {
+    await attachEvidence(op.claimId, op.evidenceIds);
+    return;
+  }
+
+  if (op.kind === 'visibility') {
+    await saveVisibility(op.claimId, op.visibility);
+    return;
+  }
+
+  if (op.kind === 'update') {
+    const revised = await reviseClaim(op.claimId, op.changes, { expected: op.expected });
+    await retargetQueuedOperations(issuerId, op.claimId, revised.id);
+    return;
+  }
+
+  try {
+    await moveToTrash([op.claimId]);
+  } catch (error) {
+    // Already gone counts as success
+    if (!(isLinkedTrustError(error) && error.code === 'NOT_FOUND')) throw error;
+  }
+}
+
+// Replay the issuer's due entries in order; see flushOutbox
+async function replayDueEntries(client: LinkedTrustClient, issuerId: string): Promise<void> {
+  const entries = await listEntriesFor(issuerId);
+  const now = Date.now();
+
+  for (const queued of entries) {
+    // Signed out (or in as someone else) since the flush started
+    if (owner !== issuerId) return;
+
+    // An earlier replay may have retargeted this entry at a superseding claim
+    const entry = await getEntry(queued.id);
+    if (!entry || entry.status === 'failed' || entry.nextAttemptAt > now) continue;
+
+    await putEntry({ ...entry, status: 'syncing' });
+    notify();
+
+    try {
+      await replay(entry, client);
+      await removeEntry(entry.id);
+      notify('synced');
+    } catch (error) {
+      const attempts = entry.attempts + 1;
+      const retryable = isRetryableError(error) && attempts < MAX_ATTEMPTS;
+      await putEntry({
+        ...entry,
+        attempts,
+        status: retryable ? 'pending' : 'failed',
+        nextAttemptAt: Date.now() + backoffDelay(attempts),
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+      notify();
+
+      // Later entries would fail the same way; wait for connectivity or a new sign-in
+      if (isLinkedTrustError(error) && (error.code === 'NETWORK' || error.code === 'SESSION_EXPIRED')) return;
+    }
+  }
+}
+
+/**
+ * Replay the signed-in user's due entries in the order they were queued,
+ * with `client` carrying that user's token.
+ * Stops early when the network is down so later entries keep their order.
+ * Skipped while another tab is flushing (Web Locks, where supported).
+ */
+export async function flushOutbox(client: LinkedTrustClient): Promise<void> {
+  const issuerId = owner;
+  if (flushing || !issuerId || typeof indexedDB === 'undefined') return;
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+
+  flushing = true;
+  try {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      await navigator.locks.request(FLUSH_LOCK, { ifAvailable: true }, lock =>
+        lock ? replayDueEntries(client, issuerId) : undefined
+      );
+    } else {
+      await replayDueEntries(client, issuerId);
+    }
+  } finally {
+    flushing = false;
+  }
+}
+
+/**
+ * Make `issuerId` the outbox's owner, then flush now, whenever the browser
+ * comes back online, and on a fixed interval. `client` must carry that
+ * user's token. Returns a cleanup function, to call when they sign out.
+ */
+export function startOutboxSync(client: LinkedTrustClient, issuerId: number | string): () => void {
+  owner = String(issuerId);
+  notify();
+
+  const flush = () => {
+    flushOutbox(client).catch(error => console.error('Outbox sync failed:', error));
+  };
+
+  flush();
+  window.addEventListener('online', flush);
+  const interval = window.setInterval(flush, SYNC_INTERVAL_MS);
+
+  return () => {
+    window.removeEventListener('online', flush);
+    window.clearInterval(interval);
+    if (owner === String(issuerId)) {
+      owner = null;
+      notify();
+    }
+  };
+}
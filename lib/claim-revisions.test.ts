@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getCurrentClaimId, reviseClaim } from '@/lib/claim-revisions';
+import { Claim, ClaimInput, LinkedTrustClient } from '@/lib/linkedtrust-client';
+
+const stores = vi.hoisted(() => new Map<string, unknown>());
+
+// Serialized per store, like the real one
+vi.mock('@/lib/json-store', () => {
+  const queues = new Map<string, Promise<unknown>>();
+  return {
+    readStore: async (name: string, fallback: unknown) => structuredClone(stores.get(name) ?? fallback),
+    updateStore: (name: string, fallback: unknown, mutate: (store: unknown) => unknown) => {
+      const next = (queues.get(name) || Promise.resolve()).catch(() => undefined).then(async () => {
+        const store = structuredClone(stores.get(name) ?? fallback);
+        await mutate(store);
+        stores.set(name, store);
+        return store;
+      });
+      queues.set(name, next);
+      return next;
+    },
+  };
+});
+
+const claims = new Map<number, Claim>();
+let nextId = 100;
+const getClaim = vi.fn(async (claimId: number) => claims.get(claimId)!);
+const createClaim = vi.fn();
+const deleteClaim = vi.fn();
+const client = { getClaim, createClaim, deleteClaim } as unknown as LinkedTrustClient;
+
+function addClaim(id: number): void {
+  claims.set(id, { id, subject: 'https://example.com/project', claim: 'HAS', statement: 'Built a robot', issuerId: '1' });
+}
+
+// A claim the test releases with the returned function, to hold LinkedTrust mid-edit
+function holdCreateClaim(): () => void {
+  let release!: () => void;
+  const held = new Promise<void>(resolve => { release = resolve; });
+  createClaim.mockImplementationOnce(async (input: ClaimInput) => {
+    await held;
+    return { id: nextId++, ...input };
+  });
+  return () => release();
+}
+
+const options = { authorName: 'Owner' };
+
+beforeEach(() => {
+  stores.clear();
+  claims.clear();
+  addClaim(10);
+  addClaim(20);
+  createClaim.mockReset().mockImplementation(async (input: ClaimInput) => ({ id: nextId++, ...input }));
+  deleteClaim.mockReset().mockResolvedValue(undefined);
+});
+
+describe('reviseClaim', () => {
+  it('does not hold the revisions store while LinkedTrust creates the copy', async () => {
+    const release = holdCreateClaim();
+    const editing = reviseClaim(client, 10, 1, { statement: 'Built two robots' }, options);
+    await vi.waitFor(() => expect(createClaim).toHaveBeenCalled());
+
+    const other = await reviseClaim(client, 20, 1, { statement: 'Built a drone' }, options);
+    expect(await getCurrentClaimId(20)).toBe(other.id);
+
+    release();
+    const revised = await editing;
+    expect(await getCurrentClaimId(10)).toBe(revised.id);
+  });
+
+  it('lets only one of two simultaneous edits of a claim through', async () => {
+    const release = holdCreateClaim();
+    const first = reviseClaim(client, 10, 1, { statement: 'Built two robots' }, options);
+    await vi.waitFor(() => expect(createClaim).toHaveBeenCalled());
+
+    await expect(reviseClaim(client, 10, 1, { statement: 'Built three robots' }, options)).rejects.toMatchObject({
+      code: 'CONFLICT',
+    });
+
+    release();
+    const revised = await first;
+    expect(createClaim).toHaveBeenCalledTimes(1);
+    expect(await getCurrentClaimId(10)).toBe(revised.id);
+  });
+
+  it('deletes its copy when the claim was superseded before the edit could be recorded', async () => {
+    createClaim.mockImplementationOnce(async (input: ClaimInput) => {
+      // An edit that outlived its reservation got there first
+      addClaim(99);
+      stores.set('claim-revisions', { '10': { supersededBy: 99, issuerId: '1', createdAt: new Date().toISOString() } });
+      return { id: 500, ...input };
+    });
+
+    await expect(reviseClaim(client, 10, 1, { statement: 'Built two robots' }, options)).rejects.toMatchObject({
+      code: 'CONFLICT',
+      conflict: { currentClaimId: 99 },
+    });
+    expect(deleteClaim).toHaveBeenCalledWith(500);
+    expect(await getCurrentClaimId(10)).toBe(99);
+  });
+});
@@ -0,0 +1,279 @@
+import { moveEvidenceToClaim } from '@/lib/claim-evidence';
+import { isOwnClaim, moveVisibilityToClaim } from '@/lib/claim-visibility';
+import { getEndorsementsForClaims, moveEndorsementsToClaim } from '@/lib/endorsements';
+import { readStore, updateStore } from '@/lib/json-store';
+import { Claim, ClaimInput, LinkedTrustClient, claimUri } from '@/lib/linkedtrust-client';
+import { ClaimRevision, ClaimVersion, RevisionConflict, changedFields, revisionOf } from '@/lib/revisions';
+import { getConfirmedValidationsForClaims, moveValidationsToClaim } from '@/lib/validations';
+
+/**
+ * Which backend claims have been superseded by an edit, and by what.
+ *
+ * LinkedTrust keeps every claim, so this store is what makes an edited
+ * achievement read as one achievement: superseded claims are left out of
+ * listings, their permalinks redirect to the current claim, and the records
+ * TrustFolio keeps per claim move along with each edit. Walked backwards,
+ * the store gives an achievement's version history.
+ *
+ * Server-only: never import from client components.
+ */
+
+const STORE = 'claim-revisions';
+
+interface RevisionRecord {
+  supersededBy: number;
+  issuerId: string;
+  // Who made the edit, as shown in the history
+  authorName?: string;
+  // Claim id of the earlier version this edit restored
+  restoredFrom?: number;
+  createdAt: string;
+}
+
+// Keyed by the superseded claim's id
+type RevisionStore = { [claimId: string]: RevisionRecord };
+
+const EDITS_STORE = 'claim-revisions-in-progress';
+
+// An edit that hasn't finished by then is assumed to have crashed, and the claim can be edited again
+const EDIT_TIMEOUT_MS = 5 * 60_000;
+
+// When each claim's edit in progress started, keyed by claim id
+type EditStore = { [claimId: string]: string };
+
+export type RevisionErrorCode = 'FORBIDDEN' | 'CONFLICT';
+
+/**
+ * Error from reviseClaim; `code` tells the route which status to return.
+ * Conflicts carry what the achievement looks like now.
+ */
+export class RevisionError extends Error {
+  readonly code: RevisionErrorCode;
+  readonly conflict?: RevisionConflict;
+
+  constructor(message: string, code: RevisionErrorCode, conflict?: RevisionConflict) {
+    super(message);
+    this.name = 'RevisionError';
+    this.code = code;
+    this.conflict = conflict;
+  }
+}
+
+// Follow a chain of edits to the claim at its end
+function currentIdIn(store: RevisionStore, claimId: number): number {
+  let current = claimId;
+  const seen = new Set<number>();
+  while (store[String(current)] && !seen.has(current)) {
+    seen.add(current);
+    current = store[String(current)].supersededBy;
+  }
+  return current;
+}
+
+// The claim that now stands for an achievement; the claim itself when it was never edited
+export async function getCurrentClaimId(claimId: number): Promise<number> {
+  return currentIdIn(await readStore<RevisionStore>(STORE, {}), claimId);
+}
+
+// Drop claims that have been superseded by an edit
+export async function filterCurrentClaims<T extends Pick<Claim, 'id'>>(claims: T[]): Promise<T[]> {
+  const store = await readStore<RevisionStore>(STORE, {});
+  return claims.filter(claim => !store[String(claim.id)]);
+}
+
+// The issuer's superseded claims, mapped to the claim that now stands for each
+export async function getSupersededClaims(issuerId: number | string): Promise<{ [claimId: string]: number }> {
+  const store = await readStore<RevisionStore>(STORE, {});
+  const result: { [claimId: string]: number } = {};
+  for (const [claimId, record] of Object.entries(store)) {
+    if (record.issuerId === String(issuerId)) result[claimId] = currentIdIn(store, Number(claimId));
+  }
+  return result;
+}
+
+// Claim ids of an achievement's versions, oldest first, ending with `claimId`
+function versionIdsIn(store: RevisionStore, claimId: number): number[] {
+  const ids = [claimId];
+  for (;;) {
+    const previous = Object.entries(store).find(([, record]) => record.supersededBy === ids[0]);
+    if (!previous || ids.includes(Number(previous[0]))) return ids;
+    ids.unshift(Number(previous[0]));
+  }
+}
+
+// Claim ids of every version of the achievement a claim belongs to, oldest first
+export async function getVersionClaimIds(claimId: number): Promise<number[]> {
+  const store = await readStore<RevisionStore>(STORE, {});
+  return versionIdsIn(store, currentIdIn(store, claimId));
+}
+
+/**
+ * Every version of the achievement a claim belongs to, newest first, with
+ * how many endorsements and confirmed validations each one received.
+ * Versions are read from LinkedTrust with `client`.
+ *
+ * @param ownerName - shown as the author of the first version
+ */
+export async function getClaimVersions(
+  client: LinkedTrustClient,
+  claimId: number,
+  ownerName: string
+): Promise<ClaimVersion[]> {
+  const store = await readStore<RevisionStore>(STORE, {});
+  const currentClaimId = currentIdIn(store, claimId);
+  const ids = versionIdsIn(store, currentClaimId);
+
+  const [claims, endorsements, validations] = await Promise.all([
+    Promise.all(ids.map(id => client.getClaim(id))),
+    getEndorsementsForClaims([currentClaimId]),
+    getConfirmedValidationsForClaims([currentClaimId]),
+  ]);
+  // Endorsements and validations given before an edit remember the version they were for
+  const countFor = (versionId: number) => ({
+    endorsements: (endorsements[currentClaimId] || [])
+      .filter(endorsement => (endorsement.endorsedClaimId ?? endorsement.claimId) === versionId).length,
+    validations: (validations[currentClaimId] || [])
+      .filter(validation => (validation.validatedClaimId ?? validation.claimId) === versionId).length,
+  });
+
+  const versions = ids.map((id, index): ClaimVersion => {
+    // The edit that created this version is recorded under the version before it
+    const record = index > 0 ? store[String(ids[index - 1])] : undefined;
+    const restoredFrom = record?.restoredFrom !== undefined ? ids.indexOf(record.restoredFrom) + 1 : 0;
+    return {
+      number: index + 1,
+      claimId: id,
+      fields: revisionOf(claims[index]),
+      createdAt: record?.createdAt || claims[index].createdAt || '',
+      authorName: record?.authorName || ownerName,
+      ...(restoredFrom > 0 && { restoredFrom }),
+      ...countFor(id),
+    };
+  });
+  return versions.reverse();
+}
+
+const EDITED_ELSEWHERE = 'This achievement was edited elsewhere since you opened it';
+
+// A conflict with the claim that superseded the one being edited
+async function editedElsewhere(client: LinkedTrustClient, currentClaimId: number): Promise<RevisionError> {
+  return new RevisionError(EDITED_ELSEWHERE, 'CONFLICT', {
+    error: EDITED_ELSEWHERE,
+    currentClaimId,
+    current: revisionOf(await client.getClaim(currentClaimId)),
+    changed: [],
+  });
+}
+
+/**
+ * Replace one of the issuer's claims with an edited copy issued with their
+ * token. The original stays on LinkedTrust; the copy's `supersedes` points
+ * at it. The claim is reserved while the copy is written, so two edits of it
+ * can't both go through, and a copy that can't be recorded is deleted again.
+ *
+ * @param options.expected - the fields the edit started from; when the claim
+ *   no longer has them, nothing is written and a CONFLICT is thrown
+ * @param options.authorName - who is editing, for the history
+ * @param options.restoredFrom - claim id of the earlier version being restored
+ * @throws RevisionError, or LinkedTrustError when LinkedTrust fails
+ */
+export async function reviseClaim(
+  client: LinkedTrustClient,
+  claimId: number,
+  issuerId: number | string,
+  changes: ClaimRevision,
+  options: { expected?: ClaimRevision; authorName: string; restoredFrom?: number }
+): Promise<Claim> {
+  const { expected, authorName, restoredFrom } = options;
+  const original = await client.getClaim(claimId);
+  if (!isOwnClaim(original, issuerId)) {
+    throw new RevisionError('You can only edit your own achievements', 'FORBIDDEN');
+  }
+
+  const current = revisionOf(original);
+  const changed = expected ? changedFields(expected, current) : [];
+  if (changed.length > 0) {
+    throw new RevisionError('This achievement changed since you opened it', 'CONFLICT', {
+      error: 'This achievement changed since you opened it',
+      currentClaimId: claimId,
+      current,
+      changed,
+    });
+  }
+
+  // LinkedTrust is called outside the store locks, which every other store update waits on
+  let supersededBy: number | undefined;
+  await updateStore<EditStore>(EDITS_STORE, {}, async edits => {
+    const currentClaimId = currentIdIn(await readStore<RevisionStore>(STORE, {}), claimId);
+    if (currentClaimId !== claimId) {
+      supersededBy = currentClaimId;
+      return;
+    }
+    const startedAt = edits[String(claimId)];
+    if (startedAt && Date.now() - Date.parse(startedAt) < EDIT_TIMEOUT_MS) {
+      throw new RevisionError('This achievement is being edited elsewhere', 'CONFLICT', {
+        error: 'This achievement is being edited elsewhere',
+        currentClaimId: claimId,
+        current,
+        changed: [],
+      });
+    }
+    edits[String(claimId)] = new Date().toISOString();
+  });
+  if (supersededBy !== undefined) throw await editedElsewhere(client, supersededBy);
+
+  const input: ClaimInput = {
+    subject: original.subject,
+    claim: original.claim,
+    statement: original.statement,
+    effectiveDate: original.effectiveDate || new Date().toISOString().split('T')[0],
+    howKnown: original.howKnown || 'FIRST_HAND',
+    stars: original.stars,
+    aspect: original.aspect,
+    ...(original.sourceURI && { sourceURI: original.sourceURI }),
+    ...(original.digestMultibase && { digestMultibase: original.digestMultibase }),
+    ...changes,
+    supersedes: claimUri(claimId),
+  };
+
+  let revised: Claim | undefined;
+  try {
+    revised = await client.createClaim(input);
+    const revisedId = revised.id;
+    // Only an edit that outlived its reservation can find the claim superseded by now
+    await updateStore<RevisionStore>(STORE, {}, store => {
+      const currentClaimId = currentIdIn(store, claimId);
+      if (currentClaimId !== claimId) {
+        supersededBy = currentClaimId;
+        return;
+      }
+      store[String(claimId)] = {
+        supersededBy: revisedId,
+        issuerId: String(issuerId),
+        authorName,
+        ...(restoredFrom !== undefined && { restoredFrom }),
+        createdAt: new Date().toISOString(),
+      };
+    });
+    if (supersededBy !== undefined) throw await editedElsewhere(client, supersededBy);
+  } catch (error) {
+    // Don't leave a copy no listing knows about on LinkedTrust
+    if (revised) {
+      const orphanId = revised.id;
+      await client.deleteClaim(orphanId).catch(deleteError => {
+        console.error(`Failed to delete unrecorded revision ${orphanId} of claim ${claimId}:`, deleteError);
+      });
+    }
+    throw error;
+  } finally {
+    await updateStore<EditStore>(EDITS_STORE, {}, edits => {
+      delete edits[String(claimId)];
+    });
+  }
+
+  await moveVisibilityToClaim(claimId, revised.id);
+  await moveEvidenceToClaim(claimId, revised.id);
+  await moveEndorsementsToClaim(claimId, revised.id);
+  await moveValidationsToClaim(claimId, revised.id);
+  return revised;
+}
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { isClaimTrashed, purgeAllExpiredTrash, trashClaims } from '@/lib/claim-trash';
+import { LinkedTrustClient, LinkedTrustError } from '@/lib/linkedtrust-client';
+import { TRASH_RETENTION_DAYS } from '@/lib/trash';
+
+const stores = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('@/lib/json-store', () => ({
+  readStore: async (name: string, fallback: unknown) => structuredClone(stores.get(name) ?? fallback),
+  updateStore: async (name: string, fallback: unknown, mutate: (store: unknown) => unknown) => {
+    const store = structuredClone(stores.get(name) ?? fallback);
+    await mutate(store);
+    stores.set(name, store);
+    return store;
+  },
+}));
+
+// Claim 1 was edited into claim 2
+vi.mock('@/lib/claim-revisions', () => ({
+  getVersionClaimIds: async (claimId: number) => (claimId === 2 ? [1, 2] : [claimId]),
+}));
+
+const deleteClaim = vi.fn();
+const client = { deleteClaim } as unknown as LinkedTrustClient;
+
+beforeEach(() => {
+  stores.clear();
+  deleteClaim.mockReset().mockResolvedValue(undefined);
+  vi.useRealTimers();
+});
+
+async function trashDaysAgo(days: number, claimIds: number[], issuerId: string) {
+  vi.useFakeTimers({ now: Date.now() - days * 24 * 60 * 60_000 });
+  await trashClaims(claimIds, issuerId);
+  vi.useRealTimers();
+}
+
+describe('purgeAllExpiredTrash', () => {
+  it("deletes every issuer's expired claims, with their earlier versions", async () => {
+    await trashDaysAgo(TRASH_RETENTION_DAYS + 1, [2], 'alice');
+    await trashDaysAgo(TRASH_RETENTION_DAYS + 1, [5], 'bob');
+    await trashDaysAgo(1, [7], 'bob');
+
+    const result = await purgeAllExpiredTrash(client);
+
+    expect(result).toEqual({ purged: [2, 5], failed: [] });
+    expect(deleteClaim.mock.calls.map(([id]) => id)).toEqual([1, 2, 5]);
+    expect(await isClaimTrashed(2)).toBe(false);
+    expect(await isClaimTrashed(7)).toBe(true);
+  });
+
+  it("keeps going when one issuer's claims can't be deleted", async () => {
+    await trashDaysAgo(TRASH_RETENTION_DAYS + 1, [5], 'bob');
+    await trashDaysAgo(TRASH_RETENTION_DAYS + 1, [9], 'carol');
+    deleteClaim.mockImplementation(async (id: number) => {
+      if (id === 5) throw new LinkedTrustError('Forbidden', 'FORBIDDEN', 403);
+    });
+
+    const result = await purgeAllExpiredTrash(client);
+
+    expect(result).toEqual({ purged: [9], failed: [{ issuerId: 'bob', error: 'Forbidden' }] });
+    expect(await isClaimTrashed(5)).toBe(true);
+  });
+
+  it('counts claims LinkedTrust no longer has as deleted', async () => {
+    await trashDaysAgo(TRASH_RETENTION_DAYS + 1, [5], 'bob');
+    deleteClaim.mockRejectedValue(new LinkedTrustError('Not found', 'NOT_FOUND', 404));
+
+    expect((await purgeAllExpiredTrash(client)).purged).toEqual([5]);
+  });
+});
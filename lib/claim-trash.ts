@@ -0,0 +1,143 @@
+import { getVersionClaimIds } from '@/lib/claim-revisions';
+import { readStore, updateStore } from '@/lib/json-store';
+import { Claim, LinkedTrustClient, isLinkedTrustError } from '@/lib/linkedtrust-client';
+import { isTrashExpired } from '@/lib/trash';
+
+/**
+ * Trashed backend achievements. Deleting from the portfolio records the
+ * claim here instead of deleting it from LinkedTrust, and every page that
+ * lists or shows achievements leaves trashed ones out. Restoring removes the
+ * record; deleting permanently - by hand, or once the retention window has
+ * passed - deletes every version of the achievement from LinkedTrust.
+ * Until then the claims stay public on LinkedTrust itself.
+ *
+ * Server-only: never import from client components.
+ */
+
+const STORE = 'claim-trash';
+
+interface TrashRecord {
+  issuerId: string;
+  deletedAt: string;
+}
+
+// Keyed by backend claim id
+type TrashStore = { [claimId: string]: TrashRecord };
+
+/**
+ * Move claims to the trash. The caller must already have checked that
+ * `issuerId` owns them (see isOwnClaim); claims already there keep their date.
+ */
+export async function trashClaims(claimIds: number[], issuerId: number | string): Promise<void> {
+  const deletedAt = new Date().toISOString();
+  await updateStore<TrashStore>(STORE, {}, store => {
+    for (const claimId of claimIds) {
+      store[String(claimId)] ||= { issuerId: String(issuerId), deletedAt };
+    }
+  });
+}
+
+// Take the issuer's claims out of the trash; others' claims are left alone
+export async function restoreClaims(claimIds: number[], issuerId: number | string): Promise<void> {
+  await updateStore<TrashStore>(STORE, {}, store => {
+    for (const claimId of claimIds) {
+      if (store[String(claimId)]?.issuerId === String(issuerId)) delete store[String(claimId)];
+    }
+  });
+}
+
+// When each of the issuer's trashed claims was deleted, keyed by claim id
+export async function getTrashForIssuer(issuerId: number | string): Promise<{ [claimId: string]: string }> {
+  const store = await readStore<TrashStore>(STORE, {});
+  const result: { [claimId: string]: string } = {};
+  for (const [claimId, record] of Object.entries(store)) {
+    if (record.issuerId === String(issuerId)) result[claimId] = record.deletedAt;
+  }
+  return result;
+}
+
+export async function isClaimTrashed(claimId: number): Promise<boolean> {
+  const store = await readStore<TrashStore>(STORE, {});
+  return !!store[String(claimId)];
+}
+
+// Drop trashed claims
+export async function filterUntrashedClaims<T extends Pick<Claim, 'id'>>(claims: T[]): Promise<T[]> {
+  const store = await readStore<TrashStore>(STORE, {});
+  return claims.filter(claim => !store[String(claim.id)]);
+}
+
+/**
+ * Delete the issuer's trashed claims from LinkedTrust for good, along with
+ * the earlier versions they superseded, using the issuer's `client`.
+ * Claims that aren't in the issuer's trash are skipped; claims LinkedTrust
+ * no longer has count as deleted.
+ *
+ * @returns ids of the claims that left the trash
+ */
+export async function purgeClaims(
+  client: LinkedTrustClient,
+  claimIds: number[],
+  issuerId: number | string
+): Promise<number[]> {
+  const store = await readStore<TrashStore>(STORE, {});
+  const purged: number[] = [];
+
+  for (const claimId of claimIds) {
+    if (store[String(claimId)]?.issuerId !== String(issuerId)) continue;
+    for (const versionId of await getVersionClaimIds(claimId)) {
+      try {
+        await client.deleteClaim(versionId);
+      } catch (error) {
+        if (!(isLinkedTrustError(error) && error.code === 'NOT_FOUND')) throw error;
+      }
+    }
+    purged.push(claimId);
+  }
+
+  await updateStore<TrashStore>(STORE, {}, current => {
+    for (const claimId of purged) delete current[String(claimId)];
+  });
+  return purged;
+}
+
+// Trashed claims past the retention window, grouped by issuer
+async function expiredTrashByIssuer(issuerId?: number | string): Promise<Map<string, number[]>> {
+  const store = await readStore<TrashStore>(STORE, {});
+  const expired = new Map<string, number[]>();
+  for (const [claimId, record] of Object.entries(store)) {
+    if (issuerId !== undefined && record.issuerId !== String(issuerId)) continue;
+    if (!isTrashExpired(record.deletedAt)) continue;
+    expired.set(record.issuerId, [...(expired.get(record.issuerId) || []), Number(claimId)]);
+  }
+  return expired;
+}
+
+// Permanently delete the issuer's claims that have been in the trash past the retention window
+export async function purgeExpiredTrash(client: LinkedTrustClient, issuerId: number | string): Promise<number[]> {
+  const expired = (await expiredTrashByIssuer(issuerId)).get(String(issuerId)) || [];
+  return expired.length > 0 ? purgeClaims(client, expired, issuerId) : [];
+}
+
+export interface TrashPurgeResult {
+  purged: number[];
+  failed: { issuerId: string; error: string }[];
+}
+
+/**
+ * Scheduled counterpart of purgeExpiredTrash, for every issuer, so expired
+ * claims leave LinkedTrust even when their owner never comes back. `client`
+ * must be allowed to delete anyone's claims (LINKEDTRUST_SERVICE_TOKEN).
+ * One issuer's failure doesn't stop the others; they are retried next run.
+ */
+export async function purgeAllExpiredTrash(client: LinkedTrustClient): Promise<TrashPurgeResult> {
+  const result: TrashPurgeResult = { purged: [], failed: [] };
+  for (const [issuerId, claimIds] of await expiredTrashByIssuer()) {
+    try {
+      result.purged.push(...await purgeClaims(client, claimIds, issuerId));
+    } catch (error) {
+      result.failed.push({ issuerId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return result;
+}
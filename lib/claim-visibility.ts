@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import { readStore, updateStore } from '@/lib/json-store';
+import { Claim, userUri } from '@/lib/linkedtrust-client';
+import { ClaimVisibilityInfo, Visibility } from '@/lib/visibility';
+
+/**
+ * Visibility store for backend claims. LinkedTrust has no notion of hidden
+ * claims, so TrustFolio records the owner's choice here and every page that
+ * shows claims to other people filters through it.
+ *
+ * Link-only claims get an unguessable share token; changing the visibility
+ * or regenerating the link invalidates the old token.
+ *
+ * Server-only: never import from client components.
+ */
+
+const STORE = 'claim-visibility';
+
+interface VisibilityRecord {
+  issuerId: string;
+  visibility: Visibility;
+  shareToken?: string;
+  updatedAt: string;
+}
+
+// Keyed by backend claim id
+type VisibilityStore = { [claimId: string]: VisibilityRecord };
+
+export function sharePathFor(token: string): string {
+  return `/s/${token}`;
+}
+
+function toInfo(record: VisibilityRecord): ClaimVisibilityInfo {
+  return record.shareToken
+    ? { visibility: record.visibility, sharePath: sharePathFor(record.shareToken) }
+    : { visibility: record.visibility };
+}
+
+// LinkedTrust has returned issuers both as bare ids and as user URIs
+export function isOwnClaim(claim: Claim, issuerId: number | string): boolean {
+  if (claim.issuerId) {
+    return String(claim.issuerId) === String(issuerId) || claim.issuerId === userUri(issuerId);
+  }
+  return claim.subject === userUri(issuerId);
+}
+
+export async function getVisibilityForIssuer(issuerId: number | string): Promise<{ [claimId: string]: ClaimVisibilityInfo }> {
+  const store = await readStore<VisibilityStore>(STORE, {});
+  const result: { [claimId: string]: ClaimVisibilityInfo } = {};
+  for (const [claimId, record] of Object.entries(store)) {
+    if (record.issuerId === String(issuerId)) result[claimId] = toInfo(record);
+  }
+  return result;
+}
+
+/**
+ * Record a claim's visibility. The caller must already have checked that
+ * `issuerId` owns the claim (see isOwnClaim).
+ */
+export async function setClaimVisibility(
+  claimId: number,
+  issuerId: number | string,
+  visibility: Visibility,
+  regenerateLink: boolean = false
+): Promise<ClaimVisibilityInfo> {
+  let saved: VisibilityRecord | undefined;
+
+  await updateStore<VisibilityStore>(STORE, {}, store => {
+    const previous = store[String(claimId)];
+    const keepToken = visibility === 'link' && !regenerateLink ? previous?.shareToken : undefined;
+
+    saved = {
+      issuerId: String(issuerId),
+      visibility,
+      ...(visibility === 'link' && { shareToken: keepToken || crypto.randomBytes(24).toString('base64url') }),
+      updatedAt: new Date().toISOString(),
+    };
+    store[String(claimId)] = saved;
+  });
+
+  return toInfo(saved!);
+}
+
+/**
+ * Hand a claim's visibility to the claim that supersedes it (lib/claim-revisions.ts).
+ * A link-only achievement keeps its share URL.
+ */
+export async function moveVisibilityToClaim(fromClaimId: number, toClaimId: number): Promise<void> {
+  await updateStore<VisibilityStore>(STORE, {}, store => {
+    const record = store[String(fromClaimId)];
+    if (!record) return;
+    store[String(toClaimId)] = record;
+    delete store[String(fromClaimId)];
+  });
+}
+
+// Claims that may appear on a public profile; claims with no record are public
+export async function filterPublicClaims(claims: Claim[]): Promise<Claim[]> {
+  const store = await readStore<VisibilityStore>(STORE, {});
+  return claims.filter(claim => (store[String(claim.id)]?.visibility ?? 'public') === 'public');
+}
+
+export async function isClaimPublic(claimId: number): Promise<boolean> {
+  const store = await readStore<VisibilityStore>(STORE, {});
+  return (store[String(claimId)]?.visibility ?? 'public') === 'public';
+}
+
+// The claim a share token points to, while that claim is still link-only
+export async function resolveShareToken(token: string): Promise<{ claimId: number; issuerId: string } | null> {
+  const store = await readStore<VisibilityStore>(STORE, {});
+  const match = Object.entries(store).find(
+    ([, record]) => record.visibility === 'link' && !!record.shareToken && record.shareToken === token
+  );
+  return match ? { claimId: Number(match[0]), issuerId: match[1].issuerId } : null;
+}
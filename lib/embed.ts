@@ -0,0 +1,87 @@
+import type { CardTheme } from '@/components/AchievementCard';
+
+/**
+ * Embeddable portfolio widget for personal sites.
+ *
+ * Sites add `<script src="https://<trustfolio>/embed.js" data-username="dana">`;
+ * the loader (app/embed.js/route.ts) inserts an iframe pointing at
+ * /embed/[username] and resizes it from the height the page posts back.
+ *
+ * Options, as script data attributes or iframe query parameters:
+ * - theme: light | dark
+ * - category: only achievements with this aspect
+ * - limit: how many achievements to show (newest first)
+ */
+
+export const EMBED_DEFAULT_LIMIT = 5;
+export const EMBED_MAX_LIMIT = 20;
+
+// postMessage type the embed page uses to report its height to the loader
+export const EMBED_RESIZE_MESSAGE = 'trustfolio:resize';
+
+export interface EmbedOptions {
+  theme: CardTheme;
+  category: string | null;
+  limit: number;
+}
+
+type SearchParams = { [key: string]: string | string[] | undefined };
+
+function firstValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Unknown or out-of-range values fall back to the defaults rather than failing the embed
+export function parseEmbedOptions(params: SearchParams): EmbedOptions {
+  const theme = firstValue(params.theme) === 'dark' ? 'dark' : 'light';
+  const category = firstValue(params.category)?.trim().toLowerCase() || null;
+  const limit = Number.parseInt(firstValue(params.limit) || '', 10);
+
+  return {
+    theme,
+    category,
+    limit: Number.isFinite(limit) ? Math.min(EMBED_MAX_LIMIT, Math.max(1, limit)) : EMBED_DEFAULT_LIMIT,
+  };
+}
+
+/**
+ * Source of the script-tag loader served at /embed.js. `origin` is baked in
+ * so the loader only trusts resize messages from TrustFolio's own iframe.
+ */
+export function embedLoaderScript(origin: string): string {
+  return `(function () {
+  var ORIGIN = ${JSON.stringify(origin)};
+  var script = document.currentScript;
+  if (!script) return;
+
+  var username = script.getAttribute('data-username');
+  if (!username) {
+    console.error('TrustFolio embed: add a data-username attribute to the script tag');
+    return;
+  }
+
+  var params = new URLSearchParams();
+  ['theme', 'category', 'limit'].forEach(function (name) {
+    var value = script.getAttribute('data-' + name);
+    if (value) params.set(name, value);
+  });
+  var query = params.toString();
+
+  var iframe = document.createElement('iframe');
+  iframe.src = ORIGIN + '/embed/' + encodeURIComponent(username) + (query ? '?' + query : '');
+  iframe.title = 'TrustFolio achievements';
+  iframe.loading = 'lazy';
+  iframe.style.cssText = 'display:block;width:100%;max-width:640px;height:400px;border:0;';
+  iframe.setAttribute('sandbox', 'allow-scripts allow-same-origin allow-popups allow-popups-to-escape-sandbox');
+  script.parentNode.insertBefore(iframe, script.nextSibling);
+
+  window.addEventListener('message', function (event) {
+    if (event.origin !== ORIGIN || event.source !== iframe.contentWindow) return;
+    var data = event.data;
+    if (data && data.type === ${JSON.stringify(EMBED_RESIZE_MESSAGE)} && typeof data.height === 'number') {
+      iframe.style.height = Math.ceil(data.height) + 'px';
+    }
+  });
+})();
+`;
+}
@@ -0,0 +1,56 @@
+import type { Claim } from '@/lib/linkedtrust-client';
+
+/**
+ * Endorsements: LinkedClaims in which someone else vouches for a student's
+ * achievement. The endorsement's subject is the original claim's URI
+ * (claimUri) and its issuer is the endorser.
+ *
+ * Shared by the endorsement form (instant feedback), the server (enforcement)
+ * and every view that lists achievements.
+ */
+
+// Claim type of an endorsement on LinkedTrust
+export const ENDORSEMENT_CLAIM = 'ENDORSES';
+
+export const ENDORSEMENT_MIN_LENGTH = 10;
+export const ENDORSEMENT_MAX_LENGTH = 500;
+
+// An endorsement as shown under the achievement it vouches for
+export interface Endorsement {
+  // LinkedTrust id of the endorsement claim
+  id: number;
+  // The achievement being endorsed
+  claimId: number;
+  // Set once the achievement has been edited: the earlier version that was endorsed
+  endorsedClaimId?: number;
+  endorserName: string;
+  // Set when the endorser has a public portfolio
+  endorserUsername?: string;
+  statement: string;
+  stars: number;
+  createdAt: string;
+}
+
+// Endorsements live in the endorser's claims; portfolios list only their own achievements
+export function isEndorsementClaim(claim: Pick<Claim, 'claim'>): boolean {
+  return claim.claim === ENDORSEMENT_CLAIM;
+}
+
+/**
+ * Check an endorsement before it is sent.
+ *
+ * @returns a human-readable problem, or null when the endorsement is acceptable
+ */
+export function validateEndorsement(statement: string, stars: number): string | null {
+  const length = statement.trim().length;
+  if (length < ENDORSEMENT_MIN_LENGTH) {
+    return `Please write at least ${ENDORSEMENT_MIN_LENGTH} characters about this achievement`;
+  }
+  if (length > ENDORSEMENT_MAX_LENGTH) {
+    return `Endorsements can be at most ${ENDORSEMENT_MAX_LENGTH} characters`;
+  }
+  if (!Number.isInteger(stars) || stars < 1 || stars > 5) {
+    return 'Rating must be between 1 and 5 stars';
+  }
+  return null;
+}
@@ -0,0 +1,151 @@
+import { signToken, verifyToken } from '@/lib/app-secret';
+import { Endorsement } from '@/lib/endorsement-policy';
+import { readStore, updateStore } from '@/lib/json-store';
+
+/**
+ * Endorsement requests and the record of endorsements made through them.
+ *
+ * A student asks for an endorsement by sending a signed request link
+ * (/endorse/[token]) for one of their claims; the link can be shared with
+ * several people until it expires. Each endorsement is a LinkedClaim issued
+ * by the endorser; this store remembers which ones came through a genuine
+ * request, so only those are shown under the achievement.
+ *
+ * Server-only: never import from client components.
+ */
+
+const PURPOSE = 'endorsement-request';
+const STORE = 'endorsements';
+
+export const ENDORSEMENT_REQUEST_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+interface EndorsementRequest {
+  claimId: number;
+  ownerIssuerId: string;
+}
+
+interface EndorsementRecord extends Endorsement {
+  ownerIssuerId: string;
+  endorserIssuerId: string;
+}
+
+// Keyed by endorsement claim id
+type EndorsementStore = { [endorsementId: string]: EndorsementRecord };
+
+export function createEndorsementRequest(claimId: number, ownerIssuerId: number | string): string {
+  return signToken<EndorsementRequest>(
+    PURPOSE,
+    { claimId, ownerIssuerId: String(ownerIssuerId) },
+    ENDORSEMENT_REQUEST_TTL_SECONDS
+  );
+}
+
+// The claim a request link is for, or null if the link is invalid or expired
+export function verifyEndorsementRequest(token: string): EndorsementRequest | null {
+  const payload = verifyToken<EndorsementRequest>(PURPOSE, token);
+  return payload ? { claimId: payload.claimId, ownerIssuerId: payload.ownerIssuerId } : null;
+}
+
+// Issuer ids stay server-side; pages only need names
+function toEndorsement(record: EndorsementRecord): Endorsement {
+  const { id, claimId, endorsedClaimId, endorserName, endorserUsername, statement, stars, createdAt } = record;
+  return {
+    id,
+    claimId,
+    ...(endorsedClaimId && { endorsedClaimId }),
+    endorserName,
+    ...(endorserUsername && { endorserUsername }),
+    statement,
+    stars,
+    createdAt,
+  };
+}
+
+export async function hasEndorsed(claimId: number, endorserIssuerId: number | string): Promise<boolean> {
+  const store = await readStore<EndorsementStore>(STORE, {});
+  return Object.values(store).some(
+    record => record.claimId === claimId && record.endorserIssuerId === String(endorserIssuerId)
+  );
+}
+
+export async function recordEndorsement(
+  endorsement: Endorsement,
+  ownerIssuerId: number | string,
+  endorserIssuerId: number | string
+): Promise<void> {
+  await updateStore<EndorsementStore>(STORE, {}, store => {
+    store[String(endorsement.id)] = {
+      ...endorsement,
+      ownerIssuerId: String(ownerIssuerId),
+      endorserIssuerId: String(endorserIssuerId),
+    };
+  });
+}
+
+/**
+ * Show an achievement's endorsements under the claim that supersedes it
+ * (lib/claim-revisions.ts), remembering which version was endorsed.
+ */
+export async function moveEndorsementsToClaim(fromClaimId: number, toClaimId: number): Promise<void> {
+  await updateStore<EndorsementStore>(STORE, {}, store => {
+    for (const record of Object.values(store)) {
+      if (record.claimId !== fromClaimId) continue;
+      record.endorsedClaimId ??= fromClaimId;
+      record.claimId = toClaimId;
+    }
+  });
+}
+
+function groupByClaim(records: EndorsementRecord[]): { [claimId: string]: Endorsement[] } {
+  const grouped: { [claimId: string]: Endorsement[] } = {};
+  for (const record of records.sort((a, b) => b.createdAt.localeCompare(a.createdAt))) {
+    (grouped[record.claimId] ||= []).push(toEndorsement(record));
+  }
+  return grouped;
+}
+
+// Endorsements of the given claims, newest first, keyed by claim id
+export async function getEndorsementsForClaims(claimIds: number[]): Promise<{ [claimId: string]: Endorsement[] }> {
+  const wanted = new Set(claimIds);
+  const store = await readStore<EndorsementStore>(STORE, {});
+  return groupByClaim(Object.values(store).filter(record => wanted.has(record.claimId)));
+}
+
+// Endorsements of everything the owner has, keyed by claim id
+export async function getEndorsementsForOwner(ownerIssuerId: number | string): Promise<{ [claimId: string]: Endorsement[] }> {
+  const store = await readStore<EndorsementStore>(STORE, {});
+  return groupByClaim(Object.values(store).filter(record => record.ownerIssuerId === String(ownerIssuerId)));
+}
+
+/**
+ * Endorsements of the given claims with each endorser's issuer id, for
+ * walking the claim graph (lib/claim-graph.ts). Not for display.
+ */
+export async function getEndorsementEdges(
+  claimIds: number[]
+): Promise<{ endorsement: Endorsement; endorserIssuerId: string }[]> {
+  const wanted = new Set(claimIds);
+  const store = await readStore<EndorsementStore>(STORE, {});
+  return Object.values(store)
+    .filter(record => wanted.has(record.claimId))
+    .map(record => ({ endorsement: toEndorsement(record), endorserIssuerId: record.endorserIssuerId }));
+}
+
+/**
+ * Endorsements each issuer's achievements have received. Endorsements
+ * written by `excludeEndorserId` are not counted, so two people can't raise
+ * each other's standing by endorsing each other.
+ */
+export async function countEndorsementsReceived(
+  issuerIds: string[],
+  excludeEndorserId?: string
+): Promise<{ [issuerId: string]: number }> {
+  const counts: { [issuerId: string]: number } = Object.fromEntries(issuerIds.map(id => [id, 0]));
+  const store = await readStore<EndorsementStore>(STORE, {});
+  for (const record of Object.values(store)) {
+    if (record.ownerIssuerId in counts && record.endorserIssuerId !== excludeEndorserId) {
+      counts[record.ownerIssuerId]++;
+    }
+  }
+  return counts;
+}
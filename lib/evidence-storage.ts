@@ -0,0 +1,59 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Where uploaded evidence files are kept.
+ *
+ * EVIDENCE_STORAGE selects the backend:
+ * - local (default): files under EVIDENCE_DIR (default .data/evidence), for
+ *   development and single-server deployments
+ *
+ * Other backends (object storage) implement EvidenceStorage and are added to
+ * getEvidenceStorage. Keys are content hashes, so identical uploads share a file.
+ *
+ * Server-only: never import from client components.
+ */
+
+export interface EvidenceStorage {
+  name: string;
+  put(key: string, data: Buffer): Promise<void>;
+  // null when nothing is stored under the key
+  get(key: string): Promise<Buffer | null>;
+  remove(key: string): Promise<void>;
+}
+
+export function createLocalStorage(dir: string): EvidenceStorage {
+  // Two-character fan-out keeps directories small
+  const fileFor = (key: string) => path.join(dir, key.slice(0, 2), key);
+
+  return {
+    name: 'local',
+    async put(key, data) {
+      const file = fileFor(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, data);
+    },
+    async get(key) {
+      try {
+        return await fs.readFile(fileFor(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    async remove(key) {
+      await fs.rm(fileFor(key), { force: true });
+    },
+  };
+}
+
+export function getEvidenceStorage(): EvidenceStorage {
+  const requested = process.env.EVIDENCE_STORAGE || 'local';
+
+  if (requested === 'local') {
+    const dataDir = process.env.TRUSTFOLIO_DATA_DIR || path.join(process.cwd(), '.data');
+    return createLocalStorage(process.env.EVIDENCE_DIR || path.join(dataDir, 'evidence'));
+  }
+
+  throw new Error(`Unknown EVIDENCE_STORAGE "${requested}"`);
+}
@@ -0,0 +1,161 @@
+import { apiRequest } from '@/lib/api-request';
+
+/**
+ * Evidence attached to achievements: uploaded files (certificates,
+ * screenshots) and links (repositories, demos), shared by the create form,
+ * the portfolio and the server-side evidence store (lib/claim-evidence.ts).
+ *
+ * Every item has a SHA-256 hash - of the file's bytes, or of the URL for
+ * links - and a claim carries the digest of its evidence in
+ * `digestMultibase`, so anyone can check the files weren't swapped later.
+ *
+ * Files are served from /api/evidence/[id]/file only where their achievement
+ * is visible: to anyone when it is public, to holders of its share link when
+ * it is link-only (the link adds ?share=), and otherwise to the owner alone.
+ */
+
+export const EVIDENCE_MAX_FILE_BYTES = 10 * 1024 * 1024;
+export const EVIDENCE_MAX_PER_CLAIM = 10;
+
+// Accepted uploads; SVG is left out because it can carry scripts
+export const EVIDENCE_FILE_TYPES: { [contentType: string]: string } = {
+  'application/pdf': 'PDF',
+  'image/png': 'PNG image',
+  'image/jpeg': 'JPEG image',
+  'image/webp': 'WebP image',
+  'image/gif': 'GIF image',
+};
+
+export type EvidenceKind = 'file' | 'link';
+
+// What a link's page says about itself (Open Graph tags or <title>)
+export interface LinkPreview {
+  title?: string;
+  description?: string;
+  siteName?: string;
+  imageUrl?: string;
+}
+
+export interface Evidence {
+  id: string;
+  kind: EvidenceKind;
+  // File name, or the link's host when it has no title
+  name: string;
+  // Where to open it: /api/evidence/[id]/file for files, the link itself otherwise
+  url: string;
+  contentType?: string;
+  size?: number;
+  // Hex SHA-256 of the file bytes or of the normalized URL
+  sha256: string;
+  preview?: LinkPreview;
+  // Set once the evidence is attached to a backend claim
+  claimId?: number;
+  createdAt: string;
+}
+
+export function evidenceFileUrl(evidenceId: string): string {
+  return `/api/evidence/${evidenceId}/file`;
+}
+
+export function isImageEvidence(evidence: Evidence): boolean {
+  return evidence.kind === 'file' && !!evidence.contentType?.startsWith('image/');
+}
+
+/**
+ * Check a file before it is uploaded.
+ *
+ * @returns a human-readable problem, or null when the file is acceptable
+ */
+export function validateEvidenceFile(file: { type: string; size: number }): string | null {
+  if (!EVIDENCE_FILE_TYPES[file.type]) {
+    return 'Evidence files must be PDFs or PNG, JPEG, WebP or GIF images';
+  }
+  if (file.size > EVIDENCE_MAX_FILE_BYTES) {
+    return `Evidence files can be at most ${EVIDENCE_MAX_FILE_BYTES / (1024 * 1024)} MB`;
+  }
+  return null;
+}
+
+/**
+ * Check a link before it is added.
+ *
+ * @returns a human-readable problem, or null when the link is acceptable
+ */
+export function validateEvidenceLink(url: string): string | null {
+  try {
+    const parsed = new URL(url.trim());
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      return 'Links must start with http:// or https://';
+    }
+    return null;
+  } catch {
+    return 'Please enter a full link, like https://github.com/you/project';
+  }
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g) || [], byte => parseInt(byte, 16));
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Digest of a claim's evidence for its `digestMultibase` field: a sha2-256
+ * multihash, multibase-encoded as base64url ("u" prefix). One item is
+ * digested as its own hash; several are digested as the SHA-256 of their
+ * sorted hex hashes joined by newlines, so the order they were added in
+ * doesn't matter.
+ */
+export async function evidenceDigestMultibase(items: { sha256: string }[]): Promise<string> {
+  const hashes = items.map(item => item.sha256).sort();
+  const digest = hashes.length === 1
+    ? hexToBytes(hashes[0])
+    : new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(hashes.join('\n'))));
+
+  // Multihash header: 0x12 = sha2-256, 0x20 = 32-byte digest
+  return `u${toBase64Url(Uint8Array.from([0x12, 0x20, ...digest]))}`;
+}
+
+function evidenceRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  return apiRequest<T>('save evidence', url, init);
+}
+
+export async function uploadEvidenceFile(file: File): Promise<Evidence> {
+  const body = new FormData();
+  body.append('file', file);
+  return evidenceRequest<Evidence>('/api/evidence', { method: 'POST', body });
+}
+
+// Save a link, with a preview of the page when it can be fetched
+export async function addEvidenceLink(url: string): Promise<Evidence> {
+  return evidenceRequest<Evidence>('/api/evidence', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ url: url.trim() }),
+  });
+}
+
+// Remove evidence that hasn't been attached to a claim yet
+export async function removeEvidence(evidenceId: string): Promise<void> {
+  await evidenceRequest<{ ok: boolean }>(`/api/evidence/${evidenceId}`, { method: 'DELETE' });
+}
+
+export async function attachEvidence(claimId: number, evidenceIds: string[]): Promise<void> {
+  await evidenceRequest<{ evidence: Evidence[] }>('/api/evidence/attach', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ claimId, evidenceIds }),
+  });
+}
+
+// Evidence of the signed-in user's achievements, keyed by claim id
+export async function fetchEvidence(): Promise<{ [claimId: string]: Evidence[] }> {
+  const data = await evidenceRequest<{ evidence: { [claimId: string]: Evidence[] } }>('/api/evidence');
+  return data.evidence;
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { JsonLdGraph, buildPortfolioJsonLd, serializeJsonLd, validateJsonLdGraph } from '@/lib/json-ld';
+import { Claim } from '@/lib/linkedtrust-client';
+
+const SITE_URL = 'https://trustfolio.example';
+const PERSON = { name: 'Ada Lovelace', url: `${SITE_URL}/p/ada` };
+
+function claim(id: number, aspect: string | undefined, fields: Partial<Claim> = {}): Claim {
+  return {
+    id,
+    subject: 'https://live.linkedtrust.us/users/7',
+    claim: 'HAS_SKILL',
+    statement: `Achievement ${id}. More detail follows.`,
+    aspect,
+    ...fields,
+  };
+}
+
+function nodeById(graph: JsonLdGraph, id: string) {
+  return graph['@graph'].find(node => node['@id'] === id);
+}
+
+describe('buildPortfolioJsonLd', () => {
+  it('links skills and credentials from the person and credits the rest to them', () => {
+    const graph = buildPortfolioJsonLd(PERSON, [
+      claim(1, 'skill'),
+      claim(2, 'certification', { effectiveDate: '2024-05-01' }),
+      claim(3, 'project', { effectiveDate: '2023-01-15' }),
+    ], SITE_URL);
+
+    const person = nodeById(graph, `${PERSON.url}#person`);
+    expect(person).toMatchObject({
+      '@type': 'Person',
+      name: 'Ada Lovelace',
+      knowsAbout: [{ '@id': `${SITE_URL}/c/1` }],
+      hasCredential: [{ '@id': `${SITE_URL}/c/2` }],
+    });
+    expect(nodeById(graph, `${SITE_URL}/c/1`)).toMatchObject({ '@type': 'DefinedTerm', termCode: 'skill' });
+    expect(nodeById(graph, `${SITE_URL}/c/2`)).toMatchObject({
+      '@type': 'EducationalOccupationalCredential',
+      credentialCategory: 'certification',
+      validFrom: '2024-05-01',
+    });
+    expect(nodeById(graph, `${SITE_URL}/c/3`)).toMatchObject({
+      '@type': 'CreativeWork',
+      genre: 'project',
+      creator: { '@id': `${PERSON.url}#person` },
+      dateCreated: '2023-01-15',
+    });
+  });
+
+  it('treats claims without an aspect as projects', () => {
+    const graph = buildPortfolioJsonLd(PERSON, [claim(4, undefined)], SITE_URL);
+    expect(nodeById(graph, `${SITE_URL}/c/4`)).toMatchObject({ '@type': 'CreativeWork', genre: 'project' });
+  });
+
+  it('names a node after the first sentence and shortens long ones', () => {
+    const long = 'x'.repeat(200);
+    const graph = buildPortfolioJsonLd(PERSON, [
+      claim(5, 'skill'),
+      claim(6, 'skill', { statement: long }),
+    ], SITE_URL);
+
+    expect(nodeById(graph, `${SITE_URL}/c/5`)?.name).toBe('Achievement 5.');
+    const name = nodeById(graph, `${SITE_URL}/c/6`)?.name as string;
+    expect(name).toHaveLength(110);
+    expect(name.endsWith('…')).toBe(true);
+  });
+
+  it('leaves out empty skill and credential lists', () => {
+    const graph = buildPortfolioJsonLd(PERSON, [claim(7, 'research')], SITE_URL);
+    const person = nodeById(graph, `${PERSON.url}#person`);
+    expect(person).not.toHaveProperty('knowsAbout');
+    expect(person).not.toHaveProperty('hasCredential');
+  });
+
+  it('builds graphs that pass validation', () => {
+    const aspects = ['skill', 'certification', 'course', 'award', 'project', 'research', undefined];
+    const graph = buildPortfolioJsonLd(
+      PERSON,
+      aspects.map((aspect, index) => claim(index + 1, aspect, { effectiveDate: '2024-02-29' })),
+      SITE_URL
+    );
+    expect(validateJsonLdGraph(graph)).toEqual([]);
+    expect(validateJsonLdGraph(buildPortfolioJsonLd(PERSON, [], SITE_URL))).toEqual([]);
+  });
+});
+
+describe('validateJsonLdGraph', () => {
+  const valid = () => buildPortfolioJsonLd(PERSON, [claim(1, 'skill'), claim(2, 'project')], SITE_URL);
+
+  it('reports missing required properties', () => {
+    const graph = valid();
+    delete nodeById(graph, `${SITE_URL}/c/2`)!.creator;
+    expect(validateJsonLdGraph(graph)).toEqual([`CreativeWork ${SITE_URL}/c/2: missing creator`]);
+  });
+
+  it('reports duplicate ids and dangling references', () => {
+    const graph = valid();
+    graph['@graph'].push({ ...graph['@graph'][1] });
+    nodeById(graph, `${PERSON.url}#person`)!.knowsAbout = [{ '@id': `${SITE_URL}/c/99` }];
+
+    expect(validateJsonLdGraph(graph)).toEqual([
+      `Duplicate @id ${SITE_URL}/c/1`,
+      `Person ${PERSON.url}#person: knowsAbout references unknown ${SITE_URL}/c/99`,
+    ]);
+  });
+
+  it('reports relative URLs, malformed dates and unknown types', () => {
+    const graph = valid();
+    const project = nodeById(graph, `${SITE_URL}/c/2`)!;
+    project.url = '/c/2';
+    project.dateCreated = 'last spring';
+    graph['@graph'].push({ '@type': 'Organization', '@id': `${SITE_URL}/org` });
+
+    expect(validateJsonLdGraph(graph)).toEqual([
+      `CreativeWork ${SITE_URL}/c/2: url must be an absolute URL`,
+      `CreativeWork ${SITE_URL}/c/2: dateCreated must be an ISO date`,
+      `Organization ${SITE_URL}/org: unexpected type`,
+    ]);
+  });
+});
+
+describe('serializeJsonLd', () => {
+  it('escapes < so a statement cannot close the script tag', () => {
+    const graph = buildPortfolioJsonLd(PERSON, [claim(1, 'skill', { statement: 'Wrote </script><script>alert(1)' })], SITE_URL);
+    const serialized = serializeJsonLd(graph);
+    expect(serialized).not.toContain('</script>');
+    expect(JSON.parse(serialized)).toEqual(graph);
+  });
+});
@@ -0,0 +1,186 @@
+import { Claim } from '@/lib/linkedtrust-client';
+
+/**
+ * Schema.org JSON-LD for public portfolios, so search engines and
+ * recruiters' tools can read who the person is and what they achieved.
+ *
+ * Each achievement becomes a node derived from its aspect:
+ * - skill -> DefinedTerm, listed in the person's knowsAbout
+ * - certification, course, award -> EducationalOccupationalCredential, in hasCredential
+ * - everything else (projects, research, ...) -> CreativeWork created by the person
+ *
+ * Node ids are the achievement permalinks (/c/[claimId]).
+ */
+
+const SCHEMA_CONTEXT = 'https://schema.org';
+
+// Aspects that describe a credential the person holds
+const CREDENTIAL_ASPECTS = ['certification', 'course', 'award'];
+
+// Long statements are cut for `name`; the full text goes in `description`
+const MAX_NAME_LENGTH = 110;
+
+export type JsonLdNode = {
+  '@type': string;
+  '@id': string;
+  [property: string]: unknown;
+};
+
+export interface JsonLdGraph {
+  '@context': typeof SCHEMA_CONTEXT;
+  '@graph': JsonLdNode[];
+}
+
+export interface JsonLdPerson {
+  name: string;
+  // Absolute URL of the public portfolio
+  url: string;
+}
+
+// First sentence of the statement, shortened to a readable title
+function nameFromStatement(statement: string): string {
+  const text = statement.trim();
+  const firstSentence = text.match(/^.*?[.!?](?=\s|$)/)?.[0] || text;
+  return firstSentence.length > MAX_NAME_LENGTH
+    ? `${firstSentence.slice(0, MAX_NAME_LENGTH - 1).trimEnd()}…`
+    : firstSentence;
+}
+
+export function schemaTypeForAspect(aspect: string | undefined): string {
+  const category = (aspect || 'project').toLowerCase();
+  if (category === 'skill') return 'DefinedTerm';
+  if (CREDENTIAL_ASPECTS.includes(category)) return 'EducationalOccupationalCredential';
+  return 'CreativeWork';
+}
+
+function achievementNode(claim: Claim, siteUrl: string, personId: string): JsonLdNode {
+  const type = schemaTypeForAspect(claim.aspect);
+  const category = (claim.aspect || 'project').toLowerCase();
+  const node: JsonLdNode = {
+    '@type': type,
+    '@id': `${siteUrl}/c/${claim.id}`,
+    url: `${siteUrl}/c/${claim.id}`,
+    name: nameFromStatement(claim.statement || category),
+    description: claim.statement,
+  };
+
+  if (type === 'DefinedTerm') {
+    node.termCode = category;
+  } else if (type === 'EducationalOccupationalCredential') {
+    node.credentialCategory = category;
+    if (claim.effectiveDate) node.validFrom = claim.effectiveDate;
+  } else {
+    node.genre = category;
+    node.creator = { '@id': personId };
+    if (claim.effectiveDate) node.dateCreated = claim.effectiveDate;
+  }
+
+  return node;
+}
+
+/**
+ * Build the JSON-LD graph for a public portfolio: one Person node plus a
+ * node per achievement, linked from the person.
+ *
+ * @param siteUrl - absolute origin, without a trailing slash
+ */
+export function buildPortfolioJsonLd(person: JsonLdPerson, claims: Claim[], siteUrl: string): JsonLdGraph {
+  const personId = `${person.url}#person`;
+  const achievements = claims.map(claim => achievementNode(claim, siteUrl, personId));
+  const refsOfType = (type: string) =>
+    achievements.filter(node => node['@type'] === type).map(node => ({ '@id': node['@id'] }));
+
+  const personNode: JsonLdNode = {
+    '@type': 'Person',
+    '@id': personId,
+    name: person.name,
+    url: person.url,
+  };
+  const skills = refsOfType('DefinedTerm');
+  const credentials = refsOfType('EducationalOccupationalCredential');
+  if (skills.length > 0) personNode.knowsAbout = skills;
+  if (credentials.length > 0) personNode.hasCredential = credentials;
+
+  return { '@context': SCHEMA_CONTEXT, '@graph': [personNode, ...achievements] };
+}
+
+/**
+ * Serialize for a <script type="application/ld+json"> tag. `<` is escaped so
+ * a statement containing "</script>" can't end the tag early.
+ */
+export function serializeJsonLd(graph: JsonLdGraph): string {
+  return JSON.stringify(graph).replace(/</g, '\\u003c');
+}
+
+// Properties each node type must carry to be useful to consumers
+const REQUIRED_PROPERTIES: { [type: string]: string[] } = {
+  Person: ['name', 'url'],
+  DefinedTerm: ['name'],
+  EducationalOccupationalCredential: ['name', 'credentialCategory'],
+  CreativeWork: ['name', 'creator'],
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+/**
+ * Check a generated graph for the mistakes that make search engines drop it:
+ * missing required properties, duplicate or dangling @id references,
+ * relative URLs and malformed dates.
+ *
+ * @returns human-readable problems; empty when the graph is valid
+ */
+export function validateJsonLdGraph(graph: JsonLdGraph): string[] {
+  const problems: string[] = [];
+  if (graph['@context'] !== SCHEMA_CONTEXT) {
+    problems.push(`@context must be ${SCHEMA_CONTEXT}`);
+  }
+
+  const ids = new Set<string>();
+  for (const node of graph['@graph']) {
+    const label = `${node['@type']} ${node['@id']}`;
+    if (ids.has(node['@id'])) problems.push(`Duplicate @id ${node['@id']}`);
+    ids.add(node['@id']);
+
+    const required = REQUIRED_PROPERTIES[node['@type']];
+    if (!required) {
+      problems.push(`${label}: unexpected type`);
+      continue;
+    }
+    for (const property of required) {
+      const value = node[property];
+      if (value === undefined || value === null || value === '') problems.push(`${label}: missing ${property}`);
+    }
+
+    for (const property of ['@id', 'url']) {
+      const value = node[property];
+      if (typeof value === 'string' && !/^https?:\/\//.test(value.replace(/#.*$/, ''))) {
+        problems.push(`${label}: ${property} must be an absolute URL`);
+      }
+    }
+    for (const property of ['dateCreated', 'validFrom']) {
+      const value = node[property];
+      if (value !== undefined && (typeof value !== 'string' || !ISO_DATE.test(value))) {
+        problems.push(`${label}: ${property} must be an ISO date`);
+      }
+    }
+  }
+
+  // Every { "@id" } reference must point at a node in the graph
+  const references = (value: unknown): string[] => {
+    if (Array.isArray(value)) return value.flatMap(references);
+    if (value && typeof value === 'object' && '@id' in value && Object.keys(value).length === 1) {
+      return [String((value as { '@id': unknown })['@id'])];
+    }
+    return [];
+  };
+  for (const node of graph['@graph']) {
+    for (const [property, value] of Object.entries(node)) {
+      if (property.startsWith('@')) continue;
+      for (const id of references(value)) {
+        if (!ids.has(id)) problems.push(`${node['@type']} ${node['@id']}: ${property} references unknown ${id}`);
+      }
+    }
+  }
+
+  return problems;
+}
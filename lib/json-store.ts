@@ -0,0 +1,59 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Small file-backed JSON store for server-side state (account links,
+ * credentials, tokens). One file per store under TRUSTFOLIO_DATA_DIR.
+ *
+ * Writes are atomic (temp file + rename) and serialized per store within
+ * this process. Server-only: never import from client components.
+ */
+
+const DATA_DIR = process.env.TRUSTFOLIO_DATA_DIR || path.join(process.cwd(), '.data');
+
+const queues = new Map<string, Promise<unknown>>();
+
+function storePath(name: string): string {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+export async function readStore<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(storePath(name), 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+async function writeStore<T>(name: string, data: T): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const target = storePath(name);
+  const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(data, null, 2), 'utf8');
+  await fs.rename(temp, target);
+}
+
+/**
+ * Read-modify-write a store. `mutate` may change `data` in place or return a
+ * replacement; the saved value is returned.
+ */
+export function updateStore<T>(
+  name: string,
+  fallback: T,
+  mutate: (data: T) => T | void | Promise<T | void>
+): Promise<T> {
+  const previous = queues.get(name) || Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const data = await readStore(name, fallback);
+      const result = (await mutate(data)) ?? data;
+      await writeStore(name, result);
+      return result;
+    });
+
+  queues.set(name, next);
+  return next;
+}
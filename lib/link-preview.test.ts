@@ -0,0 +1,90 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchLinkPreview, parseLinkPreview } from '@/lib/link-preview';
+
+// Every hostname resolves to whatever the test says
+const resolved = vi.hoisted(() => ({ addresses: [] as { address: string; family: number }[] }));
+
+vi.mock('dns', async importOriginal => {
+  const actual = await importOriginal<typeof import('dns')>();
+  const lookup = (_hostname: string, _options: unknown, callback: (error: null, addresses: unknown) => void) => {
+    callback(null, resolved.addresses);
+  };
+  return { ...actual, default: { ...actual, lookup }, lookup };
+});
+
+// A page on loopback that must never be fetched
+let hits = 0;
+let port = 0;
+const server = http.createServer((_request, response) => {
+  hits++;
+  response.writeHead(200, { 'Content-Type': 'text/html' });
+  response.end('<title>Internal</title>');
+});
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  hits = 0;
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('fetchLinkPreview', () => {
+  it.each([
+    '127.0.0.1',
+    '[::1]',
+    '[::ffff:127.0.0.1]',
+    '[::ffff:7f00:1]',
+    '[::ffff:169.254.169.254]',
+    '[::127.0.0.1]',
+    '0x7f.1',
+    '169.254.169.254',
+    '198.18.0.1',
+    '224.0.0.1',
+    '255.255.255.255',
+  ])('refuses the address %s', async host => {
+    expect(await fetchLinkPreview(`http://${host}:${port}/`)).toBeNull();
+    expect(hits).toBe(0);
+  });
+
+  it('refuses hostnames that resolve to a private address', async () => {
+    resolved.addresses = [{ address: '127.0.0.1', family: 4 }];
+    expect(await fetchLinkPreview(`http://internal.example:${port}/`)).toBeNull();
+    expect(hits).toBe(0);
+  });
+
+  it('refuses hostnames with any private address among public ones', async () => {
+    resolved.addresses = [{ address: '93.184.216.34', family: 4 }, { address: '::ffff:10.0.0.1', family: 6 }];
+    expect(await fetchLinkPreview(`http://mixed.example:${port}/`)).toBeNull();
+    expect(hits).toBe(0);
+  });
+
+  it('refuses non-http schemes', async () => {
+    expect(await fetchLinkPreview('file:///etc/passwd')).toBeNull();
+  });
+});
+
+describe('parseLinkPreview', () => {
+  it('reads Open Graph tags and keeps https images only', () => {
+    const html = `
+      <meta property="og:title" content="My &amp; project">
+      <meta content="A description" name="description">
+      <meta property="og:image" content="/cover.png">`;
+
+    expect(parseLinkPreview(html, 'https://example.org/post')).toEqual({
+      title: 'My & project',
+      description: 'A description',
+      siteName: undefined,
+      imageUrl: 'https://example.org/cover.png',
+    });
+    expect(parseLinkPreview(html, 'http://example.org/post').imageUrl).toBeUndefined();
+  });
+});
@@ -0,0 +1,185 @@
+import { LookupAddress, LookupOptions, lookup } from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { LinkPreview } from '@/lib/evidence';
+
+/**
+ * Link previews for evidence links: fetches the page and reads its Open
+ * Graph tags (falling back to <title> and the meta description).
+ *
+ * The server fetches URLs students type in, so only public http(s) hosts are
+ * contacted - never loopback, private, link-local or other special-purpose
+ * addresses, including after redirects - and only a bounded amount of HTML
+ * is read. Hostnames are checked in the lookup the connection itself uses,
+ * so DNS can't answer with a public address for the check and a private one
+ * for the request.
+ *
+ * Server-only: never import from client components.
+ */
+
+const TIMEOUT_MS = 5_000;
+const MAX_REDIRECTS = 3;
+const MAX_HTML_BYTES = 512 * 1024;
+const MAX_TEXT_LENGTH = 300;
+
+// Special-purpose ranges. BlockList also matches IPv4-mapped IPv6 addresses
+// (::ffff:127.0.0.1) against the IPv4 rules.
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, including cloud metadata services
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, including broadcast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 96], // unspecified, loopback and IPv4-compatible
+  ['64:ff9b::', 96], // NAT64, which reaches IPv4 addresses
+  ['100::', 64], // discard
+  ['2002::', 16], // 6to4, which embeds an IPv4 address
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6');
+}
+
+function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * dns.lookup for http(s).request that refuses hosts with any non-public
+ * address. The socket connects to the address returned here, so what was
+ * checked is what gets contacted.
+ */
+function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      return callback(new Error(`${hostname} does not resolve to a public address`), []);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+function request(url: URL, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const send = url.protocol === 'https:' ? https.request : http.request;
+  return new Promise((resolve, reject) => {
+    const outgoing = send(url, {
+      lookup: publicLookup,
+      signal,
+      headers: { 'Accept': 'text/html', 'Accept-Encoding': 'identity', 'User-Agent': 'TrustFolio link preview' },
+    }, resolve);
+    outgoing.on('error', reject);
+    outgoing.end();
+  });
+}
+
+async function readLimited(response: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of response) {
+    chunks.push(chunk);
+    total += chunk.length;
+    if (total >= MAX_HTML_BYTES) break;
+  }
+  response.destroy();
+  return new TextDecoder().decode(Buffer.concat(chunks).subarray(0, MAX_HTML_BYTES));
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function clean(text: string | undefined): string | undefined {
+  if (!text) return undefined;
+  const value = decodeEntities(text).replace(/\s+/g, ' ').trim();
+  return value ? value.slice(0, MAX_TEXT_LENGTH) : undefined;
+}
+
+// Content of <meta property|name="..." content="..."> in either attribute order
+function metaContent(html: string, names: string[]): string | undefined {
+  for (const name of names) {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = html.match(new RegExp(`<meta[^>]+(?:property|name)=["']${escaped}["'][^>]*content=["']([^"']*)["']`, 'i'))
+      || html.match(new RegExp(`<meta[^>]+content=["']([^"']*)["'][^>]*(?:property|name)=["']${escaped}["']`, 'i'));
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+export function parseLinkPreview(html: string, pageUrl: string): LinkPreview {
+  const image = metaContent(html, ['og:image', 'twitter:image']);
+  let imageUrl: string | undefined;
+  try {
+    const resolved = image ? new URL(decodeEntities(image), pageUrl) : null;
+    if (resolved && resolved.protocol === 'https:') imageUrl = resolved.toString();
+  } catch {
+    // Unusable image URL; the preview works without it
+  }
+
+  return {
+    title: clean(metaContent(html, ['og:title', 'twitter:title']) || html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1]),
+    description: clean(metaContent(html, ['og:description', 'twitter:description', 'description'])),
+    siteName: clean(metaContent(html, ['og:site_name'])),
+    ...(imageUrl && { imageUrl }),
+  };
+}
+
+/**
+ * Fetch a preview of a public web page; null when the page can't be
+ * reached, isn't HTML or isn't on a public host.
+ */
+export async function fetchLinkPreview(url: string): Promise<LinkPreview | null> {
+  let current = new URL(url);
+
+  try {
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      if (current.protocol !== 'https:' && current.protocol !== 'http:') return null;
+      // Hostnames are checked by publicLookup; addresses are never looked up
+      const host = current.hostname.replace(/^\[|\]$/g, '');
+      if (net.isIP(host) && !isPublicAddress(host)) return null;
+
+      const response = await request(current, AbortSignal.timeout(TIMEOUT_MS));
+      const status = response.statusCode || 0;
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        response.destroy();
+        current = new URL(location, current);
+        continue;
+      }
+
+      if (status < 200 || status >= 300 || !response.headers['content-type']?.includes('text/html')) {
+        response.destroy();
+        return null;
+      }
+      return parseLinkPreview(await readLimited(response), current.toString());
+    }
+  } catch (error) {
+    console.warn(`Link preview failed for ${url}:`, error);
+  }
+  return null;
+}
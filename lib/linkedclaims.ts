@@ -1,18 +1,7 @@
-import axios from 'axios';
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'https://dev.linkedtrust.us';
-
-interface CreateClaimInput {
-  subject: string;
-  claim: string;
-  statement: string;
-  effectiveDate: string;
-  howKnown: string;
-  stars?: number;
-  score?: number;
-  aspect?: string;
-  issuerId?: string;
-}
+import type { ClaimInput } from '@/lib/linkedtrust-client';
+import { ClaimRevision, ClaimVersion, diffRevisions, revisionOf } from '@/lib/revisions';
+import { isTrashExpired } from '@/lib/trash';
+import type { Visibility } from '@/lib/visibility';
 
 // SDK Pattern: Convert 1-5 stars to -1 to 1 score
 export function starsToScore(stars: number): number {
@@ -28,124 +17,33 @@ export function normalizeUri(uri: string): string {
   return `https://${uri}`;
 }
 
-// Create claim with REAL API v4
-export async function createClaim(claimData: CreateClaimInput, token: string) {
-  try {
-    const response = await axios.post(
-      `${API_BASE_URL}/api/claims`,
-      {
-        ...claimData,
-        subject: normalizeUri(claimData.subject),
-        score: claimData.stars ? starsToScore(claimData.stars) : claimData.score,
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
-    return response.data;
-  } catch (error) {
-    console.error('Error creating claim:', error);
-    throw error;
-  }
+// Claim type recorded on LinkedTrust for an achievement category (its aspect)
+export function claimTypeForCategory(category: string): string {
+  return category === 'skill' ? 'HAS_SKILL' : 'COMPLETED_PROJECT';
 }
 
-// Get claims from REAL API v4 by subject URI
-export async function getClaims(token: string, subjectUri?: string) {
-  try {
-    const endpoint = subjectUri 
-      ? `${API_BASE_URL}/api/v4/claims/subject/${encodeURIComponent(subjectUri)}`
-      : `${API_BASE_URL}/api/v4/claims`;
-      
-    const response = await axios.get(endpoint, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-    });
-    return response.data;
-  } catch (error) {
-    console.error('Error fetching claims:', error);
-    throw error;
-  }
-}
-
-// Fetch claims by issuer ID (the correct way according to Golda!)
-export async function fetchClaimsByIssuer(userId: number, token: string) {
-  try {
-    console.log('Fetching claims by issuer ID:', userId);
-    
-    const response = await axios.get(
-      `${API_BASE_URL}/api/claim`,
-      {
-        params: {
-          issuer_id: `http://trustclaims.whatscookin.us/user/${userId}`,
-          limit: 50,
-          page: 1
-        },
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      }
-    );
-    
-    console.log('Claims found:', response.data.claims ? response.data.claims.length : 0);
-    console.log('Response data:', response.data);
-    
-    return response.data;
-  } catch (error) {
-    console.error('Error fetching claims by issuer:', error);
-    throw error;
-  }
-}
+// LOCAL STORAGE FALLBACK (for demo/offline mode)
 
-// Get claims by current user (uses the authenticated user's URI)
-export async function getMyClaimsFromBackend(token: string, userEmail: string) {
-  try {
-    // Construct the subject URI from user email (pattern from talent repo)
-    const subjectUri = `https://dev.linkedtrust.us/user/${userEmail}`;
-    
-    // URL encode the URI (similar to Base64 encoding in talent repo)
-    const encodedUri = encodeURIComponent(subjectUri);
-    
-    console.log('Fetching claims for subject:', subjectUri);
-    console.log('Encoded URI:', encodedUri);
-    
-    // Get claims for this subject
-    const response = await axios.get(
-      `${API_BASE_URL}/api/v4/claims/subject/${encodedUri}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      }
-    );
-
-    console.log('Raw API Response:', response);
-    console.log('Response data:', response.data);
-    console.log('Response data type:', typeof response.data);
-    console.log('Is response.data an array?:', Array.isArray(response.data));
-
-    // Handle different response formats
-    if (response.data && Array.isArray(response.data)) {
-      return response.data;
-    } else if (response.data && response.data.claims) {
-      return response.data.claims; // Might be wrapped in { claims: [...] }
-    } else {
-      console.error('Unexpected response format:', response.data);
-      return [];
-    }
-  } catch (error) {
-    console.error('Error fetching my claims:', error);
-    throw error;
-  }
+// An earlier version of a Local Mode achievement
+export interface LocalClaimVersion {
+  fields: ClaimRevision;
+  createdAt: string;
+  // Version number this one was restored from
+  restoredFrom?: number;
 }
 
-// LOCAL STORAGE FALLBACK (for demo/offline mode)
-interface StoredClaim extends CreateClaimInput {
+export interface StoredClaim extends ClaimInput {
   id: number;
   createdAt: string;
+  // When the current version was saved, and what it was restored from; unset until the first edit
+  updatedAt?: string;
+  restoredFrom?: number;
+  // Earlier versions, oldest first (backend achievements keep theirs as superseded claims)
+  versions?: LocalClaimVersion[];
+  // Applied once the claim reaches the backend (LinkedTrust doesn't store it)
+  visibility?: Visibility;
+  // Uploaded evidence, attached once the claim reaches the backend
+  evidenceIds?: string[];
 }
 
 export function getLocalClaims(): StoredClaim[] {
@@ -161,7 +59,9 @@ export function getLocalClaims(): StoredClaim[] {
   }
 }
 
-export async function createClaimLocal(claimData: CreateClaimInput): Promise<StoredClaim> {
+export async function createClaimLocal(
+  claimData: ClaimInput & { visibility?: Visibility; evidenceIds?: string[] }
+): Promise<StoredClaim> {
   const existingClaims = getLocalClaims();
   
   const newClaim: StoredClaim = {
@@ -174,4 +74,120 @@ export async function createClaimLocal(claimData: CreateClaimInput): Promise<Sto
   localStorage.setItem('trustfolio_claims', JSON.stringify(existingClaims));
   
   return newClaim;
-}
\ No newline at end of file
+}
+
+export function saveLocalClaims(claims: StoredClaim[]): void {
+  localStorage.setItem('trustfolio_claims', JSON.stringify(claims));
+}
+
+export function deleteClaimLocal(claimId: number): void {
+  saveLocalClaims(getLocalClaims().filter(claim => claim.id !== claimId));
+}
+
+// A deleted Local Mode achievement (or create still waiting in the outbox), restorable until it expires
+export interface LocalTrashEntry {
+  claim: StoredClaim;
+  deletedAt: string;
+  // The claim was waiting in the outbox to be created; restoring it queues it again
+  queued?: boolean;
+}
+
+function saveLocalTrash(trash: LocalTrashEntry[]): void {
+  localStorage.setItem('trustfolio_trash', JSON.stringify(trash));
+}
+
+// The local trash, newest first; entries past the retention window are deleted for good on read
+export function getLocalTrash(): LocalTrashEntry[] {
+  if (typeof window === 'undefined') return [];
+
+  let trash: LocalTrashEntry[];
+  try {
+    trash = JSON.parse(localStorage.getItem('trustfolio_trash') || '[]');
+  } catch {
+    return [];
+  }
+  const kept = trash.filter(entry => !isTrashExpired(entry.deletedAt));
+  if (kept.length !== trash.length) saveLocalTrash(kept);
+  return kept.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+// Move a stored claim to the local trash
+export function trashClaimLocal(claimId: number, queued: boolean = false): void {
+  const claim = getLocalClaims().find(stored => stored.id === claimId);
+  if (!claim) return;
+
+  saveLocalTrash([{ claim, deletedAt: new Date().toISOString(), ...(queued && { queued }) }, ...getLocalTrash()]);
+  deleteClaimLocal(claimId);
+}
+
+// Put claims back in the claim store; returns the entries that were restored
+export function restoreClaimsLocal(claimIds: number[]): LocalTrashEntry[] {
+  const trash = getLocalTrash();
+  const restored = trash.filter(entry => claimIds.includes(entry.claim.id));
+  saveLocalClaims([...getLocalClaims(), ...restored.map(entry => entry.claim)]);
+  saveLocalTrash(trash.filter(entry => !claimIds.includes(entry.claim.id)));
+  return restored;
+}
+
+// Delete claims from the local trash for good
+export function purgeLocalTrash(claimIds: number[]): void {
+  saveLocalTrash(getLocalTrash().filter(entry => !claimIds.includes(entry.claim.id)));
+}
+
+/**
+ * Apply an edit to a Local Mode achievement, keeping the version it replaces.
+ * Returns the claim unchanged when none of its fields differ.
+ */
+export function reviseStoredClaim(claim: StoredClaim, changes: ClaimRevision, restoredFrom?: number): StoredClaim {
+  if (diffRevisions(revisionOf(claim), { ...revisionOf(claim), ...changes }).length === 0) return claim;
+
+  const previous: LocalClaimVersion = {
+    fields: revisionOf(claim),
+    createdAt: claim.updatedAt || claim.createdAt,
+    ...(claim.restoredFrom !== undefined && { restoredFrom: claim.restoredFrom }),
+  };
+  return {
+    ...claim,
+    ...changes,
+    ...(changes.stars !== undefined && { score: starsToScore(changes.stars) }),
+    updatedAt: new Date().toISOString(),
+    restoredFrom,
+    versions: [...(claim.versions || []), previous],
+  };
+}
+
+// Every version of a Local Mode achievement, newest first
+export function localClaimVersions(claim: StoredClaim): ClaimVersion[] {
+  const versions: LocalClaimVersion[] = [
+    ...(claim.versions || []),
+    { fields: revisionOf(claim), createdAt: claim.updatedAt || claim.createdAt, restoredFrom: claim.restoredFrom },
+  ];
+  return versions
+    .map((version, index): ClaimVersion => ({
+      number: index + 1,
+      fields: version.fields,
+      createdAt: version.createdAt,
+      authorName: 'You (this browser)',
+      ...(version.restoredFrom !== undefined && { restoredFrom: version.restoredFrom }),
+      endorsements: 0,
+      validations: 0,
+    }))
+    .reverse();
+}
+
+// Strip local-only fields before sending a stored claim to the backend
+export function toClaimInput(claim: StoredClaim): ClaimInput {
+  return {
+    subject: claim.subject,
+    claim: claim.claim,
+    statement: claim.statement,
+    effectiveDate: claim.effectiveDate,
+    howKnown: claim.howKnown,
+    stars: claim.stars,
+    score: claim.score,
+    aspect: claim.aspect,
+    issuerId: claim.issuerId,
+    sourceURI: claim.sourceURI,
+    digestMultibase: claim.digestMultibase,
+  };
+}
@@ -0,0 +1,158 @@
+import { API_BASE_URL } from '@/lib/linkedtrust-client';
+
+/**
+ * LinkedTrust /auth endpoints.
+ *
+ * The backend has used several field names for the token and user id over
+ * time, so responses are normalized here once.
+ */
+
+export interface AuthUser {
+  id: number;
+  email: string;
+  name?: string;
+  issuerId?: number;
+}
+
+export interface AuthResult {
+  token: string;
+  refreshToken?: string;
+  user: AuthUser;
+}
+
+export interface AuthResponseData {
+  accessToken?: string;
+  token?: string;
+  access_token?: string;
+  refreshToken?: string;
+  refresh_token?: string;
+  issuer_id?: number;
+  issuerId?: number;
+  id?: number;
+  email?: string;
+  name?: string;
+  user?: { id?: number; email?: string; name?: string };
+}
+
+/**
+ * Error from a LinkedTrust /auth call; `status` is the HTTP status (e.g. 401, 409).
+ */
+export class AuthError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+export function parseAuthResponse(data: AuthResponseData, email: string, name?: string): AuthResult {
+  const issuerId = data.user?.id || data.issuer_id || data.issuerId;
+
+  return {
+    token: data.accessToken || data.token || data.access_token || '',
+    refreshToken: data.refreshToken || data.refresh_token,
+    user: {
+      id: issuerId || data.id || 0,
+      email: data.user?.email || data.email || email,
+      name: data.user?.name || data.name || name || email.split('@')[0],
+      issuerId,
+    },
+  };
+}
+
+async function postAuth(path: string, body: object): Promise<AuthResponseData> {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new AuthError(errorText || `Request to ${path} failed`, response.status);
+  }
+
+  return response.json();
+}
+
+export async function loginWithPassword(email: string, password: string): Promise<AuthResult> {
+  const data = await postAuth('/auth/login', { email, password });
+  return parseAuthResponse(data, email);
+}
+
+export async function signupWithPassword(email: string, password: string, name?: string): Promise<AuthResult> {
+  const displayName = name || email.split('@')[0];
+  const data = await postAuth('/auth/signup', { email, password, name: displayName });
+  return parseAuthResponse(data, email, displayName);
+}
+
+export async function refreshAccessToken(refreshToken: string): Promise<{ token: string; refreshToken: string }> {
+  const data = await postAuth('/auth/refresh_token', { refreshToken });
+  return {
+    token: data.accessToken || data.token || data.access_token || '',
+    // Some deployments rotate the refresh token, others keep it
+    refreshToken: data.refreshToken || data.refresh_token || refreshToken,
+  };
+}
+
+/**
+ * Expiry (ms since epoch) of a JWT access token, read from its `exp` claim
+ * without verifying it. Null for opaque tokens or tokens without `exp`.
+ */
+export function accessTokenExpiry(token: string): number | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const { exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function changePassword(token: string, currentPassword: string, newPassword: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/auth/change-password`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ currentPassword, newPassword }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new AuthError(errorText || 'Password change failed', response.status);
+  }
+}
+
+/**
+ * Set a new password without the current one, after the app has verified
+ * the user through an emailed reset link. Authorized with the server-held
+ * LINKEDTRUST_SERVICE_TOKEN, so this must only run on the server.
+ */
+export async function resetPassword(email: string, newPassword: string): Promise<void> {
+  const serviceToken = process.env.LINKEDTRUST_SERVICE_TOKEN;
+  if (!serviceToken) {
+    throw new AuthError('LINKEDTRUST_SERVICE_TOKEN is not configured', 500);
+  }
+
+  const response = await fetch(`${API_BASE_URL}/auth/reset-password`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${serviceToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ email, newPassword }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new AuthError(errorText || 'Password reset failed', response.status);
+  }
+}
@@ -0,0 +1,289 @@
+import axios, { AxiosError, AxiosInstance } from 'axios';
+import { normalizeUri, starsToScore } from '@/lib/linkedclaims';
+
+export const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'https://dev.linkedtrust.us';
+
+// Same-origin proxy that attaches the session's backend token (app/api/linkedtrust)
+export const SESSION_PROXY_URL = '/api/linkedtrust';
+
+// Dispatched on window when the proxy reports the session can't be renewed
+export const SESSION_EXPIRED_EVENT = 'trustfolio:session-expired';
+
+// Issuer and subject URIs share this format (see README "Issuer ID Format")
+const USER_URI_BASE = 'http://trustclaims.whatscookin.us/user';
+
+// Subject URI for claims made about another claim (e.g. endorsements)
+const CLAIM_URI_BASE = 'http://trustclaims.whatscookin.us/claims';
+
+/**
+ * Claim as returned by the LinkedTrust API, after normalization.
+ */
+export interface Claim {
+  id: number;
+  subject: string;
+  claim: string;
+  statement: string;
+  stars?: number;
+  score?: number;
+  aspect?: string;
+  effectiveDate?: string;
+  howKnown?: string;
+  issuerId?: string;
+  // Evidence: where it can be found and the digest of its content (see lib/evidence.ts)
+  sourceURI?: string;
+  digestMultibase?: string;
+  // URI of the claim this one replaces; edits are new claims (see lib/revisions.ts)
+  supersedes?: string;
+  createdAt?: string;
+}
+
+/**
+ * Fields accepted when creating or updating a claim.
+ */
+export interface ClaimInput {
+  subject: string;
+  claim: string;
+  statement: string;
+  effectiveDate: string;
+  howKnown: string;
+  stars?: number;
+  score?: number;
+  aspect?: string;
+  issuerId?: string;
+  sourceURI?: string;
+  digestMultibase?: string;
+  supersedes?: string;
+}
+
+export interface ClaimQueryOptions {
+  limit?: number;
+  page?: number;
+}
+
+export type LinkedTrustErrorCode =
+  | 'NETWORK'
+  | 'UNAUTHORIZED'
+  | 'SESSION_EXPIRED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'VALIDATION'
+  | 'SERVER'
+  | 'UNKNOWN';
+
+/**
+ * Error thrown by every LinkedTrustClient method. `code` is stable across
+ * endpoints so callers can branch without inspecting HTTP details.
+ */
+export class LinkedTrustError extends Error {
+  readonly code: LinkedTrustErrorCode;
+  readonly status?: number;
+  readonly details?: unknown;
+
+  constructor(message: string, code: LinkedTrustErrorCode, status?: number, details?: unknown) {
+    super(message);
+    this.name = 'LinkedTrustError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export function isLinkedTrustError(error: unknown): error is LinkedTrustError {
+  return error instanceof LinkedTrustError;
+}
+
+export function userUri(userId: number | string): string {
+  return `${USER_URI_BASE}/${userId}`;
+}
+
+export function claimUri(claimId: number | string): string {
+  return `${CLAIM_URI_BASE}/${claimId}`;
+}
+
+// Inverse of userUri; bare ids are passed through, other URIs give null
+export function userIdFromUri(uri: string | undefined): string | null {
+  if (!uri) return null;
+  if (/^\d+$/.test(uri)) return uri;
+  return uri.startsWith(`${USER_URI_BASE}/`) ? uri.slice(USER_URI_BASE.length + 1) || null : null;
+}
+
+function codeForStatus(status: number): LinkedTrustErrorCode {
+  if (status === 400 || status === 422) return 'VALIDATION';
+  if (status === 401) return 'UNAUTHORIZED';
+  if (status === 403) return 'FORBIDDEN';
+  if (status === 404) return 'NOT_FOUND';
+  if (status === 409) return 'CONFLICT';
+  if (status >= 500) return 'SERVER';
+  return 'UNKNOWN';
+}
+
+// The session proxy answers 401 with this code once a token can't be refreshed
+function isSessionExpiredResponse(status: number, data: unknown): boolean {
+  return status === 401 && !!data && typeof data === 'object' && (data as { code?: unknown }).code === 'SESSION_EXPIRED';
+}
+
+function toLinkedTrustError(error: unknown, action: string): LinkedTrustError {
+  if (error instanceof LinkedTrustError) return error;
+
+  if (axios.isAxiosError(error)) {
+    const axiosError = error as AxiosError<{ message?: string; error?: string }>;
+    if (!axiosError.response) {
+      return new LinkedTrustError(`Could not reach LinkedTrust while trying to ${action}`, 'NETWORK');
+    }
+
+    const { status, data } = axiosError.response;
+    const serverMessage = typeof data === 'string' ? data : data?.message || data?.error;
+    return new LinkedTrustError(
+      serverMessage || `Failed to ${action} (HTTP ${status})`,
+      isSessionExpiredResponse(status, data) ? 'SESSION_EXPIRED' : codeForStatus(status),
+      status,
+      data
+    );
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new LinkedTrustError(`Failed to ${action}: ${message}`, 'UNKNOWN');
+}
+
+// Backend claims carry a -1..1 score; derive stars when they were not stored
+function scoreToStars(score: number): number {
+  return Math.min(5, Math.max(1, Math.round(score * 2.5 + 2.5)));
+}
+
+export function normalizeClaim(raw: unknown): Claim {
+  const data = (raw && typeof raw === 'object' && 'claim' in raw && typeof raw.claim === 'object'
+    ? raw.claim
+    : raw) as Record<string, unknown>;
+
+  const claim = { ...data } as unknown as Claim;
+  claim.id = Number(data.id);
+  if (claim.stars === undefined && typeof data.score === 'number') {
+    claim.stars = scoreToStars(data.score);
+  }
+  if (typeof data.effectiveDate === 'string' && data.effectiveDate.includes('T')) {
+    claim.effectiveDate = data.effectiveDate.split('T')[0];
+  }
+  return claim;
+}
+
+// The API has returned bare arrays, { claims: [...] } and { data: [...] } depending on endpoint
+export function normalizeClaimList(data: unknown): Claim[] {
+  let list: unknown = data;
+  if (list && typeof list === 'object' && !Array.isArray(list)) {
+    const wrapped = list as { claims?: unknown; data?: unknown };
+    list = wrapped.claims ?? wrapped.data;
+  }
+  if (!Array.isArray(list)) return [];
+  return list.map(normalizeClaim);
+}
+
+function toPayload(input: Partial<ClaimInput>) {
+  return {
+    ...input,
+    ...(input.subject !== undefined && { subject: normalizeUri(input.subject) }),
+    ...(input.stars !== undefined && { score: starsToScore(input.stars) }),
+  };
+}
+
+/**
+ * Typed client for the LinkedTrust claims API.
+ *
+ * One instance per token; base URL and auth headers are configured once here
+ * so pages never build requests by hand.
+ */
+export class LinkedTrustClient {
+  private readonly http: AxiosInstance;
+
+  constructor(options: { token?: string | null; baseUrl?: string; onSessionExpired?: () => void } = {}) {
+    this.http = axios.create({
+      baseURL: options.baseUrl ?? API_BASE_URL,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.token && { Authorization: `Bearer ${options.token}` }),
+      },
+    });
+
+    const { onSessionExpired } = options;
+    if (onSessionExpired) {
+      this.http.interceptors.response.use(undefined, error => {
+        if (axios.isAxiosError(error) && error.response
+          && isSessionExpiredResponse(error.response.status, error.response.data)) {
+          onSessionExpired();
+        }
+        return Promise.reject(error);
+      });
+    }
+  }
+
+  async createClaim(input: ClaimInput): Promise<Claim> {
+    try {
+      const response = await this.http.post('/api/claims', toPayload(input));
+      return normalizeClaim(response.data);
+    } catch (error) {
+      throw toLinkedTrustError(error, 'create claim');
+    }
+  }
+
+  async getClaim(claimId: number): Promise<Claim> {
+    return normalizeClaim(await this.getRawClaim(claimId));
+  }
+
+  // The claim exactly as LinkedTrust returned it, for showing what was asserted
+  async getRawClaim(claimId: number): Promise<unknown> {
+    try {
+      const response = await this.http.get(`/api/claims/${claimId}`);
+      return response.data;
+    } catch (error) {
+      throw toLinkedTrustError(error, 'load claim');
+    }
+  }
+
+  async updateClaim(claimId: number, changes: Partial<ClaimInput>): Promise<Claim> {
+    try {
+      const response = await this.http.put(`/api/v1/claims/${claimId}`, toPayload(changes));
+      return normalizeClaim(response.data);
+    } catch (error) {
+      throw toLinkedTrustError(error, 'update claim');
+    }
+  }
+
+  async deleteClaim(claimId: number): Promise<void> {
+    try {
+      await this.http.delete(`/api/v1/claims/${claimId}`);
+    } catch (error) {
+      throw toLinkedTrustError(error, 'delete claim');
+    }
+  }
+
+  async getClaimsByIssuer(userId: number | string, options: ClaimQueryOptions = {}): Promise<Claim[]> {
+    try {
+      const response = await this.http.get('/api/claim', {
+        params: { issuer_id: userUri(userId), limit: options.limit ?? 50, page: options.page ?? 1 },
+      });
+      return normalizeClaimList(response.data);
+    } catch (error) {
+      throw toLinkedTrustError(error, 'load claims by issuer');
+    }
+  }
+
+  async getClaimsBySubject(subjectUri: string, options: ClaimQueryOptions = {}): Promise<Claim[]> {
+    try {
+      const response = await this.http.get('/api/claim', {
+        params: { subject: normalizeUri(subjectUri), limit: options.limit ?? 50, page: options.page ?? 1 },
+      });
+      return normalizeClaimList(response.data);
+    } catch (error) {
+      throw toLinkedTrustError(error, 'load claims by subject');
+    }
+  }
+}
+
+// Browser client authenticated by the session cookie rather than a token in page state.
+// An expired session is announced with SESSION_EXPIRED_EVENT; AuthProvider handles the re-login.
+export function createSessionClient(): LinkedTrustClient {
+  return new LinkedTrustClient({
+    baseUrl: SESSION_PROXY_URL,
+    onSessionExpired: () => window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT)),
+  });
+}
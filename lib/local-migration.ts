@@ -0,0 +1,116 @@
+import { StoredClaim, getLocalClaims, toClaimInput } from '@/lib/linkedclaims';
+import { Claim, LinkedTrustClient, userUri } from '@/lib/linkedtrust-client';
+import { enqueueClaimOperation } from '@/lib/claim-outbox';
+import { DEFAULT_VISIBILITY, saveVisibility } from '@/lib/visibility';
+
+/**
+ * Local Mode -> LinkedTrust migration.
+ *
+ * Claims created while signed out live only in localStorage. After sign-in we
+ * offer to upload them, skipping ones the backend already has, and remember
+ * which local ids were handled so they aren't offered again.
+ */
+
+const MIGRATED_KEY = 'trustfolio_migrated_claims';
+
+export interface MigrationRecord {
+  localId: number;
+  issuerId: number | string;
+  outcome: 'uploaded' | 'duplicate' | 'skipped';
+  backendId?: number;
+  migratedAt: string;
+}
+
+export interface MigrationCandidate {
+  claim: StoredClaim;
+  duplicateOf?: Claim;
+}
+
+export interface MigrationResult {
+  records: MigrationRecord[];
+  failed: { claim: StoredClaim; error: string }[];
+}
+
+export function getMigrationRecords(): MigrationRecord[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    return JSON.parse(localStorage.getItem(MIGRATED_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+export function recordMigrations(records: MigrationRecord[]): void {
+  const existing = getMigrationRecords().filter(
+    record => !records.some(r => r.localId === record.localId && r.issuerId === record.issuerId)
+  );
+  localStorage.setItem(MIGRATED_KEY, JSON.stringify([...existing, ...records]));
+}
+
+// Two claims are the same achievement when statement, date and category match
+export function claimFingerprint(claim: { statement?: string; effectiveDate?: string; aspect?: string }): string {
+  const statement = (claim.statement || '').trim().toLowerCase().replace(/\s+/g, ' ');
+  const date = (claim.effectiveDate || '').split('T')[0];
+  const aspect = (claim.aspect || 'project').toLowerCase();
+  return `${statement}|${date}|${aspect}`;
+}
+
+/**
+ * Local claims that haven't been migrated for this issuer yet.
+ *
+ * @param excludeIds - local ids to leave alone (e.g. creates already queued in the outbox)
+ */
+export function findMigrationCandidates(
+  issuerId: number | string,
+  backendClaims: Claim[],
+  excludeIds: Set<number> = new Set()
+): MigrationCandidate[] {
+  const handled = new Set(
+    getMigrationRecords()
+      .filter(record => String(record.issuerId) === String(issuerId))
+      .map(record => record.localId)
+  );
+  const backendByFingerprint = new Map(backendClaims.map(claim => [claimFingerprint(claim), claim]));
+
+  return getLocalClaims()
+    .filter(claim => !handled.has(claim.id) && !excludeIds.has(claim.id))
+    .map(claim => ({ claim, duplicateOf: backendByFingerprint.get(claimFingerprint(claim)) }));
+}
+
+/**
+ * Upload the selected local claims as the signed-in issuer and record the outcome.
+ * Local copies are kept; the records stop them from being offered again.
+ */
+export async function migrateLocalClaims(
+  client: LinkedTrustClient,
+  issuerId: number | string,
+  claims: StoredClaim[]
+): Promise<MigrationResult> {
+  const result: MigrationResult = { records: [], failed: [] };
+
+  for (const claim of claims) {
+    try {
+      // Local Mode claims may carry a placeholder subject; re-home them to the issuer
+      const created = await client.createClaim({ ...toClaimInput(claim), subject: userUri(issuerId) });
+      const visibility = claim.visibility || DEFAULT_VISIBILITY;
+      if (visibility !== DEFAULT_VISIBILITY) {
+        await saveVisibility(created.id, visibility).catch(() =>
+          enqueueClaimOperation({ kind: 'visibility', claimId: created.id, visibility })
+        );
+      }
+      result.records.push({
+        localId: claim.id,
+        issuerId,
+        outcome: 'uploaded',
+        backendId: created.id,
+        migratedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      result.failed.push({ claim, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  recordMigrations(result.records);
+  return result;
+}
@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Outgoing email.
+ *
+ * MAIL_TRANSPORT selects how messages are delivered:
+ * - console (default): printed to the server log
+ * - file: written as JSON to MAIL_OUTBOX_DIR (default .data/mail) for tests
+ *   and local inspection
+ * - http: POSTed as JSON to MAIL_API_URL (with MAIL_API_KEY as a Bearer token),
+ *   for a relay service in production
+ *
+ * Server-only: never import from client components.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+function fromAddress(): string {
+  return process.env.MAIL_FROM || 'TrustFolio <no-reply@trustfolio.local>';
+}
+
+export const consoleTransport: MailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log(
+      ['📧 Email (console transport)', `From: ${fromAddress()}`, `To: ${message.to}`, `Subject: ${message.subject}`, '', message.text].join('\n')
+    );
+  },
+};
+
+export function createFileTransport(dir: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(dir, { recursive: true });
+      const file = path.join(dir, `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`);
+      await fs.writeFile(
+        file,
+        JSON.stringify({ from: fromAddress(), ...message, sentAt: new Date().toISOString() }, null, 2),
+        'utf8'
+      );
+    },
+  };
+}
+
+export function createHttpTransport(url: string, apiKey?: string): MailTransport {
+  return {
+    name: 'http',
+    async send(message) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({ from: fromAddress(), ...message }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Mail relay responded with ${response.status}`);
+      }
+    },
+  };
+}
+
+export function getMailTransport(): MailTransport {
+  const requested = process.env.MAIL_TRANSPORT || 'console';
+
+  if (requested === 'file') {
+    const dataDir = process.env.TRUSTFOLIO_DATA_DIR || path.join(process.cwd(), '.data');
+    return createFileTransport(process.env.MAIL_OUTBOX_DIR || path.join(dataDir, 'mail'));
+  }
+
+  if (requested === 'http') {
+    const url = process.env.MAIL_API_URL;
+    if (!url) {
+      throw new Error('MAIL_TRANSPORT is "http" but MAIL_API_URL is not set');
+    }
+    return createHttpTransport(url, process.env.MAIL_API_KEY);
+  }
+
+  return consoleTransport;
+}
+
+export async function sendMail(
+  message: MailMessage,
+  transport: MailTransport = getMailTransport()
+): Promise<void> {
+  await transport.send(message);
+}
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuthError, AuthResult, changePassword, loginWithPassword } from '@/lib/linkedtrust-auth';
+import { bridgeOAuthSignIn, isLegacyOAuthPassword, rotateLegacyAccounts } from '@/lib/oauth-credentials';
+
+const stores = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('@/lib/json-store', () => ({
+  readStore: async (name: string, fallback: unknown) => structuredClone(stores.get(name) ?? fallback),
+  updateStore: async (name: string, fallback: unknown, mutate: (store: unknown) => unknown) => {
+    const store = structuredClone(stores.get(name) ?? fallback);
+    await mutate(store);
+    stores.set(name, store);
+    return store;
+  },
+}));
+
+vi.mock('@/lib/linkedtrust-auth', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/linkedtrust-auth')>()),
+  loginWithPassword: vi.fn(),
+  changePassword: vi.fn(),
+  signupWithPassword: vi.fn(),
+}));
+
+const legacy = { provider: 'github', providerAccountId: '42', email: 'legacy@example.com' };
+const fresh = { provider: 'google', providerAccountId: '7', email: 'fresh@example.com' };
+const auth: AuthResult = { token: 'token', refreshToken: 'refresh', user: { id: 1, email: legacy.email } };
+
+// Backend passwords, as the mocked LinkedTrust sees them
+let passwords: Map<string, string>;
+
+beforeEach(() => {
+  vi.stubEnv('TRUSTFOLIO_SECRET', 'test-secret-that-is-long-enough-for-the-cipher');
+  stores.clear();
+  passwords = new Map([[legacy.email, 'github_oauth_42']]);
+  vi.mocked(loginWithPassword).mockImplementation(async (email, password) => {
+    if (passwords.get(email) !== password) throw new AuthError('Invalid email or password', 401);
+    return { ...auth, user: { ...auth.user, email } };
+  });
+  vi.mocked(changePassword).mockImplementation(async (_token, current, next) => {
+    const email = [...passwords].find(([, password]) => password === current)?.[0];
+    if (!email) throw new AuthError('Wrong password', 401);
+    passwords.set(email, next);
+  });
+});
+
+describe('rotateLegacyAccounts', () => {
+  it('rotates legacy passwords without their owners signing in', async () => {
+    const result = await rotateLegacyAccounts([legacy, fresh]);
+
+    expect(result).toEqual({ rotated: 1, skipped: 1, failed: [] });
+    expect(passwords.get(legacy.email)).not.toBe('github_oauth_42');
+    await expect(loginWithPassword(legacy.email, 'github_oauth_42')).rejects.toThrow(AuthError);
+  });
+
+  it('leaves the rotated account reachable through the OAuth bridge', async () => {
+    await rotateLegacyAccounts([legacy]);
+
+    const bridged = await bridgeOAuthSignIn(legacy);
+    expect(bridged.status).toBe('ok');
+    expect(vi.mocked(loginWithPassword)).toHaveBeenLastCalledWith(legacy.email, passwords.get(legacy.email));
+  });
+
+  it('is safe to run twice', async () => {
+    await rotateLegacyAccounts([legacy]);
+    const rotatedPassword = passwords.get(legacy.email);
+
+    expect(await rotateLegacyAccounts([legacy])).toEqual({ rotated: 0, skipped: 1, failed: [] });
+    expect(passwords.get(legacy.email)).toBe(rotatedPassword);
+  });
+
+  it('reports identities the backend could not rotate', async () => {
+    vi.mocked(changePassword).mockRejectedValueOnce(new AuthError('LinkedTrust is down', 503));
+
+    const result = await rotateLegacyAccounts([legacy]);
+    expect(result.rotated).toBe(0);
+    expect(result.failed).toEqual([{ identity: legacy, error: 'LinkedTrust is down' }]);
+  });
+});
+
+describe('isLegacyOAuthPassword', () => {
+  it('matches only the old derived passwords', () => {
+    expect(isLegacyOAuthPassword('github_oauth_42')).toBe(true);
+    expect(isLegacyOAuthPassword('google_oauth_1093847')).toBe(true);
+    expect(isLegacyOAuthPassword('my github_oauth_ password')).toBe(false);
+    expect(isLegacyOAuthPassword('correct horse battery staple')).toBe(false);
+  });
+});
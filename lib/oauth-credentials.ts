@@ -0,0 +1,179 @@
+import crypto from 'crypto';
+import { decryptSecret, encryptSecret } from '@/lib/app-secret';
+import { readStore, updateStore } from '@/lib/json-store';
+import {
+  AuthError,
+  AuthResult,
+  changePassword,
+  loginWithPassword,
+  signupWithPassword,
+} from '@/lib/linkedtrust-auth';
+
+/**
+ * Server-side credentials for the OAuth -> LinkedTrust bridge.
+ *
+ * LinkedTrust only supports password logins, so each Google/GitHub identity
+ * gets its own backend account with a random secret generated here and
+ * stored encrypted. Accounts created by the old scheme (password derived from
+ * the public provider user id) are rotated to a random secret all at once by
+ * scripts/rotate-legacy-oauth.ts (rotateLegacyAccounts); any the bulk run
+ * missed are rotated the first time they sign in.
+ */
+
+const STORE = 'oauth-credentials';
+
+interface OAuthCredential {
+  provider: string;
+  providerAccountId: string;
+  email: string;
+  encryptedSecret: string;
+  createdAt: string;
+  migratedFromLegacy?: boolean;
+}
+
+type CredentialStore = { [key: string]: OAuthCredential };
+
+export interface OAuthIdentity {
+  provider: string;
+  providerAccountId: string;
+  email: string;
+  name?: string;
+}
+
+export type BridgeResult =
+  | { status: 'ok'; auth: AuthResult }
+  | { status: 'conflict' }
+  | { status: 'error'; message: string };
+
+function credentialKey(provider: string, providerAccountId: string): string {
+  return `${provider}:${providerAccountId}`;
+}
+
+function generateSecret(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+// The old, guessable scheme - only used to migrate existing accounts
+function legacyPassword(identity: OAuthIdentity): string {
+  return `${identity.provider}_oauth_${identity.providerAccountId}`;
+}
+
+async function findCredential(identity: OAuthIdentity): Promise<OAuthCredential | null> {
+  const store = await readStore<CredentialStore>(STORE, {});
+  return store[credentialKey(identity.provider, identity.providerAccountId)] || null;
+}
+
+async function saveCredential(identity: OAuthIdentity, secret: string, migratedFromLegacy: boolean): Promise<void> {
+  await updateStore<CredentialStore>(STORE, {}, store => {
+    store[credentialKey(identity.provider, identity.providerAccountId)] = {
+      provider: identity.provider,
+      providerAccountId: identity.providerAccountId,
+      email: identity.email,
+      encryptedSecret: encryptSecret(secret),
+      createdAt: new Date().toISOString(),
+      ...(migratedFromLegacy && { migratedFromLegacy }),
+    };
+  });
+}
+
+// Log in with the legacy password; null when it doesn't work (no legacy account, or already rotated)
+async function loginWithLegacyPassword(identity: OAuthIdentity): Promise<AuthResult | null> {
+  try {
+    return await loginWithPassword(identity.email, legacyPassword(identity));
+  } catch (error) {
+    if (error instanceof AuthError && error.status < 500) return null;
+    throw error;
+  }
+}
+
+// Replace the legacy password with a random secret and store it
+async function rotateLegacyPassword(identity: OAuthIdentity, auth: AuthResult): Promise<void> {
+  const secret = generateSecret();
+  await changePassword(auth.token, legacyPassword(identity), secret);
+  await saveCredential(identity, secret, true);
+}
+
+/**
+ * Sign-in fallback for legacy accounts the bulk rotation missed: log in with
+ * the legacy password and rotate it to a random secret. Returns null when no
+ * legacy account exists.
+ */
+async function migrateLegacyAccount(identity: OAuthIdentity): Promise<AuthResult | null> {
+  const auth = await loginWithLegacyPassword(identity);
+  if (!auth) return null;
+
+  try {
+    await rotateLegacyPassword(identity, auth);
+    console.log(`Migrated ${identity.provider} account to a random bridge secret`);
+  } catch (error) {
+    // Leave the legacy password in place; the next sign-in retries the rotation
+    console.error('Failed to rotate legacy OAuth password:', error);
+  }
+  return auth;
+}
+
+export interface LegacyRotationResult {
+  rotated: number;
+  // Already rotated, or no account was ever created with the legacy password
+  skipped: number;
+  failed: { identity: OAuthIdentity; error: string }[];
+}
+
+/**
+ * One-time bulk rotation: give every listed identity that still has a legacy
+ * password a random secret, whether or not its owner ever signs in again.
+ * Safe to run more than once.
+ */
+export async function rotateLegacyAccounts(identities: OAuthIdentity[]): Promise<LegacyRotationResult> {
+  const result: LegacyRotationResult = { rotated: 0, skipped: 0, failed: [] };
+
+  for (const identity of identities) {
+    try {
+      const auth = (await findCredential(identity)) ? null : await loginWithLegacyPassword(identity);
+      if (!auth) {
+        result.skipped++;
+        continue;
+      }
+      await rotateLegacyPassword(identity, auth);
+      result.rotated++;
+    } catch (error) {
+      result.failed.push({ identity, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return result;
+}
+
+// Whether a password has the legacy shape; TrustFolio's own login refuses these outright
+export function isLegacyOAuthPassword(password: string): boolean {
+  return /^(google|github)_oauth_\S+$/.test(password);
+}
+
+/**
+ * Resolve an OAuth identity to a LinkedTrust session, creating the backend
+ * account on first sign-in. A 'conflict' means the email already belongs to
+ * a password account and needs explicit linking.
+ */
+export async function bridgeOAuthSignIn(identity: OAuthIdentity): Promise<BridgeResult> {
+  const credential = await findCredential(identity);
+  if (credential) {
+    const auth = await loginWithPassword(credential.email, decryptSecret(credential.encryptedSecret));
+    return { status: 'ok', auth };
+  }
+
+  const migrated = await migrateLegacyAccount(identity);
+  if (migrated) {
+    return { status: 'ok', auth: migrated };
+  }
+
+  const secret = generateSecret();
+  try {
+    const auth = await signupWithPassword(identity.email, secret, identity.name);
+    await saveCredential(identity, secret, false);
+    return { status: 'ok', auth };
+  } catch (error) {
+    if (error instanceof AuthError && error.status === 409) {
+      return { status: 'conflict' };
+    }
+    return { status: 'error', message: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -0,0 +1,92 @@
+import { ImageResponse } from 'next/og';
+
+/**
+ * Shared layout for the generated Open Graph images (opengraph-image.tsx
+ * next to the public portfolio and permalink pages), so link previews in
+ * LinkedIn, Slack and messaging apps look like one product.
+ *
+ * Sticks to plain text: emoji and symbols outside the bundled font would
+ * make the image renderer fetch extra assets at request time.
+ *
+ * Server-only: never import from client components.
+ */
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+export const OG_IMAGE_CONTENT_TYPE = 'image/png';
+
+const MAX_BODY_LENGTH = 180;
+
+export interface OgStat {
+  label: string;
+  value: string;
+}
+
+export interface OgImageContent {
+  // Small line above the title (e.g. "Verified portfolio")
+  eyebrow: string;
+  title: string;
+  body?: string;
+  stats?: OgStat[];
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
+
+export function renderOgImage({ eyebrow, title, body, stats = [] }: OgImageContent): ImageResponse {
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: '64px 72px',
+          background: 'linear-gradient(135deg, #eef2ff 0%, #e0e7ff 55%, #c7d2fe 100%)',
+          color: '#111827',
+        }}
+      >
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <div style={{ fontSize: 28, color: '#4f46e5', fontWeight: 600, marginBottom: 16 }}>{eyebrow}</div>
+          <div style={{ fontSize: 64, fontWeight: 700, lineHeight: 1.1 }}>{truncate(title, 60)}</div>
+          {body && (
+            <div style={{ fontSize: 32, color: '#374151', marginTop: 24, lineHeight: 1.35 }}>
+              {truncate(body, MAX_BODY_LENGTH)}
+            </div>
+          )}
+        </div>
+
+        {stats.length > 0 && (
+          <div style={{ display: 'flex', gap: 24 }}>
+            {stats.map(stat => (
+              <div
+                key={stat.label}
+                style={{
+                  display: 'flex',
+                  flexDirection: 'column',
+                  background: 'white',
+                  borderRadius: 20,
+                  padding: '20px 32px',
+                  minWidth: 220,
+                }}
+              >
+                <div style={{ fontSize: 44, fontWeight: 700, color: '#312e81', textTransform: 'capitalize' }}>
+                  {stat.value}
+                </div>
+                <div style={{ fontSize: 24, color: '#6b7280' }}>{stat.label}</div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 26, color: '#4b5563' }}>
+          <div style={{ fontWeight: 700, color: '#4f46e5' }}>TrustFolio</div>
+          <div>Verified on LinkedTrust</div>
+        </div>
+      </div>
+    ),
+    OG_IMAGE_SIZE
+  );
+}
@@ -0,0 +1,45 @@
+/**
+ * Password policy shared by registration, password change and reset, on
+ * both client (instant feedback) and server (enforcement).
+ */
+
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 128;
+
+export const PASSWORD_POLICY_HINT =
+  `At least ${PASSWORD_MIN_LENGTH} characters, with a letter and a number`;
+
+// Small deny-list of the most common passwords that still satisfy the rules
+const COMMON_PASSWORDS = new Set([
+  'password1', 'password123', 'passw0rd', 'qwerty123', 'abc12345', 'letmein1',
+  'welcome1', 'iloveyou1', '12345678a', 'trustfolio1', 'admin123', 'changeme1',
+]);
+
+/**
+ * Check a password against the policy.
+ *
+ * @returns list of human-readable problems; empty when the password is acceptable
+ */
+export function validatePassword(password: string, context: { email?: string } = {}): string[] {
+  const problems: string[] = [];
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    problems.push(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`);
+  }
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    problems.push(`Password must be at most ${PASSWORD_MAX_LENGTH} characters`);
+  }
+  if (!/[a-zA-Z]/.test(password) || !/[0-9]/.test(password)) {
+    problems.push('Password must contain at least one letter and one number');
+  }
+  if (COMMON_PASSWORDS.has(password.toLowerCase())) {
+    problems.push('Password is too common');
+  }
+
+  const localPart = context.email?.split('@')[0]?.toLowerCase();
+  if (localPart && localPart.length >= 3 && password.toLowerCase().includes(localPart)) {
+    problems.push('Password must not contain your email address');
+  }
+
+  return problems;
+}
@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import { signToken, verifyToken } from '@/lib/app-secret';
+import { readStore, updateStore } from '@/lib/json-store';
+
+/**
+ * Password reset tokens.
+ *
+ * Tokens are signed and expire after RESET_TOKEN_TTL_SECONDS. Each carries a
+ * random nonce that is recorded when the token is used, so a reset link works
+ * only once even within its lifetime.
+ */
+
+const PURPOSE = 'password-reset';
+const STORE = 'password-resets';
+
+export const RESET_TOKEN_TTL_SECONDS = 30 * 60;
+
+// Reset emails allowed per address within the window
+export const RESET_REQUEST_LIMIT = 3;
+export const RESET_REQUEST_WINDOW_MS = 60 * 60_000;
+
+interface ResetPayload {
+  email: string;
+  nonce: string;
+}
+
+// nonce -> token expiry (seconds); expired entries are pruned on write
+type UsedNonceStore = { [nonce: string]: number };
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function createResetToken(email: string): string {
+  return signToken<ResetPayload>(
+    PURPOSE,
+    { email: normalizeEmail(email), nonce: crypto.randomBytes(16).toString('base64url') },
+    RESET_TOKEN_TTL_SECONDS
+  );
+}
+
+/**
+ * The email a reset token was issued for, or null if it is invalid, expired
+ * or already used.
+ */
+export async function verifyResetToken(token: string): Promise<string | null> {
+  const payload = verifyToken<ResetPayload>(PURPOSE, token);
+  if (!payload) return null;
+
+  const used = await readStore<UsedNonceStore>(STORE, {});
+  return used[payload.nonce] ? null : payload.email;
+}
+
+/**
+ * Mark a token as used. Returns the email, or null if the token was not
+ * valid (including when a concurrent request used it first).
+ */
+export async function consumeResetToken(token: string): Promise<string | null> {
+  const payload = verifyToken<ResetPayload>(PURPOSE, token);
+  if (!payload) return null;
+
+  let consumed = false;
+  await updateStore<UsedNonceStore>(STORE, {}, used => {
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    for (const [nonce, exp] of Object.entries(used)) {
+      if (exp < nowSeconds) delete used[nonce];
+    }
+
+    if (used[payload.nonce]) return;
+    used[payload.nonce] = payload.exp;
+    consumed = true;
+  });
+
+  return consumed ? payload.email : null;
+}
+
+export function buildResetEmail(resetUrl: string): { subject: string; text: string } {
+  const minutes = Math.round(RESET_TOKEN_TTL_SECONDS / 60);
+
+  return {
+    subject: 'Reset your TrustFolio password',
+    text: [
+      'Someone asked to reset the password for your TrustFolio account.',
+      '',
+      `Choose a new password here (the link expires in ${minutes} minutes and works once):`,
+      resetUrl,
+      '',
+      'If this wasn\'t you, you can ignore this email - your password won\'t change.',
+    ].join('\n'),
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Portfolio statistics and category display helpers, shared by the private
+ * portfolio and the public profile pages.
+ */
+
+export interface PortfolioStats {
+  totalAchievements: number;
+  // Formatted to one decimal place, e.g. "4.2"
+  averageRating: string;
+  // [category, count] pairs, most common first
+  categoryBreakdown: [string, number][];
+  ratingDistribution: { [stars: number]: number };
+  topCategory: string;
+}
+
+const CATEGORY_EMOJI: { [key: string]: string } = {
+  project: '📁',
+  skill: '💡',
+  certification: '🎓',
+  course: '📚',
+  award: '🏆',
+  publication: '📝',
+  volunteer: '❤️',
+  hackathon: '💻',
+  research: '🔬',
+  presentation: '🎤',
+};
+
+export function getCategoryEmoji(category: string = 'project'): string {
+  return CATEGORY_EMOJI[category.toLowerCase()] || '📁';
+}
+
+/**
+ * @param topCategories - how many categories to keep in the breakdown
+ */
+export function calculatePortfolioStats(
+  claims: { stars?: number; aspect?: string }[],
+  topCategories: number = 5
+): PortfolioStats {
+  const averageRating = claims.length > 0
+    ? (claims.reduce((sum, claim) => sum + (claim.stars || 0), 0) / claims.length).toFixed(1)
+    : '0.0';
+
+  const counts: { [key: string]: number } = {};
+  const ratingDistribution: { [stars: number]: number } = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  claims.forEach(claim => {
+    const category = claim.aspect || 'project';
+    counts[category] = (counts[category] || 0) + 1;
+
+    const rating = claim.stars || 0;
+    if (rating >= 1 && rating <= 5) ratingDistribution[rating]++;
+  });
+
+  const categoryBreakdown = Object.entries(counts)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, topCategories);
+
+  return {
+    totalAchievements: claims.length,
+    averageRating,
+    categoryBreakdown,
+    ratingDistribution,
+    topCategory: categoryBreakdown.length > 0 ? categoryBreakdown[0][0] : 'project',
+  };
+}
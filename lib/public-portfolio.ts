@@ -0,0 +1,102 @@
+import { cache } from 'react';
+import { notFound, redirect } from 'next/navigation';
+import { filterCurrentClaims, getClaimVersions, getCurrentClaimId, getVersionClaimIds } from '@/lib/claim-revisions';
+import { filterUntrashedClaims, isClaimTrashed } from '@/lib/claim-trash';
+import { filterPublicClaims, isClaimPublic } from '@/lib/claim-visibility';
+import { isEndorsementClaim } from '@/lib/endorsement-policy';
+import { Claim, LinkedTrustClient, isLinkedTrustError, normalizeClaim, userIdFromUri } from '@/lib/linkedtrust-client';
+import { ClaimVersion } from '@/lib/revisions';
+import { Profile, getProfile, resolveUsername } from '@/lib/usernames';
+
+/**
+ * Data loaders for the pages other people see: public portfolios
+ * (/p/[username]) and achievement permalinks (/c/[claimId]), along with
+ * their metadata and Open Graph images.
+ *
+ * Loaders are wrapped in React `cache`, so a page and its generateMetadata
+ * ask LinkedTrust once per request. Only public achievements are returned.
+ *
+ * Server-only: never import from client components.
+ */
+
+/**
+ * Display name for a profile, falling back to the capitalized username
+ */
+export function displayNameFor(profile: Profile): string {
+  return profile.displayName || profile.username.charAt(0).toUpperCase() + profile.username.slice(1);
+}
+
+// Resolve a username from the URL; null when nobody has it. `redirectTo` is set for old usernames.
+export const loadPublicProfile = cache(
+  async (username: string): Promise<{ profile: Profile; redirectTo?: string } | null> =>
+    resolveUsername(decodeURIComponent(username))
+);
+
+/**
+ * Load a profile's public achievements from LinkedTrust
+ *
+ * Claims are read without a token - only what LinkedTrust serves publicly -
+ * and link-only or private achievements are left out, as are endorsements
+ * the person wrote for others and versions that have since been edited.
+ * Returns null when the backend can't be reached.
+ */
+export const loadPublicClaims = cache(async (profile: Profile): Promise<Claim[] | null> => {
+  try {
+    const claims = await new LinkedTrustClient().getClaimsByIssuer(profile.issuerId);
+    const current = await filterCurrentClaims(claims.filter(claim => !isEndorsementClaim(claim)));
+    return await filterPublicClaims(await filterUntrashedClaims(current));
+  } catch (error) {
+    console.error(`Error loading public portfolio for ${profile.username}:`, error);
+    return null;
+  }
+});
+
+export interface PublicClaim {
+  claim: Claim;
+  // The claim exactly as LinkedTrust returned it
+  raw: unknown;
+  issuer: Profile | null;
+}
+
+/**
+ * Load a public claim and its issuer's profile
+ *
+ * 404s for unknown, trashed and non-public claims and redirects edited ones to
+ * their current version; returns null when the backend can't be reached.
+ */
+export const loadPublicClaim = cache(async (claimIdParam: string): Promise<PublicClaim | null> => {
+  const claimId = Number(claimIdParam);
+  if (!Number.isInteger(claimId) || claimId <= 0) notFound();
+  // An edited achievement lives on under the claim that superseded it
+  const currentClaimId = await getCurrentClaimId(claimId);
+  if (currentClaimId !== claimId) redirect(`/c/${currentClaimId}`);
+  if ((await isClaimTrashed(claimId)) || !(await isClaimPublic(claimId))) notFound();
+
+  let raw: unknown;
+  try {
+    raw = await new LinkedTrustClient().getRawClaim(claimId);
+  } catch (error) {
+    if (isLinkedTrustError(error) && error.code === 'NOT_FOUND') notFound();
+    console.error(`Error loading achievement ${claimId}:`, error);
+    return null;
+  }
+
+  const claim = normalizeClaim(raw);
+  const issuerId = userIdFromUri(claim.issuerId);
+  return { claim, raw, issuer: issuerId ? await getProfile(issuerId) : null };
+});
+
+/**
+ * Version history of a public achievement, newest first; empty when it was
+ * never edited or LinkedTrust can't be reached. Earlier versions are public
+ * LinkedClaims too, so anyone may see what changed.
+ */
+export async function loadPublicVersions(claimId: number, ownerName: string): Promise<ClaimVersion[]> {
+  if ((await getVersionClaimIds(claimId)).length < 2) return [];
+  try {
+    return await getClaimVersions(new LinkedTrustClient(), claimId, ownerName);
+  } catch (error) {
+    console.error(`Error loading versions of achievement ${claimId}:`, error);
+    return [];
+  }
+}
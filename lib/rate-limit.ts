@@ -0,0 +1,49 @@
+import { updateStore } from '@/lib/json-store';
+
+/**
+ * Fixed-window request counters kept in the JSON store, so limits survive
+ * restarts. Keys are namespaced by the caller (e.g. `password-reset:<email>`).
+ */
+
+const STORE = 'rate-limits';
+
+type RateLimitStore = { [key: string]: { count: number; windowStart: number; windowMs: number } };
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Count one attempt against `key` and report whether it is within `limit`
+ * attempts per `windowMs`. Rejected attempts are not counted.
+ */
+export async function consumeRateLimit(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+  const now = Date.now();
+  let result: RateLimitResult = { allowed: true, remaining: limit, retryAfterSeconds: 0 };
+
+  await updateStore<RateLimitStore>(STORE, {}, store => {
+    // Drop expired windows so the file doesn't grow forever
+    for (const [existingKey, entry] of Object.entries(store)) {
+      if (now - entry.windowStart >= entry.windowMs) delete store[existingKey];
+    }
+
+    const entry = store[key] || { count: 0, windowStart: now, windowMs };
+
+    if (entry.count >= limit) {
+      result = {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: Math.ceil((entry.windowStart + windowMs - now) / 1000),
+      };
+      return;
+    }
+
+    entry.count += 1;
+    store[key] = entry;
+    result = { allowed: true, remaining: limit - entry.count, retryAfterSeconds: 0 };
+  });
+
+  return result;
+}
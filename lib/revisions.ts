@@ -0,0 +1,206 @@
+import { apiRequest } from '@/lib/api-request';
+import { Claim, ClaimInput } from '@/lib/linkedtrust-client';
+
+/**
+ * Editing backend achievements. LinkedClaims are meant to be permanent, so
+ * an edit never changes a claim in place: it issues a new claim with the
+ * edited fields whose `supersedes` is the original's URI. TrustFolio records
+ * the pair (lib/claim-revisions.ts), hides the superseded claim from every
+ * listing and redirects its permalink, and moves the achievement's
+ * visibility, evidence, endorsements and validations to the new claim.
+ *
+ * An edit is checked against the fields the editor started from, so a change
+ * made elsewhere in the meantime (another tab, a synced offline edit) is
+ * reported as a conflict instead of being silently overwritten.
+ *
+ * Each claim in the chain is a version of the achievement; restoring an
+ * earlier version supersedes the current claim with a copy of its fields, so
+ * history only ever grows. Local Mode achievements keep their earlier
+ * versions in localStorage instead (lib/linkedclaims.ts).
+ *
+ * Shared by the edit form, the portfolio, the offline outbox and the server.
+ */
+
+export type RevisableField = 'claim' | 'statement' | 'effectiveDate' | 'stars' | 'aspect';
+
+export type ClaimRevision = Partial<Pick<ClaimInput, RevisableField>>;
+
+export const REVISABLE_FIELDS: RevisableField[] = ['claim', 'statement', 'effectiveDate', 'stars', 'aspect'];
+
+export const REVISABLE_FIELD_LABELS: { [field in RevisableField]: string } = {
+  claim: 'Claim type',
+  statement: 'Description',
+  effectiveDate: 'Date',
+  stars: 'Rating',
+  aspect: 'Category',
+};
+
+// Body of a 409 from /api/revisions
+export interface RevisionConflict {
+  error: string;
+  // The claim that now stands for the achievement; differs from the edited one once it was superseded
+  currentClaimId: number;
+  current: ClaimRevision;
+  changed: RevisableField[];
+}
+
+// One version of an achievement, as the history panel shows it
+export interface ClaimVersion {
+  // 1 for the achievement as first created
+  number: number;
+  // Backend claim holding this version; Local Mode versions have none
+  claimId?: number;
+  fields: ClaimRevision;
+  createdAt: string;
+  authorName: string;
+  // Set when this version was made by restoring an earlier one
+  restoredFrom?: number;
+  // Endorsements and confirmed validations given while this version was current
+  endorsements: number;
+  validations: number;
+}
+
+export interface FieldChange {
+  field: RevisableField;
+  before?: string | number;
+  after?: string | number;
+}
+
+export interface WordChange {
+  text: string;
+  kind: 'same' | 'added' | 'removed';
+}
+
+export const REVISION_STATEMENT_MAX_LENGTH = 500;
+
+// The editable fields of a claim, as the edit form and conflict checks compare them
+export function revisionOf(claim: Partial<Claim | ClaimInput>): ClaimRevision {
+  const revision: ClaimRevision = {};
+  for (const field of REVISABLE_FIELDS) {
+    if (claim[field] !== undefined) (revision as Record<string, unknown>)[field] = claim[field];
+  }
+  return revision;
+}
+
+// Fields `expected` sets that `current` no longer matches
+export function changedFields(expected: ClaimRevision, current: ClaimRevision): RevisableField[] {
+  return REVISABLE_FIELDS.filter(field => {
+    const value = expected[field];
+    if (value === undefined) return false;
+    return typeof value === 'string' ? value.trim() !== String(current[field] ?? '').trim() : value !== current[field];
+  });
+}
+
+// What changed between two versions, in REVISABLE_FIELDS order
+export function diffRevisions(before: ClaimRevision, after: ClaimRevision): FieldChange[] {
+  return REVISABLE_FIELDS
+    .filter(field => String(before[field] ?? '').trim() !== String(after[field] ?? '').trim())
+    .map(field => ({ field, before: before[field], after: after[field] }));
+}
+
+/**
+ * Word-level diff of two statements, for showing what an edit changed.
+ * Whitespace is kept with the word before it, so joining the texts of the
+ * 'same' and 'added' parts gives back `after`, less any leading whitespace.
+ */
+export function diffWords(before: string, after: string): WordChange[] {
+  const a = before.match(/\S+\s*/g) || [];
+  const b = after.match(/\S+\s*/g) || [];
+  const same = (x: string, y: string) => x.trim() === y.trim();
+
+  // Longest common subsequence table, filled from the end
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = same(a[i], b[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes: WordChange[] = [];
+  const push = (text: string, kind: WordChange['kind']) => {
+    const last = changes[changes.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else changes.push({ text, kind });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && same(a[i], b[j])) {
+      push(b[j], 'same');
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  return changes;
+}
+
+/**
+ * Check an edit before it is sent.
+ *
+ * @returns a human-readable problem, or null when the edit is acceptable
+ */
+export function validateRevision(changes: ClaimRevision): string | null {
+  if (changes.statement !== undefined) {
+    if (typeof changes.statement !== 'string' || !changes.statement.trim()) return 'Description is required';
+    if (changes.statement.length > REVISION_STATEMENT_MAX_LENGTH) {
+      return `Descriptions can be at most ${REVISION_STATEMENT_MAX_LENGTH} characters`;
+    }
+  }
+  if (changes.stars !== undefined && (!Number.isInteger(changes.stars) || changes.stars < 1 || changes.stars > 5)) {
+    return 'Rating must be between 1 and 5 stars';
+  }
+  if (changes.effectiveDate !== undefined
+    && (typeof changes.effectiveDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(changes.effectiveDate))) {
+    return 'Date must be YYYY-MM-DD';
+  }
+  for (const field of ['claim', 'aspect'] as const) {
+    const value = changes[field];
+    if (value !== undefined && (typeof value !== 'string' || !value.trim())) {
+      return `Invalid ${REVISABLE_FIELD_LABELS[field].toLowerCase()}`;
+    }
+  }
+  return null;
+}
+
+export function isRevisionConflict(details: unknown): details is RevisionConflict {
+  return !!details && typeof details === 'object' && typeof (details as { currentClaimId?: unknown }).currentClaimId === 'number';
+}
+
+function revisionRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  return apiRequest<T>('save your changes', url, init);
+}
+
+/**
+ * Supersede a backend claim with an edited copy.
+ *
+ * @param options.expected - the fields the edit started from; omit to skip the conflict check
+ * @param options.restoredFrom - claim id of the earlier version being restored
+ * @returns the new claim
+ * @throws LinkedTrustError with code CONFLICT and a RevisionConflict as `details`
+ *   when the claim changed or was already superseded
+ */
+export async function reviseClaim(
+  claimId: number,
+  changes: ClaimRevision,
+  options: { expected?: ClaimRevision; restoredFrom?: number } = {}
+): Promise<Claim> {
+  const data = await revisionRequest<{ claim: Claim }>('/api/revisions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ claimId, changes, ...options }),
+  });
+  return data.claim;
+}
+
+// Every version of one of the signed-in user's backend achievements, newest first
+export async function fetchClaimVersions(claimId: number): Promise<ClaimVersion[]> {
+  const data = await revisionRequest<{ versions: ClaimVersion[] }>(`/api/revisions/${claimId}`);
+  return data.versions;
+}
+
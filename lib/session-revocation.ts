@@ -0,0 +1,23 @@
+import { readStore, updateStore } from '@/lib/json-store';
+
+/**
+ * Per-user "sessions issued before this time are invalid" markers, set when
+ * a password changes so other devices are signed out.
+ */
+
+const STORE = 'session-revocations';
+
+type RevocationStore = { [issuerId: string]: number };
+
+export async function revokeSessionsBefore(issuerId: number | string, timestampMs: number = Date.now()): Promise<void> {
+  await updateStore<RevocationStore>(STORE, {}, store => {
+    store[String(issuerId)] = timestampMs;
+  });
+}
+
+// `issuedAtMs` of a session that was created before the last revocation is no longer valid
+export async function isSessionRevoked(issuerId: number | string, issuedAtMs: number): Promise<boolean> {
+  const store = await readStore<RevocationStore>(STORE, {});
+  const revokedBefore = store[String(issuerId)];
+  return revokedBefore !== undefined && issuedAtMs < revokedBefore;
+}
@@ -0,0 +1,265 @@
+import crypto from 'crypto';
+import { cookies, headers } from 'next/headers';
+import { NextRequest } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { decryptSecret, encryptSecret } from '@/lib/app-secret';
+import { readStore, updateStore } from '@/lib/json-store';
+import { AuthResult, AuthUser, accessTokenExpiry, refreshAccessToken } from '@/lib/linkedtrust-auth';
+import { isSessionRevoked } from '@/lib/session-revocation';
+import { getProfile } from '@/lib/usernames';
+
+/**
+ * Server-side sessions.
+ *
+ * Every sign-in gets a record in the session store holding the LinkedTrust
+ * tokens (encrypted), so they never reach the browser. Email/password
+ * sign-ins find their record through an httpOnly cookie; OAuth sign-ins
+ * through the id kept in the NextAuth JWT cookie (also httpOnly).
+ * getRequestAuth() resolves either kind, so server components and route
+ * handlers don't care how the user signed in.
+ *
+ * Access tokens are refreshed shortly before they expire, and on demand via
+ * refreshRequestAuth() when the backend rejects one. A session whose token
+ * can't be refreshed is dropped and the user has to sign in again.
+ *
+ * Server-only: never import from client components.
+ */
+
+export const SESSION_COOKIE = 'trustfolio_session';
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+const STORE = 'sessions';
+
+// Refresh this long before the access token's own expiry
+const REFRESH_MARGIN_MS = 60_000;
+
+export type AuthMethod = 'oauth' | 'password';
+
+interface StoredSession {
+  user: AuthUser;
+  authMethod: AuthMethod;
+  encryptedToken?: string;
+  encryptedRefreshToken?: string;
+  tokenExpiresAt?: number;
+  createdAt: number;
+  expiresAt: number;
+}
+
+// Keyed by a hash of the session id, so the store alone can't be replayed as cookies
+type SessionStore = { [idHash: string]: StoredSession };
+
+export interface RequestAuth {
+  user: AuthUser;
+  // LinkedTrust access token; null when the backend didn't issue one
+  token: string | null;
+  authMethod: AuthMethod;
+  sessionId: string | null;
+}
+
+// What the browser is allowed to know about the session (see /api/auth/me)
+export interface SessionInfo {
+  user: AuthUser;
+  authMethod: AuthMethod;
+  hasBackendAccess: boolean;
+  // Claimed public handle for /p/[username]; absent until the user picks one
+  username?: string;
+}
+
+// Refreshes in flight, so concurrent requests don't spend the same refresh token twice
+const refreshing = new Map<string, Promise<StoredSession | null>>();
+
+function hashId(id: string): string {
+  return crypto.createHash('sha256').update(id).digest('base64url');
+}
+
+export async function toSessionInfo(auth: RequestAuth): Promise<SessionInfo> {
+  const issuerId = auth.user.issuerId || auth.user.id;
+  const profile = issuerId ? await getProfile(issuerId) : null;
+
+  return {
+    user: auth.user,
+    authMethod: auth.authMethod,
+    hasBackendAccess: !!auth.token,
+    username: profile?.username,
+  };
+}
+
+function toRequestAuth(id: string, session: StoredSession): RequestAuth {
+  return {
+    user: session.user,
+    token: session.encryptedToken ? decryptSecret(session.encryptedToken) : null,
+    authMethod: session.authMethod,
+    sessionId: id,
+  };
+}
+
+/**
+ * Store a new session and return its id. Password sessions go through
+ * createSession(); the NextAuth jwt callback calls this for OAuth sign-ins.
+ */
+export async function saveSession(auth: AuthResult, authMethod: AuthMethod): Promise<string> {
+  const id = crypto.randomBytes(32).toString('base64url');
+  const now = Date.now();
+
+  await updateStore<SessionStore>(STORE, {}, store => {
+    for (const [key, session] of Object.entries(store)) {
+      if (session.expiresAt < now) delete store[key];
+    }
+
+    store[hashId(id)] = {
+      user: auth.user,
+      authMethod,
+      encryptedToken: auth.token ? encryptSecret(auth.token) : undefined,
+      encryptedRefreshToken: auth.refreshToken ? encryptSecret(auth.refreshToken) : undefined,
+      tokenExpiresAt: (auth.token && accessTokenExpiry(auth.token)) || undefined,
+      createdAt: now,
+      expiresAt: now + SESSION_TTL_SECONDS * 1000,
+    };
+  });
+
+  return id;
+}
+
+async function deleteSession(id: string): Promise<void> {
+  await updateStore<SessionStore>(STORE, {}, store => {
+    delete store[hashId(id)];
+  });
+}
+
+/**
+ * Start a password session and set its cookie. Call from route handlers only
+ * (cookies can't be set while rendering).
+ */
+export async function createSession(auth: AuthResult): Promise<RequestAuth> {
+  const id = await saveSession(auth, 'password');
+
+  (await cookies()).set(SESSION_COOKIE, id, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS,
+  });
+
+  return { user: auth.user, token: auth.token || null, authMethod: 'password', sessionId: id };
+}
+
+// Remove the current session record and the password cookie. Route handlers only.
+export async function destroySession(): Promise<void> {
+  const cookieStore = await cookies();
+  const id = cookieStore.get(SESSION_COOKIE)?.value || (await readOAuthSessionId());
+
+  if (id) await deleteSession(id);
+  cookieStore.delete(SESSION_COOKIE);
+}
+
+/**
+ * Exchange the stored refresh token for a new access token. Returns the
+ * updated session, or null (and drops the session) when refreshing fails.
+ */
+function refreshStoredSession(id: string, session: StoredSession): Promise<StoredSession | null> {
+  const key = hashId(id);
+  const pending = refreshing.get(key);
+  if (pending) return pending;
+
+  const refresh = (async () => {
+    if (!session.encryptedRefreshToken) {
+      await deleteSession(id);
+      return null;
+    }
+
+    try {
+      const { token, refreshToken } = await refreshAccessToken(decryptSecret(session.encryptedRefreshToken));
+      if (!token) throw new Error('Refresh response did not include an access token');
+
+      const updated: StoredSession = {
+        ...session,
+        encryptedToken: encryptSecret(token),
+        encryptedRefreshToken: encryptSecret(refreshToken),
+        tokenExpiresAt: accessTokenExpiry(token) || undefined,
+      };
+      await updateStore<SessionStore>(STORE, {}, store => {
+        if (store[key]) store[key] = updated;
+      });
+      return updated;
+    } catch (error) {
+      console.error('Failed to refresh session token:', error);
+      await deleteSession(id);
+      return null;
+    } finally {
+      refreshing.delete(key);
+    }
+  })();
+
+  refreshing.set(key, refresh);
+  return refresh;
+}
+
+async function loadSession(id: string): Promise<RequestAuth | null> {
+  let session: StoredSession | null = (await readStore<SessionStore>(STORE, {}))[hashId(id)];
+  if (!session || session.expiresAt < Date.now()) return null;
+
+  // Signed out everywhere by a password change or reset
+  if (await isSessionRevoked(session.user.issuerId || session.user.id, session.createdAt)) return null;
+
+  if (session.encryptedToken && session.tokenExpiresAt && session.tokenExpiresAt - REFRESH_MARGIN_MS < Date.now()) {
+    session = await refreshStoredSession(id, session);
+    if (!session) return null;
+  }
+
+  return toRequestAuth(id, session);
+}
+
+/**
+ * Force a token refresh after the backend rejected the current one.
+ * Returns null when the session can't be renewed and the user must sign in again.
+ */
+export async function refreshRequestAuth(auth: RequestAuth): Promise<RequestAuth | null> {
+  if (!auth.sessionId) return null;
+
+  const session = (await readStore<SessionStore>(STORE, {}))[hashId(auth.sessionId)];
+  if (!session) return null;
+
+  // Another request may have refreshed it since this one started
+  if (session.encryptedToken && decryptSecret(session.encryptedToken) !== auth.token) {
+    return toRequestAuth(auth.sessionId, session);
+  }
+
+  const refreshed = await refreshStoredSession(auth.sessionId, session);
+  return refreshed ? toRequestAuth(auth.sessionId, refreshed) : null;
+}
+
+async function readOAuthJwt() {
+  // getToken reads (possibly chunked) NextAuth cookies from a request object
+  const request = new NextRequest('http://localhost/', { headers: await headers() });
+  return getToken({ req: request });
+}
+
+async function readOAuthSessionId(): Promise<string | null> {
+  return (await readOAuthJwt())?.backendSessionId || null;
+}
+
+async function getOAuthSession(): Promise<RequestAuth | null> {
+  const jwt = await readOAuthJwt();
+  if (!jwt?.email) return null;
+
+  const backend = jwt.backendSessionId ? await loadSession(jwt.backendSessionId) : null;
+  if (backend) return backend;
+
+  // Signed in with Google/GitHub but without (or no longer with) LinkedTrust access
+  return {
+    user: { id: 0, email: jwt.email, name: jwt.name || undefined },
+    token: null,
+    authMethod: 'oauth',
+    sessionId: null,
+  };
+}
+
+/**
+ * The signed-in user for the current request, from the password session
+ * cookie or the NextAuth session. Works in server components and route
+ * handlers.
+ */
+export async function getRequestAuth(): Promise<RequestAuth | null> {
+  const id = (await cookies()).get(SESSION_COOKIE)?.value;
+  return (id && (await loadSession(id))) || (await getOAuthSession());
+}
@@ -0,0 +1,73 @@
+import { apiRequest } from '@/lib/api-request';
+
+/**
+ * Trash for deleted achievements. Deleting moves an achievement to the
+ * trash, where it can be restored for TRASH_RETENTION_DAYS before it is
+ * deleted for good; it can also be deleted permanently from there sooner.
+ *
+ * Backend achievements are trashed in TrustFolio (lib/claim-trash.ts), which
+ * hides them everywhere; LinkedTrust only sees the permanent delete. Local
+ * Mode achievements, and creates still waiting in the outbox, are moved to a
+ * separate localStorage trash (lib/linkedclaims.ts) with the same rules.
+ *
+ * Shared by the portfolio, the offline outbox and the server.
+ */
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// When something deleted at `deletedAt` leaves the trash for good
+export function purgeDate(deletedAt: string): Date {
+  return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+export function isTrashExpired(deletedAt: string, now: number = Date.now()): boolean {
+  return purgeDate(deletedAt).getTime() <= now;
+}
+
+// Whole days left before permanent deletion, at least 0
+export function daysUntilPurge(deletedAt: string, now: number = Date.now()): number {
+  return Math.max(0, Math.ceil((purgeDate(deletedAt).getTime() - now) / DAY_MS));
+}
+
+// Claims one trash request may name (bulk restore and delete)
+export const TRASH_BATCH_LIMIT = 100;
+
+export function isClaimIdList(value: unknown): value is number[] {
+  return Array.isArray(value) && value.length > 0 && value.length <= TRASH_BATCH_LIMIT
+    && value.every(id => Number.isInteger(id) && id > 0);
+}
+
+function trashRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  return apiRequest<T>('update the trash', url, init);
+}
+
+function claimIdsRequest(method: string, claimIds: number[]): RequestInit {
+  return {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ claimIds }),
+  };
+}
+
+// When each of the signed-in user's trashed backend achievements was deleted, keyed by claim id
+export async function fetchTrash(): Promise<{ [claimId: string]: string }> {
+  const data = await trashRequest<{ trash: { [claimId: string]: string } }>('/api/trash');
+  return data.trash;
+}
+
+export async function moveToTrash(claimIds: number[]): Promise<void> {
+  await trashRequest<{ ok: boolean }>('/api/trash', claimIdsRequest('POST', claimIds));
+}
+
+export async function restoreFromTrash(claimIds: number[]): Promise<void> {
+  await trashRequest<{ ok: boolean }>('/api/trash/restore', claimIdsRequest('POST', claimIds));
+}
+
+// Delete trashed achievements from LinkedTrust for good, every version of each
+export async function deleteFromTrash(claimIds: number[]): Promise<void> {
+  await trashRequest<{ ok: boolean }>('/api/trash', claimIdsRequest('DELETE', claimIds));
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { ScoredValidation, computeTrustScore } from '@/lib/trust-score';
+import { ValidatorVerification } from '@/lib/validation-policy';
+
+function validation(validatorKey: string, verification: ValidatorVerification): ScoredValidation {
+  return {
+    validation: {
+      id: validatorKey,
+      claimId: 10,
+      role: 'instructor',
+      status: 'confirmed',
+      emailDomain: 'uni.edu',
+      verification,
+      notes: [],
+      createdAt: '2026-01-01T00:00:00.000Z',
+    },
+    validatorKey,
+  };
+}
+
+const scoreOf = (validations: ScoredValidation[]) => computeTrustScore({ validations, endorsements: [] }).score;
+
+describe('computeTrustScore', () => {
+  it('counts each validator once', () => {
+    const once = scoreOf([validation('account:7', 'account')]);
+
+    expect(once).toBe(68);
+    expect(scoreOf([validation('account:7', 'account'), validation('account:7', 'account')])).toBe(once);
+    expect(scoreOf([validation('domain:uni.edu', 'email'), validation('domain:uni.edu', 'email')])).toBe(48);
+  });
+
+  it('caps what validations add together', () => {
+    const accounts = ['7', '8', '9', '10'].map(id => validation(`account:${id}`, 'account'));
+
+    expect(scoreOf(accounts)).toBe(80);
+  });
+
+  it('keeps validations the owner chose the address for below high confidence', () => {
+    const emails = ['a.edu', 'b.edu', 'c.com', 'd.org'].map(domain => validation(`domain:${domain}`, 'email'));
+    const score = computeTrustScore({ validations: emails, endorsements: [] });
+
+    expect(score.score).toBe(60);
+    expect(score.level).toBe('medium');
+    expect(score.factors.reduce((sum, factor) => sum + factor.points, 0)).toBe(60);
+  });
+});
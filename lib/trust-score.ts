@@ -0,0 +1,150 @@
+import { Validation, validatorRoleLabel } from '@/lib/validation-policy';
+
+/**
+ * Per-achievement trust score: how confident a reader can be that an
+ * achievement is genuine, from 0 to 100, with a breakdown of what counted.
+ *
+ * Each piece of evidence is an independent chance of the achievement being
+ * confirmed, combined as 1 - product(1 - weight):
+ * - the owner's own statement (self-assertion), always present
+ * - each confirmed validation by an instructor, employer or organizer,
+ *   counted once per validator; the owner picks the address a validation
+ *   request goes to, so one answered without a LinkedTrust account counts
+ *   for less, once per email domain, and validations together are capped
+ * - each endorsement, weighted by its rating and by the endorser's own
+ *   standing (the endorsements and validations their achievements received)
+ *
+ * Adding evidence can only raise the score, and no single kind of evidence
+ * reaches 100 alone. The evidence is gathered server-side (lib/claim-graph.ts);
+ * this module is pure so cards can render a score anywhere.
+ */
+
+export type TrustLevel = 'low' | 'medium' | 'high';
+
+// One line of the breakdown; the points of all factors add up to the score
+export interface TrustFactor {
+  label: string;
+  detail: string;
+  points: number;
+}
+
+export interface TrustScore {
+  score: number;
+  level: TrustLevel;
+  factors: TrustFactor[];
+}
+
+export interface ScoredEndorsement {
+  endorserName: string;
+  stars: number;
+  // 0-1, from the endorsements and validations the endorser has received
+  endorserStanding: number;
+}
+
+export interface ScoredValidation {
+  validation: Validation;
+  // Who answered: their LinkedTrust account, or their email domain when they answered without one
+  validatorKey: string;
+}
+
+export interface TrustEvidence {
+  // Only confirmed validations count
+  validations: ScoredValidation[];
+  endorsements: ScoredEndorsement[];
+}
+
+export const NO_TRUST_EVIDENCE: TrustEvidence = { validations: [], endorsements: [] };
+
+const SELF_ASSERTION_WEIGHT = 0.2;
+const VALIDATION_WEIGHT = 0.6;
+const EMAIL_VALIDATION_WEIGHT = 0.35;
+// Most that validations can add together, and email-only ones on their own
+const VALIDATION_MAX_WEIGHT = 0.75;
+const EMAIL_VALIDATION_MAX_WEIGHT = 0.5;
+// An endorsement from someone with no standing, and the extra a fully established endorser adds
+const ENDORSEMENT_BASE_WEIGHT = 0.15;
+const ENDORSEMENT_STANDING_WEIGHT = 0.2;
+
+// Scores at or above these are medium / high confidence
+const MEDIUM_THRESHOLD = 40;
+const HIGH_THRESHOLD = 70;
+
+const LEVEL_LABELS: { [level in TrustLevel]: string } = {
+  low: 'Low confidence',
+  medium: 'Medium confidence',
+  high: 'High confidence',
+};
+
+export function trustLevelLabel(level: TrustLevel): string {
+  return LEVEL_LABELS[level];
+}
+
+function endorsementWeight(endorsement: ScoredEndorsement): number {
+  const standing = Math.min(Math.max(endorsement.endorserStanding, 0), 1);
+  return (ENDORSEMENT_BASE_WEIGHT + ENDORSEMENT_STANDING_WEIGHT * standing) * (endorsement.stars / 5);
+}
+
+// Lowers the weights, strongest first, so that together they add no more than `max`
+function capCombinedWeight(weights: number[], max: number): number[] {
+  let doubt = 1;
+  return weights.map(weight => {
+    const capped = Math.max(0, Math.min(weight, 1 - (1 - max) / doubt));
+    doubt *= 1 - capped;
+    return capped;
+  });
+}
+
+// One confirmed validation per validator, account-backed ones first, with their capped weights
+function validationSources(validations: ScoredValidation[]): { weight: number; label: string; detail: string }[] {
+  const byKey = new Map<string, Validation>();
+  for (const { validation, validatorKey } of validations) {
+    if (validation.status === 'confirmed' && !byKey.has(validatorKey)) byKey.set(validatorKey, validation);
+  }
+
+  const counted = [...byKey.values()];
+  const byAccount = counted.filter(validation => validation.verification === 'account');
+  const byEmail = counted.filter(validation => validation.verification !== 'account');
+  const weights = capCombinedWeight(
+    [
+      ...byAccount.map(() => VALIDATION_WEIGHT),
+      ...capCombinedWeight(byEmail.map(() => EMAIL_VALIDATION_WEIGHT), EMAIL_VALIDATION_MAX_WEIGHT),
+    ],
+    VALIDATION_MAX_WEIGHT
+  );
+
+  return [...byAccount, ...byEmail].map((validation, i) => ({
+    weight: weights[i],
+    label: `Validated by ${validation.validatorName || validatorRoleLabel(validation.role)}`,
+    detail: `${validatorRoleLabel(validation.role)}${validation.emailDomain ? ` at ${validation.emailDomain}` : ''}${
+      validation.verification === 'account' ? '' : '; email chosen by the owner'
+    }`,
+  }));
+}
+
+export function computeTrustScore(evidence: TrustEvidence): TrustScore {
+  const sources: { weight: number; label: string; detail: string }[] = [
+    { weight: SELF_ASSERTION_WEIGHT, label: 'Self-asserted', detail: 'Stated by the owner on LinkedTrust' },
+    ...validationSources(evidence.validations),
+    ...evidence.endorsements
+      .map(endorsement => ({
+        weight: endorsementWeight(endorsement),
+        label: `Endorsed by ${endorsement.endorserName}`,
+        detail: `Rated ${endorsement.stars}/5; endorser standing ${Math.round(endorsement.endorserStanding * 100)}%`,
+      }))
+      .sort((a, b) => b.weight - a.weight),
+  ];
+
+  // Points are the rounded increase each source adds, so the breakdown sums to the score
+  let doubt = 1;
+  let score = 0;
+  const factors = sources.map(source => {
+    doubt *= 1 - source.weight;
+    const next = Math.round((1 - doubt) * 100);
+    const factor = { label: source.label, detail: source.detail, points: next - score };
+    score = next;
+    return factor;
+  });
+
+  const level: TrustLevel = score >= HIGH_THRESHOLD ? 'high' : score >= MEDIUM_THRESHOLD ? 'medium' : 'low';
+  return { score, level, factors };
+}
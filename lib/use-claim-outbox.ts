@@ -0,0 +1,70 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  OutboxEntry,
+  OutboxEvent,
+  SyncStatus,
+  listOutboxEntries,
+  listQueuedCreateIds,
+  subscribeToOutbox,
+} from '@/lib/claim-outbox';
+
+/**
+ * Live view of the claim outbox for rendering per-claim sync badges.
+ *
+ * `entries` are the signed-in user's. `statusFor` looks up a claim by id:
+ * queued creates are keyed by their local id, queued edits, deletes and
+ * visibility changes by the backend claim id. `queuedCreateIds` holds the
+ * local ids of creates queued by anyone on this browser, so other users'
+ * unsynced claims aren't taken for Local Mode ones.
+ * `onSynced` runs after any queued write reaches the backend.
+ */
+export function useClaimOutbox(options: { onSynced?: () => void } = {}) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [queuedCreateIds, setQueuedCreateIds] = useState<Set<number>>(new Set());
+  const onSyncedRef = useRef(options.onSynced);
+
+  useEffect(() => {
+    onSyncedRef.current = options.onSynced;
+  });
+
+  useEffect(() => {
+    let active = true;
+    const refresh = (event?: OutboxEvent) => {
+      if (event === 'synced') onSyncedRef.current?.();
+      Promise.all([listOutboxEntries(), listQueuedCreateIds()])
+        .then(([list, createIds]) => {
+          if (!active) return;
+          setEntries(list);
+          setQueuedCreateIds(createIds);
+        })
+        .catch(error => console.error('Failed to read outbox:', error));
+    };
+
+    refresh();
+    const unsubscribe = subscribeToOutbox(refresh);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const entryFor = useCallback(
+    (claimId: number): OutboxEntry | undefined => {
+      const matches = entries.filter(entry =>
+        entry.op.kind === 'create' ? entry.op.localId === claimId : entry.op.claimId === claimId
+      );
+      // A queued visibility change or evidence attachment shouldn't hide a queued edit or delete of the same claim
+      return matches.find(entry => entry.op.kind !== 'visibility' && entry.op.kind !== 'evidence') || matches[0];
+    },
+    [entries]
+  );
+
+  const statusFor = useCallback(
+    (claimId: number): SyncStatus | undefined => entryFor(claimId)?.status,
+    [entryFor]
+  );
+
+  return { entries, queuedCreateIds, entryFor, statusFor };
+}
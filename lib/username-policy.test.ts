@@ -0,0 +1,36 @@
+import { readdirSync } from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { APP_ROUTE_SEGMENTS } from '@/lib/app-routes';
+import { validateUsername } from '@/lib/username-policy';
+
+describe('validateUsername', () => {
+  it('accepts names that merely contain a blocked word', () => {
+    for (const name of ['sarapeters', 'dickens', 'grapes', 'scrape', 'therapist']) {
+      expect(validateUsername(name)).toBeNull();
+    }
+  });
+
+  it('rejects blocked words on their own or between separators', () => {
+    for (const name of ['porn', 'dick-jones', 'jones_dick', 'f_u_c_k']) {
+      expect(validateUsername(name)).toBe('That username is not allowed');
+    }
+  });
+
+  it('reserves app route segments', () => {
+    for (const name of ['endorse', 'validate', 'settings', 'forgot-password']) {
+      expect(validateUsername(name)).toBe('That username is reserved');
+    }
+  });
+});
+
+describe('APP_ROUTE_SEGMENTS', () => {
+  it('lists every top-level route under app/', () => {
+    const appDir = path.resolve(__dirname, '../app');
+    const segments = readdirSync(appDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && !/^[([_]/.test(entry.name))
+      .map(entry => entry.name);
+
+    expect([...APP_ROUTE_SEGMENTS].sort()).toEqual(segments.sort());
+  });
+});
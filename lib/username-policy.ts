@@ -0,0 +1,57 @@
+/**
+ * Username rules for public profile handles (/p/[username]), shared by the
+ * settings form (instant feedback) and the registry (enforcement).
+ */
+
+import { APP_ROUTE_SEGMENTS } from '@/lib/app-routes';
+
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 30;
+
+export const USERNAME_POLICY_HINT =
+  `${USERNAME_MIN_LENGTH}-${USERNAME_MAX_LENGTH} characters: lowercase letters, numbers, hyphens and underscores`;
+
+// Handles that would look official, plus every app route segment
+const RESERVED_USERNAMES = new Set([
+  'admin', 'administrator', 'app', 'auth', 'help', 'linkedtrust', 'logout', 'me', 'moderator', 'null',
+  'root', 'signin', 'signup', 'staff', 'support', 'system', 'trustfolio', 'undefined', 'www',
+  ...APP_ROUTE_SEGMENTS,
+]);
+
+// Matched as whole words, never as substrings, so "dickens" and "grapes" stay allowed
+const BLOCKED_TERMS = new Set([
+  'fuck', 'shit', 'cunt', 'bitch', 'asshole', 'dick', 'pussy', 'whore', 'slut', 'nigger', 'nigga',
+  'faggot', 'retard', 'rape', 'nazi', 'porn',
+]);
+
+export function normalizeUsername(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Check a (normalized) username against the rules.
+ *
+ * @returns a human-readable problem, or null when the username is acceptable
+ */
+export function validateUsername(username: string): string | null {
+  if (username.length < USERNAME_MIN_LENGTH || username.length > USERNAME_MAX_LENGTH) {
+    return `Username must be ${USERNAME_MIN_LENGTH}-${USERNAME_MAX_LENGTH} characters`;
+  }
+  if (!/^[a-z0-9_-]+$/.test(username)) {
+    return 'Username may only contain lowercase letters, numbers, hyphens and underscores';
+  }
+  if (!/^[a-z0-9]/.test(username) || !/[a-z0-9]$/.test(username)) {
+    return 'Username must start and end with a letter or number';
+  }
+  if (RESERVED_USERNAMES.has(username)) {
+    return 'That username is reserved';
+  }
+
+  // Each separated word, plus the whole handle with separators removed so "f_u_c_k" is caught too
+  const words = [...username.split(/[-_]+/), username.replace(/[-_]/g, '')];
+  if (words.some(word => BLOCKED_TERMS.has(word))) {
+    return 'That username is not allowed';
+  }
+
+  return null;
+}
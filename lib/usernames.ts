@@ -0,0 +1,141 @@
+import { readStore, updateStore } from '@/lib/json-store';
+import { normalizeUsername, validateUsername } from '@/lib/username-policy';
+
+/**
+ * Username registry: the public handles in /p/[username], each owned by one
+ * LinkedTrust issuer.
+ *
+ * Users claim a handle in settings. When they change it, the old handle is
+ * retired: it keeps redirecting to the new one, and only its previous owner
+ * can take it back until RETIRED_HOLD_DAYS have passed.
+ *
+ * Server-only: never import from client components.
+ */
+
+const STORE = 'usernames';
+const RETIRED_HOLD_DAYS = 90;
+
+export interface Profile {
+  issuerId: number;
+  username: string;
+  displayName?: string;
+  claimedAt: string;
+}
+
+interface RetiredUsername {
+  issuerId: number;
+  retiredAt: string;
+}
+
+interface UsernameStore {
+  // Keyed by issuer id
+  profiles: { [issuerId: string]: Profile };
+  // Keyed by the old username
+  retired: { [username: string]: RetiredUsername };
+}
+
+export type UsernameErrorCode = 'INVALID' | 'TAKEN';
+
+/**
+ * Error from claimUsername; `code` tells the route which status to return.
+ */
+export class UsernameError extends Error {
+  readonly code: UsernameErrorCode;
+
+  constructor(message: string, code: UsernameErrorCode) {
+    super(message);
+    this.name = 'UsernameError';
+    this.code = code;
+  }
+}
+
+const EMPTY_STORE: UsernameStore = { profiles: {}, retired: {} };
+
+function findOwner(store: UsernameStore, username: string): Profile | undefined {
+  return Object.values(store.profiles).find(profile => profile.username === username);
+}
+
+function isHeld(retired: RetiredUsername): boolean {
+  return Date.now() - new Date(retired.retiredAt).getTime() < RETIRED_HOLD_DAYS * 24 * 60 * 60 * 1000;
+}
+
+// Why `issuerId` can't have `username`, or null if it can
+function unavailableReason(store: UsernameStore, username: string, issuerId?: number): string | null {
+  const problem = validateUsername(username);
+  if (problem) return problem;
+
+  const owner = findOwner(store, username);
+  if (owner && owner.issuerId !== issuerId) return 'That username is taken';
+
+  const retired = store.retired[username];
+  if (retired && retired.issuerId !== issuerId && isHeld(retired)) return 'That username is taken';
+
+  return null;
+}
+
+export async function getProfile(issuerId: number | string): Promise<Profile | null> {
+  const store = await readStore<UsernameStore>(STORE, EMPTY_STORE);
+  return store.profiles[String(issuerId)] || null;
+}
+
+/**
+ * Look up a handle. `redirectTo` is set when it's a retired handle whose
+ * owner now goes by another name.
+ */
+export async function resolveUsername(value: string): Promise<{ profile: Profile; redirectTo?: string } | null> {
+  const username = normalizeUsername(value);
+  const store = await readStore<UsernameStore>(STORE, EMPTY_STORE);
+
+  const owner = findOwner(store, username);
+  if (owner) return { profile: owner };
+
+  const retired = store.retired[username];
+  const profile = retired && store.profiles[String(retired.issuerId)];
+  return profile ? { profile, redirectTo: profile.username } : null;
+}
+
+export async function checkUsernameAvailability(
+  value: string,
+  issuerId?: number
+): Promise<{ username: string; available: boolean; reason?: string }> {
+  const username = normalizeUsername(value);
+  const store = await readStore<UsernameStore>(STORE, EMPTY_STORE);
+  const reason = unavailableReason(store, username, issuerId);
+  return reason ? { username, available: false, reason } : { username, available: true };
+}
+
+/**
+ * Claim or change the issuer's username. The previous handle (if any) is
+ * retired and redirects to the new one.
+ *
+ * @throws UsernameError when the username is invalid or taken
+ */
+export async function claimUsername(issuerId: number, value: string, displayName?: string): Promise<Profile> {
+  const username = normalizeUsername(value);
+  let claimed: Profile | undefined;
+
+  await updateStore<UsernameStore>(STORE, EMPTY_STORE, store => {
+    const reason = unavailableReason(store, username, issuerId);
+    if (reason) {
+      throw new UsernameError(reason, validateUsername(username) ? 'INVALID' : 'TAKEN');
+    }
+
+    const now = new Date().toISOString();
+    const previous = store.profiles[String(issuerId)];
+    if (previous && previous.username !== username) {
+      store.retired[previous.username] = { issuerId, retiredAt: now };
+    }
+    // Taking back one of your own retired handles
+    delete store.retired[username];
+
+    claimed = {
+      issuerId,
+      username,
+      displayName: displayName || previous?.displayName,
+      claimedAt: previous?.username === username ? previous.claimedAt : now,
+    };
+    store.profiles[String(issuerId)] = claimed;
+  });
+
+  return claimed!;
+}
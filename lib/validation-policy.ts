@@ -0,0 +1,99 @@
+/**
+ * Validations: formal confirmation of a student's achievement by someone in
+ * a position to know - an instructor, employer or event organizer - who is
+ * asked by email and answers through a tokenized link, without an account.
+ * The owner chooses the address, so a validator who only has the link is
+ * shown as such; one signed in to their own LinkedTrust account is not.
+ *
+ * A confirmed validation is recorded as a LinkedClaim issued by TrustFolio
+ * on the validator's behalf (howKnown SECOND_HAND), with the original claim's
+ * URI as its subject.
+ *
+ * Shared by the request and response forms and the server (lib/validations.ts).
+ */
+
+// Claim type of a validation on LinkedTrust
+export const VALIDATION_CLAIM = 'VALIDATES';
+
+// TrustFolio relays what the validator told it, so it knows second hand
+export const VALIDATION_HOW_KNOWN = 'SECOND_HAND';
+
+export const VALIDATION_NOTE_MAX_LENGTH = 500;
+export const VALIDATOR_NAME_MAX_LENGTH = 100;
+
+export type ValidatorRole = 'instructor' | 'employer' | 'supervisor' | 'organizer';
+
+export const VALIDATOR_ROLES: { value: ValidatorRole; label: string }[] = [
+  { value: 'instructor', label: 'Instructor' },
+  { value: 'employer', label: 'Employer' },
+  { value: 'supervisor', label: 'Supervisor' },
+  { value: 'organizer', label: 'Hackathon organizer' },
+];
+
+// pending until the validator confirms or rejects; notes can be added while pending
+export type ValidationStatus = 'pending' | 'confirmed' | 'rejected';
+
+// What the validator decides from the link
+export type ValidationDecision = 'confirm' | 'reject' | 'annotate';
+
+// How the validator was identified when they answered: 'account' when signed in to a LinkedTrust account other than the owner's, 'email' when only through the link sent to the address the owner chose
+export type ValidatorVerification = 'account' | 'email';
+
+export interface ValidationNote {
+  text: string;
+  createdAt: string;
+}
+
+// A validation as its owner sees it; public pages get confirmed ones only
+export interface Validation {
+  id: string;
+  claimId: number;
+  // Set when the achievement was edited after the validator answered: the version they answered for
+  validatedClaimId?: number;
+  role: ValidatorRole;
+  status: ValidationStatus;
+  // Domain of the validator's email (e.g. "university.edu"), never the address
+  emailDomain: string;
+  // Given by the validator when they answer
+  validatorName?: string;
+  // Set once confirmed or rejected; answers from before it was recorded count as 'email'
+  verification?: ValidatorVerification;
+  notes: ValidationNote[];
+  // LinkedTrust id of the validation claim, once confirmed
+  validationClaimId?: number;
+  createdAt: string;
+  decidedAt?: string;
+}
+
+export function isValidatorRole(value: unknown): value is ValidatorRole {
+  return VALIDATOR_ROLES.some(role => role.value === value);
+}
+
+export function validatorRoleLabel(role: ValidatorRole): string {
+  return VALIDATOR_ROLES.find(option => option.value === role)?.label || role;
+}
+
+export function isValidationDecision(value: unknown): value is ValidationDecision {
+  return value === 'confirm' || value === 'reject' || value === 'annotate';
+}
+
+/**
+ * Check a validator's answer before it is sent.
+ *
+ * @returns a human-readable problem, or null when the answer is acceptable
+ */
+export function validateValidationResponse(decision: ValidationDecision, validatorName: string, note: string): string | null {
+  if (decision === 'confirm' && !validatorName.trim()) {
+    return 'Please enter your name so the confirmation can be attributed to you';
+  }
+  if (validatorName.trim().length > VALIDATOR_NAME_MAX_LENGTH) {
+    return `Names can be at most ${VALIDATOR_NAME_MAX_LENGTH} characters`;
+  }
+  if (decision === 'annotate' && !note.trim()) {
+    return 'Please write a note';
+  }
+  if (note.trim().length > VALIDATION_NOTE_MAX_LENGTH) {
+    return `Notes can be at most ${VALIDATION_NOTE_MAX_LENGTH} characters`;
+  }
+  return null;
+}
@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ClaimInput } from '@/lib/linkedtrust-client';
+import {
+  ValidationError,
+  createValidationRequest,
+  getValidationsForOwner,
+  moveValidationsToClaim,
+  respondToValidation,
+} from '@/lib/validations';
+
+const stores = vi.hoisted(() => new Map<string, unknown>());
+const createClaim = vi.hoisted(() => vi.fn());
+
+// Serialized per store, like the real one
+vi.mock('@/lib/json-store', () => {
+  const queues = new Map<string, Promise<unknown>>();
+  return {
+    readStore: async (name: string, fallback: unknown) => structuredClone(stores.get(name) ?? fallback),
+    updateStore: (name: string, fallback: unknown, mutate: (store: unknown) => unknown) => {
+      const next = (queues.get(name) || Promise.resolve()).catch(() => undefined).then(async () => {
+        const store = structuredClone(stores.get(name) ?? fallback);
+        await mutate(store);
+        stores.set(name, store);
+        return store;
+      });
+      queues.set(name, next);
+      return next;
+    },
+  };
+});
+
+vi.mock('@/lib/linkedtrust-client', async importOriginal => {
+  const actual = await importOriginal<typeof import('@/lib/linkedtrust-client')>();
+  class LinkedTrustClient {
+    createClaim = createClaim;
+  }
+  return { ...actual, LinkedTrustClient };
+});
+
+const answer = { validatorName: 'Prof. Smith', note: '' };
+
+beforeEach(() => {
+  vi.stubEnv('TRUSTFOLIO_SECRET', 'test-secret-that-is-long-enough-for-the-cipher');
+  vi.stubEnv('LINKEDTRUST_SERVICE_TOKEN', 'service-token');
+  stores.clear();
+  createClaim.mockReset().mockImplementation(async (input: ClaimInput) => ({ id: 500, ...input }));
+});
+
+describe('respondToValidation', () => {
+  it('validates the claim it is given and moves the request there', async () => {
+    const { token } = await createValidationRequest(10, 1, 'prof@uni.edu', 'instructor');
+
+    const validation = await respondToValidation(token, 'confirm', answer, 11);
+
+    expect(validation).toMatchObject({ claimId: 11, status: 'confirmed', validationClaimId: 500 });
+    expect(createClaim).toHaveBeenCalledTimes(1);
+    expect(createClaim.mock.calls[0][0].subject).toMatch(/\/11$/);
+  });
+
+  it('does not hold the store while LinkedTrust creates the claim', async () => {
+    const { token } = await createValidationRequest(10, 1, 'prof@uni.edu', 'instructor');
+    let finishCreate!: () => void;
+    createClaim.mockImplementation(async (input: ClaimInput) => {
+      await new Promise<void>(resolve => { finishCreate = resolve; });
+      return { id: 500, ...input };
+    });
+
+    const confirming = respondToValidation(token, 'confirm', answer, 10);
+    await vi.waitFor(() => expect(createClaim).toHaveBeenCalled());
+    await createValidationRequest(12, 1, 'boss@work.com', 'employer');
+
+    finishCreate();
+    await expect(confirming).resolves.toMatchObject({ status: 'confirmed' });
+  });
+
+  it('keeps a request an edit moved while LinkedTrust created the claim', async () => {
+    const { token } = await createValidationRequest(10, 1, 'prof@uni.edu', 'instructor');
+    let finishCreate!: () => void;
+    createClaim.mockImplementation(async (input: ClaimInput) => {
+      await new Promise<void>(resolve => { finishCreate = resolve; });
+      return { id: 500, ...input };
+    });
+
+    const confirming = respondToValidation(token, 'confirm', answer, 10);
+    await vi.waitFor(() => expect(createClaim).toHaveBeenCalled());
+    await moveValidationsToClaim(10, 11);
+
+    finishCreate();
+    await expect(confirming).resolves.toMatchObject({ claimId: 11, validatedClaimId: 10, status: 'confirmed' });
+    expect(Object.keys(await getValidationsForOwner(1))).toEqual(['11']);
+  });
+
+  it('lets only one of two simultaneous answers through', async () => {
+    const { token } = await createValidationRequest(10, 1, 'prof@uni.edu', 'instructor');
+
+    const results = await Promise.allSettled([
+      respondToValidation(token, 'confirm', answer, 10),
+      respondToValidation(token, 'confirm', answer, 10),
+      respondToValidation(token, 'reject', answer, 10),
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(createClaim).toHaveBeenCalledTimes(1);
+    for (const result of results) {
+      if (result.status === 'rejected') expect((result.reason as ValidationError).code).toBe('DECIDED');
+    }
+  });
+
+  it('records a signed-in validator and refuses the owner', async () => {
+    const { token } = await createValidationRequest(10, 1, 'prof@uni.edu', 'instructor');
+
+    await expect(
+      respondToValidation(token, 'confirm', { ...answer, validatorIssuerId: 1 }, 10)
+    ).rejects.toMatchObject({ code: 'OWN_ACHIEVEMENT' });
+    expect(createClaim).not.toHaveBeenCalled();
+
+    await expect(
+      respondToValidation(token, 'confirm', { ...answer, validatorIssuerId: 7 }, 10)
+    ).resolves.toMatchObject({ status: 'confirmed', verification: 'account' });
+  });
+
+  it('marks a confirmation given without an account as email-only', async () => {
+    const { token } = await createValidationRequest(10, 1, 'prof@uni.edu', 'instructor');
+
+    await expect(respondToValidation(token, 'confirm', answer, 10)).resolves.toMatchObject({ verification: 'email' });
+  });
+
+  it('can be answered again after LinkedTrust fails', async () => {
+    const { token } = await createValidationRequest(10, 1, 'prof@uni.edu', 'instructor');
+    createClaim.mockRejectedValueOnce(new Error('LinkedTrust is down'));
+
+    await expect(respondToValidation(token, 'confirm', answer, 10)).rejects.toThrow('LinkedTrust is down');
+    expect((await getValidationsForOwner(1))['10'][0].status).toBe('pending');
+
+    await expect(respondToValidation(token, 'confirm', answer, 10)).resolves.toMatchObject({ status: 'confirmed' });
+  });
+});
@@ -0,0 +1,329 @@
+import crypto from 'crypto';
+import { signToken, verifyToken } from '@/lib/app-secret';
+import { readStore, updateStore } from '@/lib/json-store';
+import { LinkedTrustClient, claimUri } from '@/lib/linkedtrust-client';
+import { normalizeEmail } from '@/lib/password-reset';
+import { ScoredValidation } from '@/lib/trust-score';
+import {
+  VALIDATION_CLAIM,
+  VALIDATION_HOW_KNOWN,
+  Validation,
+  ValidationDecision,
+  ValidatorRole,
+  validatorRoleLabel,
+} from '@/lib/validation-policy';
+
+/**
+ * Validation requests emailed to instructors, employers and organizers.
+ *
+ * The owner picks a claim and a validator's email and role; the validator
+ * gets a signed link (/validate/[token]) and can confirm, reject or add a
+ * note without a TrustFolio account. Confirmations are written to LinkedTrust
+ * with the server-held LINKEDTRUST_SERVICE_TOKEN, since the validator may have
+ * no LinkedTrust identity of their own. A validator who answers signed in has
+ * their account recorded, and the owner's own account is refused.
+ *
+ * Server-only: never import from client components.
+ */
+
+const PURPOSE = 'validation-request';
+const STORE = 'validations';
+
+export const VALIDATION_REQUEST_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// A confirmation that hasn't finished by then is assumed to have crashed, and the link can be answered again
+const CONFIRMING_TIMEOUT_MS = 5 * 60_000;
+
+// Validation emails one owner may send per day
+export const VALIDATION_REQUEST_LIMIT = 10;
+export const VALIDATION_REQUEST_WINDOW_MS = 24 * 60 * 60_000;
+
+interface ValidationRequestPayload {
+  requestId: string;
+}
+
+interface ValidationRecord extends Validation {
+  ownerIssuerId: string;
+  validatorEmail: string;
+  // LinkedTrust account of a validator who answered signed in
+  validatorIssuerId?: string;
+  // Set while a confirmation is being written to LinkedTrust
+  confirmingSince?: string;
+}
+
+// Keyed by request id
+type ValidationStore = { [requestId: string]: ValidationRecord };
+
+export type ValidationErrorCode = 'NOT_FOUND' | 'DECIDED' | 'OWN_ACHIEVEMENT' | 'NOT_CONFIGURED';
+
+/**
+ * Error from respondToValidation; `code` tells the route which status to return.
+ */
+export class ValidationError extends Error {
+  readonly code: ValidationErrorCode;
+
+  constructor(message: string, code: ValidationErrorCode) {
+    super(message);
+    this.name = 'ValidationError';
+    this.code = code;
+  }
+}
+
+// The validator's address and account stay server-side
+function toValidation(record: ValidationRecord): Validation {
+  const { id, claimId, validatedClaimId, role, status, emailDomain, validatorName, verification, notes, validationClaimId, createdAt, decidedAt } = record;
+  return {
+    id,
+    claimId,
+    ...(validatedClaimId && { validatedClaimId }),
+    role,
+    status,
+    emailDomain,
+    ...(validatorName && { validatorName }),
+    ...(verification && { verification }),
+    notes,
+    ...(validationClaimId && { validationClaimId }),
+    createdAt,
+    ...(decidedAt && { decidedAt }),
+  };
+}
+
+function isConfirming(record: ValidationRecord): boolean {
+  return !!record.confirmingSince && Date.now() - Date.parse(record.confirmingSince) < CONFIRMING_TIMEOUT_MS;
+}
+
+function groupByClaim(validations: Validation[]): { [claimId: string]: Validation[] } {
+  const grouped: { [claimId: string]: Validation[] } = {};
+  for (const validation of validations.sort((a, b) => b.createdAt.localeCompare(a.createdAt))) {
+    (grouped[validation.claimId] ||= []).push(validation);
+  }
+  return grouped;
+}
+
+/**
+ * Record a pending validation request. Returns it with the token for the
+ * validator's link; sending the email is up to the caller.
+ */
+export async function createValidationRequest(
+  claimId: number,
+  ownerIssuerId: number | string,
+  validatorEmail: string,
+  role: ValidatorRole
+): Promise<{ validation: Validation; token: string }> {
+  const email = normalizeEmail(validatorEmail);
+  const record: ValidationRecord = {
+    id: crypto.randomBytes(12).toString('base64url'),
+    claimId,
+    role,
+    status: 'pending',
+    emailDomain: email.split('@')[1] || '',
+    notes: [],
+    createdAt: new Date().toISOString(),
+    ownerIssuerId: String(ownerIssuerId),
+    validatorEmail: email,
+  };
+
+  await updateStore<ValidationStore>(STORE, {}, store => {
+    store[record.id] = record;
+  });
+
+  const token = signToken<ValidationRequestPayload>(PURPOSE, { requestId: record.id }, VALIDATION_REQUEST_TTL_SECONDS);
+  return { validation: toValidation(record), token };
+}
+
+// The request a link points to, or null if the link is invalid, expired or withdrawn
+export async function getValidationRequest(token: string): Promise<{ validation: Validation; ownerIssuerId: string } | null> {
+  const payload = verifyToken<ValidationRequestPayload>(PURPOSE, token);
+  if (!payload) return null;
+
+  const store = await readStore<ValidationStore>(STORE, {});
+  const record = store[payload.requestId];
+  return record ? { validation: toValidation(record), ownerIssuerId: record.ownerIssuerId } : null;
+}
+
+function validationStatement(validatorName: string, role: ValidatorRole, emailDomain: string, note: string): string {
+  const validator = `${validatorName}, ${validatorRoleLabel(role)}${emailDomain ? ` (${emailDomain})` : ''}`;
+  return note ? `${validator}, confirmed this achievement: "${note}"` : `${validator}, confirmed this achievement.`;
+}
+
+/**
+ * Apply the validator's answer. Confirming writes the validation claim to
+ * LinkedTrust; rejecting and notes stay in TrustFolio for the owner to read.
+ * Only pending requests can be answered, and only once confirmed or rejected.
+ *
+ * @param response - the validator's name and note, and their LinkedTrust
+ *   issuer id when they answer signed in
+ * @param claimId - the achievement's current claim (see getCurrentClaimId),
+ *   which the validation claim is about; the request follows it there
+ */
+export async function respondToValidation(
+  token: string,
+  decision: ValidationDecision,
+  response: { validatorName: string; note: string; validatorIssuerId?: number | string },
+  claimId: number
+): Promise<Validation> {
+  const payload = verifyToken<ValidationRequestPayload>(PURPOSE, token);
+  if (!payload) {
+    throw new ValidationError('This validation link is invalid or has expired.', 'NOT_FOUND');
+  }
+
+  const validatorName = response.validatorName.trim();
+  const note = response.note.trim();
+  const validatorIssuerId = response.validatorIssuerId ? String(response.validatorIssuerId) : undefined;
+  const now = new Date().toISOString();
+
+  const serviceToken = process.env.LINKEDTRUST_SERVICE_TOKEN;
+  if (decision === 'confirm' && !serviceToken) {
+    throw new ValidationError('LINKEDTRUST_SERVICE_TOKEN is not configured', 'NOT_CONFIGURED');
+  }
+
+  let updated: ValidationRecord | undefined;
+  const applyAnswer = (record: ValidationRecord, validationClaimId?: number) => {
+    delete record.confirmingSince;
+    // An edit may have moved the request on while LinkedTrust was called; it stays there and remembers the version validated
+    if (validationClaimId && record.claimId !== claimId) record.validatedClaimId ??= claimId;
+    if (note) record.notes.push({ text: note, createdAt: now });
+    if (validatorName) record.validatorName = validatorName;
+    if (validationClaimId) record.validationClaimId = validationClaimId;
+    if (decision !== 'annotate') {
+      record.status = decision === 'confirm' ? 'confirmed' : 'rejected';
+      record.decidedAt = now;
+      record.verification = validatorIssuerId ? 'account' : 'email';
+      if (validatorIssuerId) record.validatorIssuerId = validatorIssuerId;
+    }
+    updated = record;
+  };
+
+  // Rejections and notes are applied right away; a confirmation reserves the
+  // request, so two answers to the same link can't both create a claim
+  await updateStore<ValidationStore>(STORE, {}, store => {
+    const record = store[payload.requestId];
+    if (!record) {
+      throw new ValidationError('This validation request was withdrawn.', 'NOT_FOUND');
+    }
+    if (record.status !== 'pending' || isConfirming(record)) {
+      throw new ValidationError('This validation request has already been answered.', 'DECIDED');
+    }
+    if (validatorIssuerId === record.ownerIssuerId) {
+      throw new ValidationError("You can't validate your own achievement", 'OWN_ACHIEVEMENT');
+    }
+    record.claimId = claimId;
+    if (decision === 'confirm') {
+      record.confirmingSince = now;
+      updated = { ...record };
+    } else {
+      applyAnswer(record);
+    }
+  });
+  if (decision !== 'confirm') return toValidation(updated!);
+
+  // LinkedTrust is called outside the store lock, which every other store update waits on
+  let validationClaimId: number;
+  try {
+    const created = await new LinkedTrustClient({ token: serviceToken }).createClaim({
+      subject: claimUri(claimId),
+      claim: VALIDATION_CLAIM,
+      statement: validationStatement(validatorName, updated!.role, updated!.emailDomain, note),
+      effectiveDate: now.split('T')[0],
+      howKnown: VALIDATION_HOW_KNOWN,
+    });
+    validationClaimId = created.id;
+  } catch (error) {
+    await updateStore<ValidationStore>(STORE, {}, store => {
+      delete store[payload.requestId].confirmingSince;
+    });
+    throw error;
+  }
+
+  await updateStore<ValidationStore>(STORE, {}, store => {
+    applyAnswer(store[payload.requestId], validationClaimId);
+  });
+
+  return toValidation(updated!);
+}
+
+/**
+ * Move an achievement's validation requests to the claim that supersedes it
+ * (lib/claim-revisions.ts). Answered ones remember the version the validator
+ * saw; pending ones will be answered for the edited version.
+ */
+export async function moveValidationsToClaim(fromClaimId: number, toClaimId: number): Promise<void> {
+  await updateStore<ValidationStore>(STORE, {}, store => {
+    for (const record of Object.values(store)) {
+      if (record.claimId !== fromClaimId) continue;
+      if (record.status !== 'pending') record.validatedClaimId ??= fromClaimId;
+      record.claimId = toClaimId;
+    }
+  });
+}
+
+// Every validation request for the owner's achievements, newest first, keyed by claim id
+export async function getValidationsForOwner(ownerIssuerId: number | string): Promise<{ [claimId: string]: Validation[] }> {
+  const store = await readStore<ValidationStore>(STORE, {});
+  return groupByClaim(
+    Object.values(store).filter(record => record.ownerIssuerId === String(ownerIssuerId)).map(toValidation)
+  );
+}
+
+/**
+ * Confirmed validations of the given claims, for pages other people see.
+ * Notes are left out: the confirming note is already in the LinkedTrust
+ * claim, and earlier notes were meant for the owner.
+ */
+export async function getConfirmedValidationsForClaims(claimIds: number[]): Promise<{ [claimId: string]: Validation[] }> {
+  const wanted = new Set(claimIds);
+  const store = await readStore<ValidationStore>(STORE, {});
+  return groupByClaim(
+    Object.values(store)
+      .filter(record => record.status === 'confirmed' && wanted.has(record.claimId))
+      .map(record => ({ ...toValidation(record), notes: [] }))
+  );
+}
+
+// Confirmed validations of the given claims with who gave them, for trust scores (lib/claim-graph.ts)
+export async function getValidationEvidenceForClaims(claimIds: number[]): Promise<{ [claimId: string]: ScoredValidation[] }> {
+  const wanted = new Set(claimIds);
+  const store = await readStore<ValidationStore>(STORE, {});
+  const evidence: { [claimId: string]: ScoredValidation[] } = {};
+  for (const record of Object.values(store)) {
+    if (record.status !== 'confirmed' || !wanted.has(record.claimId)) continue;
+    (evidence[record.claimId] ||= []).push({
+      validation: { ...toValidation(record), notes: [] },
+      validatorKey: record.validatorIssuerId
+        ? `account:${record.validatorIssuerId}`
+        : `domain:${record.emailDomain || record.validatorEmail}`,
+    });
+  }
+  return evidence;
+}
+
+export function buildValidationEmail(
+  validationUrl: string,
+  request: { ownerName: string; role: ValidatorRole; aspect?: string; statement: string }
+): { subject: string; text: string } {
+  const days = Math.round(VALIDATION_REQUEST_TTL_SECONDS / (24 * 60 * 60));
+
+  return {
+    subject: `${request.ownerName} asked you to validate an achievement on TrustFolio`,
+    text: [
+      `${request.ownerName} listed you as their ${validatorRoleLabel(request.role).toLowerCase()} and asked you to validate this achievement:`,
+      '',
+      `  ${request.aspect || 'Project'}: ${request.statement}`,
+      '',
+      `Confirm it, reject it or add a note here (no account needed; the link expires in ${days} days):`,
+      validationUrl,
+      '',
+      'If you don\'t know this person, you can ignore this email.',
+    ].join('\n'),
+  };
+}
+
+// Confirmed validations each issuer's achievements have received
+export async function countConfirmedValidations(issuerIds: string[]): Promise<{ [issuerId: string]: number }> {
+  const counts: { [issuerId: string]: number } = Object.fromEntries(issuerIds.map(id => [id, 0]));
+  const store = await readStore<ValidationStore>(STORE, {});
+  for (const record of Object.values(store)) {
+    if (record.status === 'confirmed' && record.ownerIssuerId in counts) counts[record.ownerIssuerId]++;
+  }
+  return counts;
+}
@@ -0,0 +1,67 @@
+import { apiRequest } from '@/lib/api-request';
+
+/**
+ * Per-achievement visibility, shared by the create/edit forms, the portfolio
+ * and the server-side visibility store (lib/claim-visibility.ts).
+ *
+ * - public: listed on /p/[username]
+ * - link: hidden from the profile, viewable by anyone holding its /s/[token] URL
+ * - private: shown to the owner only
+ *
+ * This only governs what TrustFolio shows. LinkedTrust doesn't know about it
+ * and serves every claim to anyone who asks, so the option descriptions say so.
+ *
+ * Claims with no recorded visibility are public, as they were before.
+ */
+
+export type Visibility = 'public' | 'link' | 'private';
+
+export const DEFAULT_VISIBILITY: Visibility = 'public';
+
+export const VISIBILITY_OPTIONS: { value: Visibility; label: string; description: string }[] = [
+  { value: 'public', label: '🌐 Public', description: 'Shown on your public portfolio' },
+  { value: 'link', label: '🔗 Link only', description: 'Hidden from your public portfolio; anyone with its share link can view it on TrustFolio. The claim is still readable on LinkedTrust' },
+  { value: 'private', label: '🔒 Private', description: 'Only you see it on TrustFolio. The claim is still readable on LinkedTrust, so leave out anything secret' },
+];
+
+// What the owner sees for one claim; sharePath is set for link-only claims
+export interface ClaimVisibilityInfo {
+  visibility: Visibility;
+  sharePath?: string;
+}
+
+export function isVisibility(value: unknown): value is Visibility {
+  return value === 'public' || value === 'link' || value === 'private';
+}
+
+export function visibilityLabel(visibility: Visibility): string {
+  return VISIBILITY_OPTIONS.find(option => option.value === visibility)?.label || visibility;
+}
+
+function visibilityRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  return apiRequest<T>('update visibility', url, init);
+}
+
+// Visibility of every claim the signed-in user has set one for, keyed by claim id
+export async function fetchVisibility(): Promise<{ [claimId: string]: ClaimVisibilityInfo }> {
+  const data = await visibilityRequest<{ claims: { [claimId: string]: ClaimVisibilityInfo } }>('/api/visibility');
+  return data.claims;
+}
+
+/**
+ * Set a backend claim's visibility. `regenerateLink` replaces the share URL
+ * of a link-only claim, so the old one stops working.
+ */
+export async function saveVisibility(
+  claimId: number,
+  visibility: Visibility,
+  options: { regenerateLink?: boolean } = {}
+): Promise<ClaimVisibilityInfo> {
+  return visibilityRequest<ClaimVisibilityInfo>(`/api/visibility/${claimId}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ visibility, regenerateLink: options.regenerateLink }),
+  });
+}
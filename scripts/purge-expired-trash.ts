@@ -0,0 +1,30 @@
+/**
+ * Permanently delete every achievement that has been in the trash past the
+ * retention window, whether or not its owner has been back since.
+ *
+ * Usage: npm run purge-expired-trash
+ *
+ * Meant to run daily (cron or similar) with the same environment as the
+ * server (NEXT_PUBLIC_API_BASE_URL, TRUSTFOLIO_DATA_DIR) and a
+ * LINKEDTRUST_SERVICE_TOKEN that may delete any user's claims.
+ */
+
+import { purgeAllExpiredTrash } from '@/lib/claim-trash';
+import { LinkedTrustClient } from '@/lib/linkedtrust-client';
+
+async function main() {
+  const serviceToken = process.env.LINKEDTRUST_SERVICE_TOKEN;
+  if (!serviceToken) {
+    console.error('LINKEDTRUST_SERVICE_TOKEN must be set');
+    process.exit(1);
+  }
+
+  const result = await purgeAllExpiredTrash(new LinkedTrustClient({ token: serviceToken }));
+  console.log(`Purged ${result.purged.length}, failed for ${result.failed.length} user(s)`);
+  for (const { issuerId, error } of result.failed) {
+    console.error(`  issuer ${issuerId}: ${error}`);
+  }
+  process.exit(result.failed.length > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,43 @@
+/**
+ * One-time rotation of legacy OAuth bridge passwords.
+ *
+ * Usage: npm run rotate-legacy-oauth -- identities.json
+ *
+ * identities.json lists every Google/GitHub identity that signed in before
+ * random bridge secrets, as [{ "provider", "providerAccountId", "email" }]
+ * (exported from the OAuth apps' user lists). Needs the same environment as
+ * the server (NEXT_PUBLIC_API_BASE_URL, TRUSTFOLIO_SECRET, TRUSTFOLIO_DATA_DIR)
+ * so the new secrets land in the store the server reads.
+ */
+
+import { readFile } from 'fs/promises';
+import { OAuthIdentity, rotateLegacyAccounts } from '@/lib/oauth-credentials';
+
+function isIdentity(value: unknown): value is OAuthIdentity {
+  const identity = value as OAuthIdentity;
+  return !!identity && typeof identity.provider === 'string'
+    && typeof identity.providerAccountId === 'string' && typeof identity.email === 'string';
+}
+
+async function main() {
+  const file = process.argv[2];
+  if (!file) {
+    console.error('Usage: npm run rotate-legacy-oauth -- identities.json');
+    process.exit(1);
+  }
+
+  const identities: unknown = JSON.parse(await readFile(file, 'utf8'));
+  if (!Array.isArray(identities) || !identities.every(isIdentity)) {
+    console.error(`${file} must be a JSON array of { provider, providerAccountId, email }`);
+    process.exit(1);
+  }
+
+  const result = await rotateLegacyAccounts(identities);
+  console.log(`Rotated ${result.rotated}, skipped ${result.skipped}, failed ${result.failed.length}`);
+  for (const { identity, error } of result.failed) {
+    console.error(`  ${identity.provider}:${identity.providerAccountId} <${identity.email}>: ${error}`);
+  }
+  process.exit(result.failed.length > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,25 @@
+import { DefaultSession } from 'next-auth';
+
+// LinkedTrust identity carried through the NextAuth user -> JWT -> session chain
+declare module 'next-auth' {
+  interface Session {
+    user: DefaultSession['user'] & {
+      issuerId?: number;
+    };
+  }
+
+  // Set by the signIn callback, moved into the session store by the jwt callback
+  interface User {
+    issuerId?: number;
+    accessToken?: string;
+    refreshToken?: string;
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    issuerId?: number;
+    // Id of the server-side session holding the LinkedTrust tokens (lib/session.ts)
+    backendSessionId?: string;
+  }
+}